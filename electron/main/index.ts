@@ -17,6 +17,7 @@ import { initCookies } from "./utils/cookie";
 import { reloadOnChange } from "./utils/reload";
 import { registerClientProtocol } from "./utils/protocol";
 import { ConfigManager } from "./utils/config-manager";
+import { networkManager } from "./services/network-manager";
 
 // Initialize configuration manager
 ConfigManager.getInstance().initialize();
@@ -106,6 +107,9 @@ keys.forEach((key) => console.log(`${key}:`, app.getPath(key)));
 // Initialize server manager
 const serverManager = new ServerManager();
 
+// Next.js API routes run in this process in production, their fetches follow the network settings too
+networkManager.installGlobalFetch();
+
 // Start Next.js server in production environment
 if (!isDev) {
   try {
@@ -122,6 +126,28 @@ let historyView: WebContentsView | null = null;
 let ekoService: EkoService;
 let mainWindowManager: MainWindowManager;
 
+// Delay before checking again when Next.js service was not ready in time
+const SCHEDULER_START_RETRY_DELAY = 10000;
+
+/**
+ * Start task scheduler once Next.js service is healthy, task windows load their pages from it
+ * Keeps waiting while the service is down, so catch-up executions don't open against a dead server
+ */
+function startTaskSchedulerWhenReady(): void {
+  serverManager.waitForServer().then((ready) => {
+    if (!ready) {
+      console.error(`[Main] Next.js service not ready, retrying TaskScheduler start in ${SCHEDULER_START_RETRY_DELAY / 1000}s`);
+      setTimeout(startTaskSchedulerWhenReady, SCHEDULER_START_RETRY_DELAY);
+      return;
+    }
+    taskScheduler.start();
+    console.log('[Main] TaskScheduler started');
+  }).catch((error) => {
+    console.error('[Main] Failed to start TaskScheduler:', error);
+    setTimeout(startTaskSchedulerWhenReady, SCHEDULER_START_RETRY_DELAY);
+  });
+}
+
 /**
  * Initialize main window and all related components
  * Including: detailView, ekoService, windowContext registration
@@ -281,6 +307,12 @@ async function initializeMainWindow(): Promise<BrowserWindow> {
     app.dock?.setIcon(iconPath);
   }
 
+  // Encrypt API keys stored as plain text (safeStorage is only usable once app is ready)
+  ConfigManager.getInstance().migrateApiKeys();
+
+  // Apply proxy and extra CA settings before any session loads a page
+  await networkManager.initialize();
+
   // Load any existing cookies from ElectronStore, set as cookie
   await initCookies();
 
@@ -294,9 +326,8 @@ async function initializeMainWindow(): Promise<BrowserWindow> {
   createTray(mainWindow);
   console.log('[Main] System tray created');
 
-  // Start task scheduler
-  taskScheduler.start();
-  console.log('[Main] TaskScheduler started');
+  // Start task scheduler once Next.js service is ready (restored schedules may catch up missed executions right away)
+  startTaskSchedulerWhenReady();
 
   // macOS activate event handler
   app.on("activate", async () => {
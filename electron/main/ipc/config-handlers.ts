@@ -1,35 +1,46 @@
-import { ipcMain } from "electron";
-import { ConfigManager, type UserModelConfigs, type ProviderType } from "../utils/config-manager";
+import { BrowserWindow, dialog, ipcMain } from "electron";
+import fs from "fs";
+import { ConfigManager, type UserModelConfigs, type ProviderType, type CustomProviderConfig, type VoiceSettings } from "../utils/config-manager";
 import { windowContextManager } from "../services/window-context-manager";
+import { getSecretStorageStatus, maskSecret } from "../utils/secret-storage";
+import { providerProbe } from "../services/provider-probe";
+import { taskScheduler } from "../services/task-scheduler";
+import { networkManager, type NetworkSettings } from "../services/network-manager";
+
+/**
+ * Reload EkoService configuration for all windows
+ */
+function reloadAllEkoServices(): void {
+  const contexts = windowContextManager.getAllContexts();
+  contexts.forEach(context => {
+    if (context.ekoService) {
+      context.ekoService.reloadConfig();
+    }
+  });
+}
 
 /**
  * Register all configuration-related IPC handlers
  */
 export function registerConfigHandlers() {
-  // Get user model configurations
+  // Get user model configurations (API keys masked)
   ipcMain.handle('config:get-user-configs', async () => {
     try {
       const configManager = ConfigManager.getInstance();
-      return configManager.getUserModelConfigs();
+      return configManager.getMaskedUserModelConfigs();
     } catch (error: any) {
       console.error('IPC config:get-user-configs error:', error);
       throw error;
     }
   });
 
-  // Save user model configurations
+  // Save user model configurations (API keys are kept, see config:set-api-key)
   ipcMain.handle('config:save-user-configs', async (_event, configs: UserModelConfigs) => {
     try {
       const configManager = ConfigManager.getInstance();
-      configManager.saveUserModelConfigs(configs);
+      configManager.updateUserModelConfigs(configs);
 
-      // Reload EkoService configuration for all windows
-      const contexts = windowContextManager.getAllContexts();
-      contexts.forEach(context => {
-        if (context.ekoService) {
-          context.ekoService.reloadConfig();
-        }
-      });
+      reloadAllEkoServices();
 
       return { success: true };
     } catch (error: any) {
@@ -38,17 +49,213 @@ export function registerConfigHandlers() {
     }
   });
 
-  // Get model configuration for specific provider
+  // Get model configuration for specific provider (API key masked)
   ipcMain.handle('config:get-model-config', async (_event, provider: ProviderType) => {
     try {
       const configManager = ConfigManager.getInstance();
-      return configManager.getModelConfig(provider);
+      const modelConfig = configManager.getModelConfig(provider);
+      return modelConfig && { ...modelConfig, apiKey: maskSecret(modelConfig.apiKey || '') };
     } catch (error: any) {
       console.error('IPC config:get-model-config error:', error);
       throw error;
     }
   });
 
+  // Set API key of a provider (write-only, empty key removes it)
+  ipcMain.handle('config:set-api-key', async (_event, provider: ProviderType, apiKey: string) => {
+    try {
+      const configManager = ConfigManager.getInstance();
+      configManager.setApiKey(provider, apiKey);
+
+      reloadAllEkoServices();
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC config:set-api-key error:', error);
+      throw error;
+    }
+  });
+
+  // Get how stored API keys are protected
+  ipcMain.handle('config:get-secret-storage-status', async () => {
+    try {
+      return getSecretStorageStatus();
+    } catch (error: any) {
+      console.error('IPC config:get-secret-storage-status error:', error);
+      throw error;
+    }
+  });
+
+  // Send a minimal request through the provider's configured model
+  ipcMain.handle('config:test-connection', async (_event, provider: ProviderType) => {
+    try {
+      return await providerProbe.testConnection(provider);
+    } catch (error: any) {
+      console.error('IPC config:test-connection error:', error);
+      throw error;
+    }
+  });
+
+  // Fetch models from the provider's model listing endpoint (token limits apply with the next configuration reload)
+  ipcMain.handle('config:fetch-models', async (_event, provider: ProviderType) => {
+    try {
+      const models = await providerProbe.fetchModels(provider);
+      return { success: true, models };
+    } catch (error: any) {
+      console.error('IPC config:fetch-models error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Get models fetched from providers, by provider
+  ipcMain.handle('config:get-discovered-models', async () => {
+    try {
+      const configManager = ConfigManager.getInstance();
+      return configManager.getDiscoveredModels();
+    } catch (error: any) {
+      console.error('IPC config:get-discovered-models error:', error);
+      throw error;
+    }
+  });
+
+  // Get speech recognition and TTS settings (the renderer runs the speech SDKs, secrets are included)
+  ipcMain.handle('config:get-voice-settings', async () => {
+    try {
+      return ConfigManager.getInstance().getVoiceSettings();
+    } catch (error: any) {
+      console.error('IPC config:get-voice-settings error:', error);
+      throw error;
+    }
+  });
+
+  // Save speech recognition and TTS settings
+  ipcMain.handle('config:save-voice-settings', async (_event, settings: VoiceSettings) => {
+    try {
+      ConfigManager.getInstance().saveVoiceSettings(settings);
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC config:save-voice-settings error:', error);
+      throw error;
+    }
+  });
+
+  // Get proxy and extra CA settings
+  ipcMain.handle('config:get-network-settings', async () => {
+    try {
+      return networkManager.getSettings();
+    } catch (error: any) {
+      console.error('IPC config:get-network-settings error:', error);
+      throw error;
+    }
+  });
+
+  // Save proxy and extra CA settings, applied right away to all sessions and Node-side requests
+  ipcMain.handle('config:save-network-settings', async (_event, settings: NetworkSettings) => {
+    try {
+      await networkManager.saveSettings(settings);
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC config:save-network-settings error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Get configuration profiles (secrets masked) and the active one
+  ipcMain.handle('config:get-profiles', async () => {
+    try {
+      return ConfigManager.getInstance().getProfiles();
+    } catch (error: any) {
+      console.error('IPC config:get-profiles error:', error);
+      throw error;
+    }
+  });
+
+  // Save current configuration as a new profile or over an existing one
+  ipcMain.handle('config:save-profile', async (_event, name: string, id?: string) => {
+    try {
+      const profile = ConfigManager.getInstance().saveProfile(name, id);
+      return { success: true, profileId: profile.id };
+    } catch (error: any) {
+      console.error('IPC config:save-profile error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Switch profile at runtime: model and voice settings, scheduler settings and Eko configuration
+  ipcMain.handle('config:switch-profile', async (_event, id: string) => {
+    try {
+      const profile = ConfigManager.getInstance().switchProfile(id);
+      const result = taskScheduler.updateSettings(profile.data.schedulerSettings);
+      if (!result.success) {
+        console.warn(`[IPC] Scheduler settings of profile ${profile.name} not applied: ${result.message}`);
+      }
+
+      reloadAllEkoServices();
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC config:switch-profile error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Delete profile
+  ipcMain.handle('config:delete-profile', async (_event, id: string) => {
+    try {
+      ConfigManager.getInstance().deleteProfile(id);
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC config:delete-profile error:', error);
+      throw error;
+    }
+  });
+
+  // Export profile to a JSON file chosen by the user
+  ipcMain.handle('config:export-profile', async (event, id: string, includeSecrets: boolean) => {
+    try {
+      const configManager = ConfigManager.getInstance();
+      const name = configManager.getProfiles().profiles.find((profile) => profile.id === id)?.name || 'profile';
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Export configuration profile',
+        defaultPath: `${name.replace(/[\\/:*?"<>|]/g, '_')}.json`,
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      };
+      const { canceled, filePath } = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: false, canceled: true };
+      }
+
+      fs.writeFileSync(filePath, configManager.exportProfile(id, includeSecrets), 'utf-8');
+      return { success: true, filePath };
+    } catch (error: any) {
+      console.error('IPC config:export-profile error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Import profile from a JSON file chosen by the user
+  ipcMain.handle('config:import-profile', async (event) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Import configuration profile',
+        properties: ['openFile' as const],
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      };
+      const { canceled, filePaths } = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (canceled || filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const profile = ConfigManager.getInstance().importProfile(fs.readFileSync(filePaths[0], 'utf-8'));
+      return { success: true, profileId: profile.id, name: profile.name };
+    } catch (error: any) {
+      console.error('IPC config:import-profile error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
   // Get API key source (user/env/none)
   ipcMain.handle('config:get-api-key-source', async (_event, provider: ProviderType) => {
     try {
@@ -77,13 +284,7 @@ export function registerConfigHandlers() {
       const configManager = ConfigManager.getInstance();
       configManager.setSelectedProvider(provider);
 
-      // Reload EkoService configuration for all windows
-      const contexts = windowContextManager.getAllContexts();
-      contexts.forEach(context => {
-        if (context.ekoService) {
-          context.ekoService.reloadConfig();
-        }
-      });
+      reloadAllEkoServices();
 
       return { success: true };
     } catch (error: any) {
@@ -92,5 +293,31 @@ export function registerConfigHandlers() {
     }
   });
 
+  // Add or update user-defined OpenAI-compatible provider
+  ipcMain.handle('config:save-custom-provider', async (_event, provider: CustomProviderConfig) => {
+    try {
+      const configManager = ConfigManager.getInstance();
+      const reference = configManager.saveCustomProvider(provider);
+      reloadAllEkoServices();
+      return { success: true, provider: reference };
+    } catch (error: any) {
+      console.error('IPC config:save-custom-provider error:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Delete user-defined provider
+  ipcMain.handle('config:delete-custom-provider', async (_event, id: string) => {
+    try {
+      const configManager = ConfigManager.getInstance();
+      configManager.deleteCustomProvider(id);
+      reloadAllEkoServices();
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC config:delete-custom-provider error:', error);
+      throw error;
+    }
+  });
+
   console.log('[IPC] Configuration handlers registered');
 }
@@ -1,5 +1,8 @@
 import { ipcMain } from "electron";
 import { windowContextManager } from "../services/window-context-manager";
+import type { PlanAgentEdit } from "../services/eko-service";
+import { taskStatusTracker } from "../services/task-status-tracker";
+import { checkpointStore } from "../services/checkpoint-store";
 
 /**
  * Register all Eko service related IPC handlers
@@ -45,6 +48,42 @@ export function registerEkoHandlers() {
     }
   });
 
+  // Generate plan for review without executing it (replans if taskId is given)
+  ipcMain.handle('eko:plan', async (event, message: string, taskId?: string) => {
+    try {
+      console.log('IPC eko:plan received:', message, taskId);
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      return await context.ekoService.plan(message, taskId);
+    } catch (error: any) {
+      console.error('IPC eko:plan error:', error);
+      throw error;
+    }
+  });
+
+  // Execute reviewed (possibly edited) plan
+  ipcMain.handle('eko:execute-plan', async (event, taskId: string, agents: PlanAgentEdit[]) => {
+    try {
+      console.log('IPC eko:execute-plan received:', taskId);
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      return await context.ekoService.executePlan(taskId, agents);
+    } catch (error: any) {
+      console.error('IPC eko:execute-plan error:', error);
+      throw error;
+    }
+  });
+
+  // Get names of agents that can execute plan nodes
+  ipcMain.handle('eko:get-agent-names', async (event) => {
+    const context = windowContextManager.getContext(event.sender.id);
+    return context?.ekoService ? context.ekoService.getAgentNames() : [];
+  });
+
   // Get task status
   ipcMain.handle('eko:getTaskStatus', async (event, taskId: string) => {
     try {
@@ -76,5 +115,104 @@ export function registerEkoHandlers() {
     }
   });
 
+  // Pause task, it halts at the next tool boundary and can be resumed later
+  ipcMain.handle('eko:pause-task', async (event, taskId: string) => {
+    try {
+      console.log('IPC eko:pause-task received:', taskId);
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      return context.ekoService.pauseTask(taskId)
+        ? { success: true }
+        : { success: false, message: 'Task is not running' };
+    } catch (error: any) {
+      console.error('IPC eko:pause-task error:', error);
+      throw error;
+    }
+  });
+
+  // Resume paused task
+  ipcMain.handle('eko:resume-task', async (event, taskId: string) => {
+    try {
+      console.log('IPC eko:resume-task received:', taskId);
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      return context.ekoService.resumeTask(taskId)
+        ? { success: true }
+        : { success: false, message: 'Task is not paused' };
+    } catch (error: any) {
+      console.error('IPC eko:resume-task error:', error);
+      throw error;
+    }
+  });
+
+  // Restart task still running with the configuration before the last reload, continues from its checkpoint
+  ipcMain.handle('eko:restart-with-new-config', async (event, taskId: string) => {
+    try {
+      console.log('IPC eko:restart-with-new-config received:', taskId);
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      return context.ekoService.restartWithNewConfig(taskId)
+        ? { success: true }
+        : { success: false, message: 'Task is not running with an outdated configuration' };
+    } catch (error: any) {
+      console.error('IPC eko:restart-with-new-config error:', error);
+      throw error;
+    }
+  });
+
+  // Answer human request (confirm, input, select or help) of the window's agent
+  ipcMain.handle('eko:human-response', async (event, requestId: string, answer: any) => {
+    try {
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      const answered = context.ekoService.respondToHuman(requestId, answer);
+      return answered
+        ? { success: true }
+        : { success: false, message: 'Request is no longer waiting for an answer' };
+    } catch (error: any) {
+      console.error('IPC eko:human-response error:', error);
+      throw error;
+    }
+  });
+
+  // Get status of all tracked tasks (all windows), changes are pushed as 'eko-task-status'
+  ipcMain.handle('eko:get-task-statuses', async () => {
+    return taskStatusTracker.getAll();
+  });
+
+  // Get checkpoints of interrupted tasks (progress only, without plan details)
+  ipcMain.handle('eko:get-checkpoints', async () => {
+    return checkpointStore.getAll().map((checkpoint) => ({
+      taskId: checkpoint.taskId,
+      taskName: checkpoint.taskName,
+      completedAgents: Object.keys(checkpoint.agentResults).length,
+      totalAgents: checkpoint.workflow.agents.length,
+      updatedAt: checkpoint.updatedAt
+    }));
+  });
+
+  // Resume interrupted task from its checkpoint in the calling window
+  ipcMain.handle('eko:resume-checkpoint', async (event, taskId: string) => {
+    try {
+      console.log('IPC eko:resume-checkpoint received:', taskId);
+      const context = windowContextManager.getContext(event.sender.id);
+      if (!context || !context.ekoService) {
+        throw new Error('EkoService not found for this window');
+      }
+      return await context.ekoService.resumeFromCheckpoint(taskId);
+    } catch (error: any) {
+      console.error('IPC eko:resume-checkpoint error:', error);
+      throw error;
+    }
+  });
+
   console.log('[IPC] Eko service handlers registered');
 }
@@ -77,32 +77,7 @@ export function registerHistoryHandlers() {
   ipcMain.handle('open-task-history', async (_event, taskId: string) => {
     try {
       console.log('[IPC] open-task-history received:', taskId);
-
-      // Check if task window already exists
-      let taskWindow = taskWindowManager.getTaskWindow(taskId);
-
-      if (taskWindow) {
-        // Window exists, activate it
-        console.log('[IPC] Task window exists, activating window');
-        taskWindow.window.show();
-        taskWindow.window.focus();
-      } else {
-        // Window doesn't exist, create new window
-        console.log('[IPC] Task window does not exist, creating new window');
-
-        // Generate new executionId (for creating window, won't execute task immediately)
-        const executionId = `view_history_${Date.now()}`;
-
-        // Create task window
-        taskWindow = await taskWindowManager.createTaskWindow(taskId, executionId);
-      }
-
-      // Wait for window content to load, then send open history panel event
-      setTimeout(() => {
-        taskWindow!.window.webContents.send('open-history-panel', { taskId });
-        console.log('[IPC] Sent open-history-panel event to task window');
-      }, 1000); // Delay 1 second to ensure page is loaded
-
+      await taskWindowManager.openTaskHistory(taskId);
       return { success: true };
     } catch (error: any) {
       console.error('[IPC] open-task-history error:', error);
@@ -2,6 +2,7 @@ import { registerEkoHandlers } from "./eko-handlers";
 import { registerViewHandlers } from "./view-handlers";
 import { registerHistoryHandlers } from "./history-handlers";
 import { registerConfigHandlers } from "./config-handlers";
+import { registerUsageHandlers } from "./usage-handlers";
 
 /**
  * Register all IPC handlers
@@ -12,6 +13,7 @@ export function registerAllIpcHandlers() {
   registerViewHandlers();
   registerHistoryHandlers();
   registerConfigHandlers();
+  registerUsageHandlers();
 
   console.log('[IPC] All IPC handlers registered successfully');
 }
@@ -21,5 +23,6 @@ export {
   registerEkoHandlers,
   registerViewHandlers,
   registerHistoryHandlers,
-  registerConfigHandlers
+  registerConfigHandlers,
+  registerUsageHandlers
 };
@@ -0,0 +1,60 @@
+import { ipcMain } from "electron";
+import { usageTracker, type ModelPrice, type UsageBudget } from "../services/usage-tracker";
+
+/**
+ * Register all token usage related IPC handlers
+ */
+export function registerUsageHandlers() {
+  // Get usage summary (daily, per provider and per scheduled task spend)
+  ipcMain.handle('usage:get-summary', async (_event, days?: number) => {
+    try {
+      return usageTracker.getSummary(days);
+    } catch (error: any) {
+      console.error('IPC usage:get-summary error:', error);
+      throw error;
+    }
+  });
+
+  // Get price table
+  ipcMain.handle('usage:get-prices', async () => {
+    try {
+      return usageTracker.getPrices();
+    } catch (error: any) {
+      console.error('IPC usage:get-prices error:', error);
+      throw error;
+    }
+  });
+
+  // Save price table
+  ipcMain.handle('usage:save-prices', async (_event, prices: ModelPrice[]) => {
+    try {
+      const invalid = prices.find((price) =>
+        !price.provider || !price.model || !(price.inputPerMillion >= 0) || !(price.outputPerMillion >= 0)
+      );
+      if (invalid) {
+        return { success: false, message: 'Every price needs a provider, a model and non-negative prices' };
+      }
+      usageTracker.savePrices(prices);
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC usage:save-prices error:', error);
+      throw error;
+    }
+  });
+
+  // Save budget limits
+  ipcMain.handle('usage:save-budget', async (_event, budget: UsageBudget) => {
+    try {
+      if (!(budget.dailyLimit >= 0) || !(budget.monthlyLimit >= 0)) {
+        return { success: false, message: 'Budget limits cannot be negative' };
+      }
+      usageTracker.saveBudget(budget);
+      return { success: true };
+    } catch (error: any) {
+      console.error('IPC usage:save-budget error:', error);
+      throw error;
+    }
+  });
+
+  console.log('[IPC] Usage handlers registered');
+}
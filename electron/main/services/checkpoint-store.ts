@@ -0,0 +1,73 @@
+import type { Workflow } from "@jarvis-agent/core";
+import { store } from "../utils/store";
+
+/**
+ * Execution checkpoint of an Eko task, saved at every agent boundary
+ * Removed when the task finishes, so checkpoints left on startup belong to interrupted tasks
+ */
+export interface TaskCheckpoint {
+  taskId: string;
+  taskName: string;
+  workflow: Workflow;                   // Plan, agent status reflects progress
+  agentResults: Record<string, string>; // Results of completed agent nodes by node ID
+  currentUrl?: string;                  // Detail view URL at the last boundary
+  updatedAt: string;                    // ISO string
+}
+
+// Checkpoints kept at most, oldest are dropped first
+const MAX_CHECKPOINTS = 50;
+
+/**
+ * Checkpoint store
+ * Durable storage of task checkpoints in the main process (electron-store)
+ */
+export class CheckpointStore {
+  private readonly STORE_KEY = 'taskCheckpoints';
+
+  /**
+   * Get all checkpoints
+   */
+  getAll(): TaskCheckpoint[] {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, TaskCheckpoint>;
+    return Object.values(records);
+  }
+
+  /**
+   * Get checkpoint by task ID
+   */
+  get(taskId: string): TaskCheckpoint | undefined {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, TaskCheckpoint>;
+    return records[taskId];
+  }
+
+  /**
+   * Save checkpoint (insert or replace)
+   */
+  save(checkpoint: TaskCheckpoint): void {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, TaskCheckpoint>;
+    records[checkpoint.taskId] = checkpoint;
+
+    const oldest = Object.values(records)
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+      .slice(0, Math.max(0, Object.keys(records).length - MAX_CHECKPOINTS));
+    oldest.forEach((record) => delete records[record.taskId]);
+
+    store.set(this.STORE_KEY, records);
+  }
+
+  /**
+   * Delete checkpoint
+   */
+  delete(taskId: string): boolean {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, TaskCheckpoint>;
+    if (!records[taskId]) {
+      return false;
+    }
+    delete records[taskId];
+    store.set(this.STORE_KEY, records);
+    return true;
+  }
+}
+
+// Singleton instance
+export const checkpointStore = new CheckpointStore();
@@ -1,9 +1,75 @@
-import { Eko, Log, SimpleSseMcpClient, type LLMs, type StreamCallbackMessage } from "@jarvis-agent/core";
+import { Eko, Log, SimpleSseMcpClient, resetWorkflowXml, type AgentContext, type LLMs, type StreamCallbackMessage, type Workflow } from "@jarvis-agent/core";
 import { BrowserAgent, FileAgent } from "@jarvis-agent/electron";
 import type { EkoResult } from "@jarvis-agent/core/types";
-import { BrowserWindow, WebContentsView, app } from "electron";
-import path from "node:path";
-import { ConfigManager } from "../utils/config-manager";
+import { BrowserWindow, WebContentsView } from "electron";
+import { randomUUID } from "node:crypto";
+import { ConfigManager, PLANNER_ROUTE, type FallbackModel } from "../utils/config-manager";
+import { getFileAgentPath } from "../utils/constants";
+import { taskStatusTracker, type TaskConfigInfo, type TaskStatusInfo } from "./task-status-tracker";
+import { checkpointStore } from "./checkpoint-store";
+import { usageTracker, type UsageScope } from "./usage-tracker";
+
+/**
+ * How agent requests for human confirmation, input or help are answered when nobody may be watching
+ */
+export interface HumanPolicy {
+  timeoutSeconds: number;              // Wait this long for an answer, 0 = answer with default immediately
+  defaultAnswer: 'approve' | 'reject'; // approve: confirm, select first option, continue; reject: decline, select nothing, stop
+  defaultInput?: string;               // Answer to input requests
+}
+
+// Policy of scheduled (unattended) executions when the task does not configure one
+export const DEFAULT_UNATTENDED_HUMAN_POLICY: HumanPolicy = {
+  timeoutSeconds: 300,
+  defaultAnswer: 'reject'
+};
+
+/**
+ * Agent node of a reviewed plan, in execution order
+ */
+export interface PlanAgentEdit {
+  id: string;     // ID of the generated agent node
+  name: string;   // Agent executing the node
+  task: string;   // Task text, nodes generated for the original text are dropped when it changes
+}
+
+type HumanRequestType = 'confirm' | 'input' | 'select' | 'help';
+
+/**
+ * Human request sent to the window
+ */
+interface HumanRequest {
+  requestId: string;
+  taskId: string;
+  requestType: HumanRequestType;
+  prompt: string;
+  options?: string[];
+  multiple?: boolean;
+  helpType?: 'request_login' | 'request_assistance';
+  deadline?: string;        // ISO time the default answer is applied
+}
+
+/**
+ * Human request waiting for an answer
+ */
+interface PendingHumanRequest {
+  taskId: string;
+  requestType: HumanRequestType;
+  resolve: (answer: any) => void;
+  defaultAnswer: any;       // Applied on timeout
+  cancelAnswer: any;        // Applied when the task is aborted
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Eko instance a task runs on, with the model it was created for
+ * Instances are replaced on config reload, started tasks keep theirs until they finish
+ */
+interface TaskBinding {
+  eko: Eko;
+  provider: string;
+  model: string;
+}
 
 export class EkoService {
   private eko: Eko | null = null;
@@ -11,6 +77,14 @@ export class EkoService {
   private detailView: WebContentsView;
   private mcpClient!: SimpleSseMcpClient;
   private agents!: any[];
+  private humanPolicy: HumanPolicy | null = null; // No policy: wait for the user indefinitely
+  private pendingHumanRequests: Map<string, PendingHumanRequest> = new Map();
+  private taskIds: Set<string> = new Set(); // Tasks started by this service (Eko's task map is shared by all windows)
+  private usageScope: Omit<UsageScope, 'taskId'> = {}; // Scheduled execution token usage is attributed to
+  private modelOverride?: FallbackModel; // Model of scheduled task runs, replaces the selected provider and routing
+  private ekoConfig: Omit<TaskBinding, 'eko'> = { provider: '', model: '' }; // Model of the current Eko instance
+  private taskBindings: Map<string, TaskBinding> = new Map(); // Eko instance of each started task
+  private restartRequests: Set<string> = new Set(); // Tasks aborted to continue on the current config
 
   constructor(mainWindow: BrowserWindow, detailView: WebContentsView) {
     this.mainWindow = mainWindow;
@@ -25,6 +99,7 @@ export class EkoService {
     return {
       onMessage: (message: StreamCallbackMessage): Promise<void> => {
         Log.info('EkoService stream callback:', message);
+        this.trackStreamMessage(message);
 
         // Window destroyed, return directly to avoid errors
         if (!this.mainWindow || this.mainWindow.isDestroyed()) {
@@ -33,8 +108,11 @@ export class EkoService {
         }
 
         return new Promise((resolve) => {
-           // Send stream message to renderer process via IPC
-        this.mainWindow.webContents.send('eko-stream-message', message);
+           // Send stream message to renderer process via IPC (LLM calls report the model that answered)
+        this.mainWindow.webContents.send(
+          'eko-stream-message',
+          message.type === 'finish' ? { ...message, llm: taskStatusTracker.get(message.taskId)?.llm } : message
+        );
 
         // When file is modified, main view window loads file content display page
         if (message.type === 'tool_streaming' && message.toolName === 'file_write') {
@@ -74,8 +152,25 @@ export class EkoService {
         }
         })  
       },
-      onHuman: (message: any) => {
-        console.log('EkoService human callback:', message);
+      onHumanConfirm: (agentContext: AgentContext, prompt: string): Promise<boolean> => {
+        const approve = this.humanPolicy?.defaultAnswer === 'approve';
+        return this.requestHuman(agentContext, { requestType: 'confirm', prompt }, approve, false);
+      },
+      onHumanInput: (agentContext: AgentContext, prompt: string): Promise<string> => {
+        return this.requestHuman(agentContext, { requestType: 'input', prompt }, this.humanPolicy?.defaultInput ?? '', '');
+      },
+      onHumanSelect: (agentContext: AgentContext, prompt: string, options: string[], multiple?: boolean): Promise<string[]> => {
+        const approve = this.humanPolicy?.defaultAnswer === 'approve';
+        return this.requestHuman(
+          agentContext,
+          { requestType: 'select', prompt, options, multiple },
+          approve && options.length > 0 ? [options[0]] : [],
+          []
+        );
+      },
+      onHumanHelp: (agentContext: AgentContext, helpType: 'request_login' | 'request_assistance', prompt: string): Promise<boolean> => {
+        const approve = this.humanPolicy?.defaultAnswer === 'approve';
+        return this.requestHuman(agentContext, { requestType: 'help', prompt, helpType }, approve, false);
       }
     };
   }
@@ -87,9 +182,7 @@ export class EkoService {
     const llms: LLMs = configManager.getLLMsConfig();
 
     // Get correct application path
-    const appPath = app.isPackaged
-      ? path.join(app.getPath('userData'), 'static')  // Packaged path
-      : path.join(process.cwd(), 'public', 'static');    // Development environment path
+    const appPath = getFileAgentPath();
 
     Log.info(`FileAgent working path: ${appPath}`);
 
@@ -97,43 +190,352 @@ export class EkoService {
     const sseUrl = "http://localhost:5173/api/mcp/sse";
     this.mcpClient = new SimpleSseMcpClient(sseUrl);
 
-    // Create agents - can now use FileAgent since we're in Node.js environment
-    this.agents = [new BrowserAgent(this.detailView, this.mcpClient), new FileAgent(this.detailView, appPath)];
-
     // Create callback and initialize Eko instance
-    const callback = this.createCallback();
-    this.eko = new Eko({ llms, agents: this.agents, callback });
+    this.replaceEko(llms);
     Log.info('EkoService initialized with LLMs:', llms.default?.model);
   }
 
   /**
-   * Reload LLM configuration and reinitialize Eko instance
-   * Called when user changes model configuration in UI
+   * Create Eko instance, planning and agents start with their routed LLM slot, then fail over along the LLM chain in order
    */
-  public reloadConfig(): void {
-    Log.info('Reloading EkoService configuration...');
+  private createEko(llms: LLMs): Eko {
+    const configManager = ConfigManager.getInstance();
+    // Create agents per instance, tasks still running on a replaced instance keep their LLM lists
+    this.agents = [new BrowserAgent(this.detailView, this.mcpClient), new FileAgent(this.detailView, getFileAgentPath())];
+    // Agents only use their own LLM list (just 'default' when unset)
+    this.agents.forEach((agent) => {
+      agent.llms = configManager.getRouteChain(llms, agent.Name);
+    });
+    return new Eko({
+      llms,
+      agents: this.agents,
+      planLlms: configManager.getRouteChain(llms, PLANNER_ROUTE),
+      compressLlms: configManager.getRouteChain(llms),
+      callback: this.createCallback()
+    });
+  }
+
+  /**
+   * Run tasks of this service with a specific model instead of the configured provider and routing
+   * @param model Model to use, configured provider and routing if not set
+   */
+  setModelOverride(model?: FallbackModel): void {
+    this.modelOverride = model;
+    this.replaceEko(ConfigManager.getInstance().getLLMsConfig(model));
+    Log.info('EkoService model override:', model ? `${model.provider}/${model.model || ''}` : 'none');
+  }
 
-    // Abort all running tasks before reloading
-    if (this.eko) {
-      const allTaskIds = this.eko.getAllTaskId();
-      allTaskIds.forEach(taskId => {
-        try {
-          this.eko!.abortTask(taskId, 'config-reload');
-        } catch (error) {
-          Log.error(`Failed to abort task ${taskId}:`, error);
+  /**
+   * Update task status from stream message
+   */
+  private trackStreamMessage(message: StreamCallbackMessage): void {
+    switch (message.type) {
+      case 'workflow':
+        if (message.streamDone && message.workflow?.name) {
+          taskStatusTracker.update(message.taskId, { taskName: message.workflow.name });
+          this.saveCheckpoint(message.taskId, message.workflow);
+        }
+        break;
+      case 'agent_start':
+        taskStatusTracker.update(message.taskId, {
+          // Agent started before a pause took effect, stays paused
+          status: taskStatusTracker.get(message.taskId)?.status === 'paused' ? 'paused' : 'running',
+          agentName: message.agentName,
+          currentNode: message.agentNode?.task
+        });
+        break;
+      case 'tool_use':
+        taskStatusTracker.update(message.taskId, {
+          lastToolCall: { toolName: message.toolName, time: new Date().toISOString() }
+        });
+        break;
+      case 'agent_result': {
+        const workflow = this.getTaskEko(message.taskId)?.getTask(message.taskId)?.workflow;
+        if (!message.error && workflow) {
+          this.saveCheckpoint(message.taskId, workflow, { [message.agentNode.id]: message.result || '' });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Save checkpoint of a task run by this service (plan, completed agent nodes and their results, detail view URL)
+   * @param newResults Results of agent nodes completed since the last checkpoint
+   */
+  private saveCheckpoint(taskId: string, workflow: Workflow, newResults: Record<string, string> = {}): void {
+    if (!this.taskIds.has(taskId)) {
+      return;
+    }
+
+    try {
+      // Keep results of nodes still done in the (possibly replanned) workflow
+      const doneIds = workflow.agents.filter((agent) => agent.status === 'done').map((agent) => agent.id);
+      const previousResults = checkpointStore.get(taskId)?.agentResults || {};
+      const agentResults: Record<string, string> = {};
+      doneIds.forEach((id) => {
+        const result = newResults[id] ?? previousResults[id];
+        if (result !== undefined) {
+          agentResults[id] = result;
         }
       });
+
+      const url = this.detailView.webContents.isDestroyed() ? '' : this.detailView.webContents.getURL();
+      checkpointStore.save({
+        taskId,
+        taskName: workflow.name,
+        workflow: JSON.parse(JSON.stringify(workflow)),
+        agentResults,
+        currentUrl: url && !url.includes('file-view') ? url : undefined,
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      Log.error(`Failed to save checkpoint of task ${taskId}:`, error);
+    }
+  }
+
+  /**
+   * Start tracking status of a task run by this service
+   */
+  private trackTask(taskId: string, status: 'planning' | 'running'): void {
+    this.taskIds.add(taskId);
+    taskStatusTracker.start(taskId, status);
+
+    // New tasks run on the current Eko instance, started ones stay on theirs
+    let binding = this.taskBindings.get(taskId);
+    if (!binding) {
+      binding = { eko: this.eko!, ...this.ekoConfig };
+      this.taskBindings.set(taskId, binding);
+    }
+    taskStatusTracker.update(taskId, { config: this.toConfigInfo(binding) });
+  }
+
+  /**
+   * Get Eko instance a task runs on, the current one for tasks not started yet
+   */
+  private getTaskEko(taskId: string): Eko | null {
+    return this.taskBindings.get(taskId)?.eko || this.eko;
+  }
+
+  /**
+   * Configuration of a task for its status, outdated once its instance was replaced
+   */
+  private toConfigInfo(binding: TaskBinding): TaskConfigInfo {
+    return { provider: binding.provider, model: binding.model, outdated: binding.eko !== this.eko };
+  }
+
+  /**
+   * Replace the Eko instance new tasks run on, running tasks finish on the instance they started on
+   */
+  private replaceEko(llms: LLMs): void {
+    const configManager = ConfigManager.getInstance();
+    const provider = this.modelOverride?.provider || configManager.getSelectedProvider();
+    this.eko = this.createEko(llms);
+    this.ekoConfig = { provider: configManager.getCustomProvider(provider)?.name || provider, model: llms.default?.model || '' };
+
+    this.taskBindings.forEach((binding, taskId) => {
+      if (taskStatusTracker.isActive(taskId)) {
+        taskStatusTracker.update(taskId, { config: this.toConfigInfo(binding) });
+      } else {
+        // Finished, follow-up messages start over on the current instance
+        this.taskBindings.delete(taskId);
+      }
+    });
+  }
+
+  /**
+   * Run an Eko call of a task on the instance it is bound to
+   * A task aborted by restartWithNewConfig continues from its checkpoint on the current instance
+   */
+  private async runOnTaskEko(taskId: string, fn: (eko: Eko) => Promise<EkoResult>): Promise<EkoResult> {
+    let result = await this.withUsage(taskId, () => fn(this.getTaskEko(taskId)!));
+    while (result.stopReason === 'abort' && this.restartRequests.delete(taskId)) {
+      this.taskBindings.get(taskId)?.eko.deleteTask(taskId);
+      const binding: TaskBinding = { eko: this.eko!, ...this.ekoConfig };
+      this.taskBindings.set(taskId, binding);
+      taskStatusTracker.update(taskId, { status: 'running', config: this.toConfigInfo(binding) });
+      Log.info(`EkoService restarting task ${taskId} with ${binding.provider}/${binding.model}`);
+      result = await this.withUsage(taskId, () => this.executeCheckpoint(taskId));
+    }
+    return result;
+  }
+
+  /**
+   * Record final status of a task from its result
+   */
+  private finishTask(taskId: string, result: EkoResult | null, errorMessage?: string): void {
+    this.restartRequests.delete(taskId);
+    // Old instances are released once their tasks finished
+    if (this.taskBindings.get(taskId)?.eko !== this.eko) {
+      this.taskBindings.delete(taskId);
     }
 
+    // Checkpoints of tasks interrupted by window closing are kept for resuming
+    if (result?.stopReason !== 'abort') {
+      checkpointStore.delete(taskId);
+    }
+
+    if (!result) {
+      taskStatusTracker.update(taskId, { status: 'error', error: errorMessage || 'Unknown error occurred' });
+      return;
+    }
+
+    if (result.stopReason === 'abort') {
+      taskStatusTracker.update(taskId, { status: 'aborted' });
+    } else if (result.success) {
+      taskStatusTracker.update(taskId, { status: 'done', error: undefined });
+    } else {
+      taskStatusTracker.update(taskId, { status: 'error', error: result.result });
+    }
+  }
+
+  /**
+   * Set how human requests are answered (null: wait for the user indefinitely)
+   */
+  public setHumanPolicy(policy: HumanPolicy | null): void {
+    this.humanPolicy = policy;
+  }
+
+  /**
+   * Set scheduled execution that token usage of following runs is attributed to (empty: interactive use)
+   */
+  public setUsageScope(scope: Omit<UsageScope, 'taskId'>): void {
+    this.usageScope = scope;
+  }
+
+  /**
+   * Run an Eko call, token usage of its LLM requests is attributed to the task
+   */
+  private withUsage<T>(taskId: string, fn: () => Promise<T>): Promise<T> {
+    return usageTracker.runInScope({ ...this.usageScope, taskId }, fn);
+  }
+
+  /**
+   * Forward a human request to the window and wait for the answer
+   * @param defaultAnswer Applied when the policy timeout expires or the window is gone
+   * @param cancelAnswer Applied when the task is aborted
+   */
+  private requestHuman<T>(
+    agentContext: AgentContext,
+    request: Pick<HumanRequest, 'requestType' | 'prompt' | 'options' | 'multiple' | 'helpType'>,
+    defaultAnswer: T,
+    cancelAnswer: T
+  ): Promise<T> {
+    const taskId = agentContext.context.taskId;
+
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      Log.warn('Main window destroyed, applying default answer to human request');
+      return Promise.resolve(defaultAnswer);
+    }
+
+    return new Promise<T>((resolve) => {
+      const requestId = randomUUID();
+      const policy = this.humanPolicy;
+      const pending: PendingHumanRequest = { taskId, requestType: request.requestType, resolve, defaultAnswer, cancelAnswer };
+      this.pendingHumanRequests.set(requestId, pending);
+      taskStatusTracker.update(taskId, { status: 'waiting_human' });
+
+      this.mainWindow.webContents.send('eko-human-request', {
+        ...request,
+        requestId,
+        taskId,
+        deadline: policy ? new Date(Date.now() + policy.timeoutSeconds * 1000).toISOString() : undefined
+      } satisfies HumanRequest);
+      Log.info(`EkoService human ${request.requestType} request for task ${taskId}:`, request.prompt);
+
+      if (policy) {
+        // Unattended, answer with the default when nobody responds in time
+        pending.timer = setTimeout(() => {
+          this.finishHumanRequest(requestId, defaultAnswer, policy.timeoutSeconds > 0 ? 'timeout' : 'default');
+        }, policy.timeoutSeconds * 1000);
+      }
+    });
+  }
+
+  /**
+   * Answer a pending human request from the window
+   * @returns false if the request is no longer pending
+   */
+  public respondToHuman(requestId: string, answer: any): boolean {
+    const pending = this.pendingHumanRequests.get(requestId);
+    if (!pending) {
+      return false;
+    }
+
+    // Normalize answer to what the agent expects
+    let value: any;
+    switch (pending.requestType) {
+      case 'confirm':
+      case 'help':
+        value = !!answer;
+        break;
+      case 'input':
+        value = answer === undefined || answer === null ? '' : String(answer);
+        break;
+      case 'select':
+        value = (Array.isArray(answer) ? answer : [answer]).filter((option) => typeof option === 'string');
+        break;
+    }
+
+    return this.finishHumanRequest(requestId, value, 'answered');
+  }
+
+  /**
+   * Resolve a pending human request and tell the window how it was answered
+   */
+  private finishHumanRequest(requestId: string, answer: any, status: 'answered' | 'timeout' | 'default' | 'cancelled'): boolean {
+    const pending = this.pendingHumanRequests.get(requestId);
+    if (!pending) {
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingHumanRequests.delete(requestId);
+    pending.resolve(answer);
+
+    if (!this.isWaitingForHuman(pending.taskId) && taskStatusTracker.get(pending.taskId)?.status === 'waiting_human') {
+      taskStatusTracker.update(pending.taskId, { status: 'running' });
+    }
+
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('eko-human-resolved', { requestId, status, answer });
+    }
+    return true;
+  }
+
+  /**
+   * Check if a task has unanswered human requests
+   */
+  private isWaitingForHuman(taskId: string): boolean {
+    return Array.from(this.pendingHumanRequests.values()).some((pending) => pending.taskId === taskId);
+  }
+
+  /**
+   * Cancel pending human requests of a task (all tasks if not given), the agent gets a declining answer
+   */
+  private cancelHumanRequests(taskId?: string): void {
+    Array.from(this.pendingHumanRequests.entries()).forEach(([requestId, pending]) => {
+      if (!taskId || pending.taskId === taskId) {
+        this.finishHumanRequest(requestId, pending.cancelAnswer, 'cancelled');
+      }
+    });
+  }
+
+  /**
+   * Reload LLM configuration for new tasks
+   * Called when user changes model configuration in UI, running tasks finish with the configuration they started with
+   */
+  public reloadConfig(): void {
+    Log.info('Reloading EkoService configuration...');
+
     // Get new LLMs configuration
     const configManager = ConfigManager.getInstance();
-    const llms: LLMs = configManager.getLLMsConfig();
+    const llms: LLMs = configManager.getLLMsConfig(this.modelOverride);
 
     Log.info('New LLMs config:', llms.default?.model);
 
     // Create new Eko instance with updated config and fresh callback
-    const callback = this.createCallback();
-    this.eko = new Eko({ llms, agents: this.agents, callback });
+    this.replaceEko(llms);
 
     Log.info('EkoService configuration reloaded successfully');
 
@@ -150,8 +552,10 @@ export class EkoService {
 
   /**
    * Run new task
+   * @param message Task prompt
+   * @param taskId Task ID to use (generated by Eko if not set)
    */
-  async run(message: string): Promise<EkoResult | null> {
+  async run(message: string, taskId?: string): Promise<EkoResult | null> {
     if (!this.eko) {
       const errorMsg = 'Eko service not initialized';
       Log.error(errorMsg);
@@ -160,19 +564,112 @@ export class EkoService {
     }
 
     console.log('EkoService running task:', message);
+    // Generate the ID here (as Eko would) so status can be tracked from the start
+    const runTaskId = taskId || randomUUID();
+    this.trackTask(runTaskId, 'planning');
+
     let result = null;
+    let errorMessage: string | undefined;
     try {
-      result = await this.eko.run(message);
+      result = await this.runOnTaskEko(runTaskId, (eko) => eko.run(message, runTaskId));
     } catch (error: any) {
       Log.error('EkoService run error:', error);
 
       // Extract error message
-      const errorMessage = error?.message || error?.toString() || 'Unknown error occurred';
-      this.sendErrorToFrontend(errorMessage, error);
+      errorMessage = error?.message || error?.toString() || 'Unknown error occurred';
+      this.sendErrorToFrontend(errorMessage!, error, runTaskId);
     }
+    this.finishTask(runTaskId, result, errorMessage);
     return result;
   }
 
+  /**
+   * Generate workflow plan without executing it, so the user can review and edit it first
+   * @param message Task prompt
+   * @param taskId Existing task to replan, a new task is created if not set
+   */
+  async plan(message: string, taskId?: string): Promise<Workflow | null> {
+    if (!this.eko) {
+      const errorMsg = 'Eko service not initialized';
+      Log.error(errorMsg);
+      this.sendErrorToFrontend(errorMsg, undefined, taskId);
+      return null;
+    }
+
+    const planTaskId = taskId || randomUUID();
+    this.trackTask(planTaskId, 'planning');
+    const eko = this.getTaskEko(planTaskId)!;
+
+    try {
+      const workflow = await this.withUsage(planTaskId, () => taskId
+        ? eko.modify(planTaskId, message)
+        : eko.generate(message, planTaskId));
+      taskStatusTracker.update(planTaskId, { status: 'plan_review' });
+      return workflow;
+    } catch (error: any) {
+      Log.error('EkoService plan error:', error);
+      const errorMessage = error?.message || error?.toString() || 'Failed to generate plan';
+      this.sendErrorToFrontend(errorMessage, error, planTaskId);
+      this.finishTask(planTaskId, null, errorMessage);
+      return null;
+    }
+  }
+
+  /**
+   * Execute reviewed plan, edited agent nodes replace the generated ones and run top to bottom
+   */
+  async executePlan(taskId: string, agents: PlanAgentEdit[]): Promise<EkoResult | null> {
+    if (!this.eko) {
+      throw new Error('Eko service not initialized');
+    }
+
+    const context = this.getTaskEko(taskId)!.getTask(taskId);
+    if (!context?.workflow || taskStatusTracker.get(taskId)?.status !== 'plan_review') {
+      throw new Error('Task has no plan waiting for review');
+    }
+    if (agents.length === 0) {
+      throw new Error('Plan must contain at least one agent node');
+    }
+
+    const agentNames = this.getAgentNames();
+    const generated = new Map(context.workflow.agents.map((agent) => [agent.id, agent]));
+    for (const edit of agents) {
+      if (!generated.has(edit.id)) {
+        throw new Error(`Unknown agent node: ${edit.id}`);
+      }
+      if (!agentNames.includes(edit.name)) {
+        throw new Error(`Unknown agent: ${edit.name}`);
+      }
+      if (!edit.task.trim()) {
+        throw new Error('Agent node task cannot be empty');
+      }
+    }
+
+    context.workflow.agents = agents.map((edit, index) => {
+      const agent = generated.get(edit.id)!;
+      const taskChanged = agent.task !== edit.task.trim();
+      return {
+        ...agent,
+        name: edit.name,
+        task: edit.task.trim(),
+        nodes: taskChanged ? [] : agent.nodes,
+        dependsOn: index > 0 ? [agents[index - 1].id] : [],
+        status: 'init'
+      };
+    });
+    resetWorkflowXml(context.workflow);
+    Log.info(`EkoService executing reviewed plan of task ${taskId} with ${agents.length} agent nodes`);
+
+    return this.execute(taskId);
+  }
+
+  /**
+   * Names of agents available to workflow nodes
+   */
+  getAgentNames(): string[] {
+    return (this.agents || []).map((agent) => agent.Name);
+  }
+
   /**
    * Send error message to frontend
    */
@@ -201,15 +698,22 @@ export class EkoService {
       return null;
     }
 
+    this.trackTask(taskId, 'planning');
+
     let result = null;
+    let errorMessage: string | undefined;
     try {
-      await this.eko.modify(taskId, message);
-      result = await this.eko.execute(taskId);
+      result = await this.runOnTaskEko(taskId, async (eko) => {
+        await eko.modify(taskId, message);
+        taskStatusTracker.update(taskId, { status: 'running' });
+        return eko.execute(taskId);
+      });
     } catch (error: any) {
       Log.error('EkoService modify error:', error);
-      const errorMessage = error?.message || error?.toString() || 'Failed to modify task';
-      this.sendErrorToFrontend(errorMessage, error, taskId);
+      errorMessage = error?.message || error?.toString() || 'Failed to modify task';
+      this.sendErrorToFrontend(errorMessage!, error, taskId);
     }
+    this.finishTask(taskId, result, errorMessage);
     return result;
   }
 
@@ -225,28 +729,111 @@ export class EkoService {
     }
 
     console.log('EkoService executing task:', taskId);
+    this.trackTask(taskId, 'running');
+
+    let result = null;
+    let errorMessage: string | undefined;
     try {
-      return await this.eko.execute(taskId);
+      result = await this.runOnTaskEko(taskId, (eko) => eko.execute(taskId));
     } catch (error: any) {
       Log.error('EkoService execute error:', error);
-      const errorMessage = error?.message || error?.toString() || 'Failed to execute task';
-      this.sendErrorToFrontend(errorMessage, error, taskId);
-      return null;
+      errorMessage = error?.message || error?.toString() || 'Failed to execute task';
+      this.sendErrorToFrontend(errorMessage!, error, taskId);
     }
+    this.finishTask(taskId, result, errorMessage);
+    return result;
   }
 
   /**
-   * Get task status
+   * Resume interrupted task from its checkpoint
+   * Completed agent nodes are skipped, their results are passed to the remaining nodes through the task prompt
    */
-  async getTaskStatus(taskId: string): Promise<any> {
+  async resumeFromCheckpoint(taskId: string): Promise<EkoResult | null> {
     if (!this.eko) {
-      throw new Error('Eko service not initialized');
+      const errorMsg = 'Eko service not initialized';
+      Log.error(errorMsg);
+      this.sendErrorToFrontend(errorMsg, undefined, taskId);
+      return null;
+    }
+
+    const checkpoint = checkpointStore.get(taskId);
+    if (!checkpoint) {
+      throw new Error('No checkpoint found for this task');
+    }
+    if (taskStatusTracker.isActive(taskId)) {
+      throw new Error('Task is already running');
     }
 
-    // If Eko has a method to get task status, it can be called here
-    // return await this.eko.getTaskStatus(taskId);
-    console.log('EkoService getting task status:', taskId);
-    return { taskId, status: 'unknown' };
+    // Resumed tasks run on the current configuration
+    this.taskBindings.delete(taskId);
+    this.trackTask(taskId, 'running');
+    taskStatusTracker.update(taskId, { taskName: checkpoint.taskName });
+
+    let result = null;
+    let errorMessage: string | undefined;
+    try {
+      result = await this.runOnTaskEko(taskId, () => this.executeCheckpoint(taskId));
+    } catch (error: any) {
+      Log.error('EkoService resume error:', error);
+      errorMessage = error?.message || error?.toString() || 'Failed to resume task';
+      this.sendErrorToFrontend(errorMessage!, error, taskId);
+    }
+    this.finishTask(taskId, result, errorMessage);
+    return result;
+  }
+
+  /**
+   * Execute the agent nodes of a task not completed in its checkpoint on the current Eko instance
+   */
+  private async executeCheckpoint(taskId: string): Promise<EkoResult> {
+    const checkpoint = checkpointStore.get(taskId);
+    if (!checkpoint) {
+      throw new Error('No checkpoint found for this task');
+    }
+
+    const { workflow, agentResults } = checkpoint;
+    const remainingAgents = workflow.agents.filter((agent) => agentResults[agent.id] === undefined);
+    const completedAgents = workflow.agents.filter((agent) => agentResults[agent.id] !== undefined);
+    console.log(`EkoService resuming task ${taskId} from checkpoint, ${completedAgents.length}/${workflow.agents.length} agent nodes completed`);
+
+    // Interrupted after the last node, nothing left to run
+    if (remainingAgents.length === 0) {
+      const lastAgent = completedAgents[completedAgents.length - 1];
+      return { taskId, success: true, stopReason: 'done', result: lastAgent ? agentResults[lastAgent.id] : '' };
+    }
+
+    // Restore browser page the task was working on
+    if (checkpoint.currentUrl) {
+      await this.detailView.webContents.loadURL(checkpoint.currentUrl).catch((error) => {
+        Log.warn(`Failed to restore page ${checkpoint.currentUrl}:`, error);
+      });
+    }
+
+    const completedSummary = completedAgents
+      .map((agent) => `- ${agent.name} (${agent.task}):\n${agentResults[agent.id]}`)
+      .join('\n');
+    const resumedWorkflow: Workflow = {
+      ...workflow,
+      modified: false,
+      taskPrompt: `${workflow.taskPrompt || workflow.name}\n\nThis task was interrupted and is being resumed. Results of steps already completed:\n${completedSummary}`,
+      agents: remainingAgents.map((agent) => ({
+        ...agent,
+        status: 'init',
+        dependsOn: agent.dependsOn.filter((id) => agentResults[id] === undefined)
+      }))
+    };
+
+    const eko = this.getTaskEko(taskId)!;
+    await eko.initContext(resumedWorkflow);
+    return eko.execute(taskId);
+  }
+
+  /**
+   * Get task status
+   * @returns Status, or null if the task is unknown
+   */
+  async getTaskStatus(taskId: string): Promise<TaskStatusInfo | null> {
+    return taskStatusTracker.get(taskId);
   }
 
   /**
@@ -257,30 +844,91 @@ export class EkoService {
       throw new Error('Eko service not initialized');
     }
 
-    const res = await this.eko.abortTask(taskId, 'cancle');
+    this.restartRequests.delete(taskId);
+    const res = await this.getTaskEko(taskId)!.abortTask(taskId, 'cancle');
+    this.cancelHumanRequests(taskId);
+    checkpointStore.delete(taskId);
+    if (res && taskStatusTracker.isActive(taskId)) {
+      taskStatusTracker.update(taskId, { status: 'aborted' });
+    }
     return res;
   }
 
   /**
-   * Check if any task is running
+   * Pause task, it halts at the next tool boundary and keeps its context until resumed
+   * @returns false if the task is not running
    */
-  hasRunningTask(): boolean {
+  pauseTask(taskId: string): boolean {
+    if (!this.eko) {
+      throw new Error('Eko service not initialized');
+    }
+
+    // Eko clears the pause when execution starts, so planning tasks cannot be paused
+    const status = taskStatusTracker.get(taskId)?.status;
+    if (!this.taskIds.has(taskId) || (status !== 'running' && status !== 'waiting_human')) {
+      return false;
+    }
+
+    const paused = this.getTaskEko(taskId)!.pauseTask(taskId, true, false, 'user-pause');
+    if (paused) {
+      taskStatusTracker.update(taskId, { status: 'paused' });
+      Log.info(`EkoService task ${taskId} paused`);
+    }
+    return paused;
+  }
+
+  /**
+   * Resume paused task
+   * @returns false if the task is not paused
+   */
+  resumeTask(taskId: string): boolean {
     if (!this.eko) {
+      throw new Error('Eko service not initialized');
+    }
+
+    if (!this.taskIds.has(taskId) || taskStatusTracker.get(taskId)?.status !== 'paused') {
       return false;
     }
 
-    const allTaskIds = this.eko.getAllTaskId();
+    const resumed = this.getTaskEko(taskId)!.pauseTask(taskId, false, false, 'user-resume');
+    if (resumed) {
+      taskStatusTracker.update(taskId, { status: this.isWaitingForHuman(taskId) ? 'waiting_human' : 'running' });
+      Log.info(`EkoService task ${taskId} resumed`);
+    }
+    return resumed;
+  }
+
+  /**
+   * Restart a task started before the last config reload with the current configuration
+   * It is aborted and continues from its checkpoint, agent nodes already completed are not run again
+   * @returns false if the task is not running on an outdated configuration
+   */
+  restartWithNewConfig(taskId: string): boolean {
+    if (!this.eko) {
+      throw new Error('Eko service not initialized');
+    }
 
-    // Iterate through all tasks, check if any task is not terminated
-    for (const taskId of allTaskIds) {
-      const context = this.eko.getTask(taskId);
-      if (context && !context.controller.signal.aborted) {
-        // Task exists and not terminated, meaning it may be running
-        return true;
-      }
+    const binding = this.taskBindings.get(taskId);
+    const status = taskStatusTracker.get(taskId)?.status;
+    if (!binding || binding.eko === this.eko || !status || !['running', 'waiting_human', 'paused'].includes(status)) {
+      return false;
     }
+    if (!checkpointStore.get(taskId)) {
+      throw new Error('Task has no checkpoint to restart from yet');
+    }
+
+    this.restartRequests.add(taskId);
+    binding.eko.abortTask(taskId, 'config-restart');
+    this.cancelHumanRequests(taskId);
+    Log.info(`EkoService task ${taskId} aborted to restart with new config`);
+    return true;
+  }
 
-    return false;
+  /**
+   * Check if any task is running
+   */
+  hasRunningTask(): boolean {
+    return Array.from(this.taskIds).some((taskId) => taskStatusTracker.isActive(taskId));
   }
 
   /**
@@ -291,10 +939,13 @@ export class EkoService {
       return;
     }
 
-    const allTaskIds = this.eko.getAllTaskId();
-    const abortPromises = allTaskIds.map(taskId => this.eko!.abortTask(taskId, 'window-closing'));
+    // Tasks still running on instances replaced by config reloads included
+    const ekos = new Set([this.eko, ...Array.from(this.taskBindings.values()).map((binding) => binding.eko)]);
+    this.restartRequests.clear();
+    const abortPromises = Array.from(ekos).flatMap((eko) => eko.getAllTaskId().map(taskId => eko.abortTask(taskId, 'window-closing')));
 
     await Promise.all(abortPromises);
+    this.cancelHumanRequests();
     Log.info('All tasks aborted');
   }
 
@@ -303,6 +954,8 @@ export class EkoService {
    */
   destroy() {
     console.log('EkoService destroyed');
+    this.cancelHumanRequests();
+    this.taskBindings.clear();
     this.eko = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,221 @@
+import { app, net, session, type Session } from "electron";
+import { X509Certificate } from "node:crypto";
+import { isIP } from "node:net";
+import { store } from "../utils/store";
+
+/**
+ * How outbound traffic reaches the network
+ * - system: OS proxy settings (Electron default)
+ * - direct: no proxy
+ * - manual: a single HTTP, HTTPS or SOCKS proxy
+ * - pac: proxy auto-config script
+ */
+export type ProxyMode = 'system' | 'direct' | 'manual' | 'pac';
+
+/**
+ * Proxy and certificate settings of outbound traffic
+ */
+export interface NetworkSettings {
+  proxyMode: ProxyMode;
+  proxyUrl?: string;        // manual: http://, https://, socks4:// or socks5:// host:port
+  pacUrl?: string;          // pac: URL of the PAC script
+  bypassList?: string[];    // manual: hosts skipping the proxy, e.g. *.corp.example.com, 10.0.0.0/8, <local>
+  caCertificates?: string;  // PEM certificates trusted in addition to the system store
+}
+
+const DEFAULT_SETTINGS: NetworkSettings = { proxyMode: 'system' };
+
+const PROXY_URL_PATTERN = /^(https?|socks4|socks5?):\/\/[^\s/:]+(:\d+)?\/?$/;
+const PEM_CERTIFICATE_PATTERN = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+// Chromium net::ERR_CERT_AUTHORITY_INVALID, the only verification error extra CAs can fix
+const CERT_AUTHORITY_INVALID = -202;
+// Certificate verify proc results
+const VERIFY_OK = 0;
+const VERIFY_USE_CHROMIUM_RESULT = -3;
+
+// Longest certificate chain walked up to a trusted CA
+const MAX_CHAIN_DEPTH = 10;
+
+/**
+ * Network manager
+ * Applies proxy and extra CA settings to every Electron session (detail views included) and to Node-side fetches:
+ * LLM requests, provider probes and the Next.js API routes, which run in the main process in production.
+ * Node-side fetches go through Chromium's network stack (net.fetch) once settings differ from the defaults,
+ * so they follow the same proxy, PAC and bypass rules and trust the same certificates as the sessions.
+ */
+export class NetworkManager {
+  private readonly STORE_KEY = 'networkSettings';
+  private readonly originalFetch = globalThis.fetch;
+  private sessions: Set<Session> = new Set();
+  private trustedCAs: X509Certificate[] = [];
+
+  /**
+   * Apply stored settings to the default session and every session created later (only valid after app is ready)
+   */
+  async initialize(): Promise<void> {
+    this.trustedCAs = this.parseCertificates(this.getSettings().caCertificates);
+    app.on('session-created', (created) => {
+      this.applyToSession(created).catch((error) => {
+        console.error('[NetworkManager] Failed to apply network settings to session:', error);
+      });
+    });
+    await this.applyToSession(session.defaultSession);
+    console.log(`[NetworkManager] Proxy mode: ${this.getSettings().proxyMode}, extra CAs: ${this.trustedCAs.length}`);
+  }
+
+  /**
+   * Get network settings
+   */
+  getSettings(): NetworkSettings {
+    return { ...DEFAULT_SETTINGS, ...(store.get(this.STORE_KEY, {}) as Partial<NetworkSettings>) };
+  }
+
+  /**
+   * Validate and save network settings, then apply them to all sessions
+   * Existing connections are closed so no request keeps using the previous proxy
+   */
+  async saveSettings(settings: NetworkSettings): Promise<void> {
+    const normalized: NetworkSettings = {
+      proxyMode: settings.proxyMode,
+      proxyUrl: settings.proxyUrl?.trim() || undefined,
+      pacUrl: settings.pacUrl?.trim() || undefined,
+      bypassList: (settings.bypassList || []).map((entry) => entry.trim()).filter(Boolean),
+      caCertificates: settings.caCertificates?.trim() || undefined,
+    };
+
+    if (!['system', 'direct', 'manual', 'pac'].includes(normalized.proxyMode)) {
+      throw new Error(`Unknown proxy mode: ${normalized.proxyMode}`);
+    }
+    if (normalized.proxyMode === 'manual' && !PROXY_URL_PATTERN.test(normalized.proxyUrl || '')) {
+      throw new Error('Proxy must be an http://, https://, socks4:// or socks5:// URL with host and port');
+    }
+    if (normalized.proxyMode === 'pac' && !/^(https?|file|data):/.test(normalized.pacUrl || '')) {
+      throw new Error('PAC URL must be an http://, https://, file:// or data: URL');
+    }
+    const trustedCAs = this.parseCertificates(normalized.caCertificates);
+
+    store.set(this.STORE_KEY, normalized);
+    this.trustedCAs = trustedCAs;
+    await Promise.all(Array.from(this.sessions).map((target) => this.applyToSession(target)));
+    console.log(`[NetworkManager] Network settings applied to ${this.sessions.size} sessions, proxy mode: ${normalized.proxyMode}`);
+  }
+
+  /**
+   * Fetch through the configured proxy and trusted certificates
+   * Uses Node's fetch while settings are the defaults (or before app is ready), as without a network manager
+   */
+  fetch = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    if (!app.isReady() || !this.isCustomized()) {
+      return this.originalFetch(input, init);
+    }
+    return net.fetch(input instanceof URL ? input.href : input, init);
+  };
+
+  /**
+   * Route the global fetch through the network manager, used by code not importing it (Next.js API routes)
+   */
+  installGlobalFetch(): void {
+    globalThis.fetch = this.fetch;
+  }
+
+  /**
+   * Check if settings differ from Electron and Node defaults
+   */
+  private isCustomized(): boolean {
+    return this.getSettings().proxyMode !== 'system' || this.trustedCAs.length > 0;
+  }
+
+  /**
+   * Apply proxy and certificate verification to a session and remember it for later changes
+   */
+  private async applyToSession(target: Session): Promise<void> {
+    this.sessions.add(target);
+    const settings = this.getSettings();
+
+    switch (settings.proxyMode) {
+      case 'direct':
+        await target.setProxy({ mode: 'direct' });
+        break;
+      case 'manual':
+        await target.setProxy({
+          mode: 'fixed_servers',
+          proxyRules: settings.proxyUrl,
+          proxyBypassRules: (settings.bypassList || []).join(','),
+        });
+        break;
+      case 'pac':
+        await target.setProxy({ mode: 'pac_script', pacScript: settings.pacUrl });
+        break;
+      default:
+        await target.setProxy({ mode: 'system' });
+        break;
+    }
+
+    target.setCertificateVerifyProc(this.trustedCAs.length === 0 ? null : (request, callback) => {
+      callback(request.errorCode === CERT_AUTHORITY_INVALID && this.isTrustedChain(request.hostname, request.certificate)
+        ? VERIFY_OK
+        : VERIFY_USE_CHROMIUM_RESULT);
+    });
+    await target.closeAllConnections();
+  }
+
+  /**
+   * Check if a certificate is valid for the host and chains up to one of the extra CAs
+   */
+  private isTrustedChain(hostname: string, certificate: Electron.Certificate): boolean {
+    try {
+      const leaf = new X509Certificate(certificate.data);
+      if (!(isIP(hostname) ? leaf.checkIP(hostname) : leaf.checkHost(hostname))) {
+        return false;
+      }
+
+      const now = Date.now();
+      let link: Electron.Certificate | undefined = certificate;
+      for (let depth = 0; link && depth < MAX_CHAIN_DEPTH; depth++) {
+        const current = new X509Certificate(link.data);
+        if (now < Date.parse(current.validFrom) || now > Date.parse(current.validTo)) {
+          return false;
+        }
+        if (this.trustedCAs.some((ca) => ca.fingerprint256 === current.fingerprint256
+          || (current.checkIssued(ca) && current.verify(ca.publicKey)))) {
+          return true;
+        }
+
+        // Continue with the issuer the server sent, it must have signed this certificate
+        const issuer = link.issuerCert?.data && link.issuerCert.data !== link.data ? new X509Certificate(link.issuerCert.data) : null;
+        if (!issuer || !current.checkIssued(issuer) || !current.verify(issuer.publicKey)) {
+          return false;
+        }
+        link = link.issuerCert;
+      }
+    } catch (error) {
+      console.warn(`[NetworkManager] Failed to check certificate of ${hostname}:`, error);
+    }
+    return false;
+  }
+
+  /**
+   * Parse PEM certificates, any invalid one rejects the whole bundle
+   */
+  private parseCertificates(pem?: string): X509Certificate[] {
+    if (!pem?.trim()) {
+      return [];
+    }
+
+    const blocks = pem.match(PEM_CERTIFICATE_PATTERN) || [];
+    if (blocks.length === 0) {
+      throw new Error('No PEM certificate found, expected -----BEGIN CERTIFICATE----- blocks');
+    }
+    return blocks.map((block, index) => {
+      try {
+        return new X509Certificate(block);
+      } catch {
+        throw new Error(`Certificate ${index + 1} is not a valid PEM certificate`);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const networkManager = new NetworkManager();
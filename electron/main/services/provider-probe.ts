@@ -0,0 +1,126 @@
+import { RetryLanguageModel } from "@jarvis-agent/core";
+import { ConfigManager, type DiscoveredModel, type ProviderType } from "../utils/config-manager";
+import { networkManager } from "./network-manager";
+
+/**
+ * Result of a provider connection test
+ */
+export interface ConnectionTestResult {
+  success: boolean;
+  provider: ProviderType;
+  model: string;
+  latencyMs: number;
+  message?: string;     // Error of a failed test
+}
+
+// Upper bound of a connection test, retries of transient failures included
+const TEST_TIMEOUT_MS = 30 * 1000;
+const LIST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Checks provider configuration: a minimal completion through the configured LLM, and model discovery
+ * from the provider's model listing endpoint
+ */
+export class ProviderProbe {
+  /**
+   * Send a minimal request through the provider's configured model
+   */
+  async testConnection(provider: ProviderType): Promise<ConnectionTestResult> {
+    const llm = ConfigManager.getInstance().getProviderLLM(provider);
+    if (!llm) {
+      return { success: false, provider, model: '', latencyMs: 0, message: 'Provider is not configured' };
+    }
+
+    const startTime = Date.now();
+    try {
+      const rlm = new RetryLanguageModel({ default: llm }, ['default']);
+      await rlm.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Reply with OK.' }] }],
+        maxOutputTokens: 16,
+        abortSignal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+      });
+      const latencyMs = Date.now() - startTime;
+      console.log(`[ProviderProbe] ${provider}/${llm.model} responded in ${latencyMs}ms`);
+      return { success: true, provider, model: llm.model, latencyMs };
+    } catch (error: any) {
+      const message = error?.name === 'TimeoutError' || error?.name === 'AbortError'
+        ? `No response within ${TEST_TIMEOUT_MS / 1000} seconds`
+        : `${error?.statusCode ? `HTTP ${error.statusCode}: ` : ''}${error?.message || error}`;
+      console.warn(`[ProviderProbe] ${provider}/${llm.model} connection test failed:`, message);
+      return { success: false, provider, model: llm.model, latencyMs: Date.now() - startTime, message };
+    }
+  }
+
+  /**
+   * Fetch the provider's models and save them with their token limits
+   */
+  async fetchModels(provider: ProviderType): Promise<DiscoveredModel[]> {
+    const configManager = ConfigManager.getInstance();
+    const modelConfig = configManager.getModelConfig(provider);
+    if (!modelConfig) {
+      throw new Error('Provider is not configured');
+    }
+
+    const apiKey = modelConfig.apiKey || '';
+    let models: DiscoveredModel[];
+
+    if (modelConfig.provider === 'anthropic') {
+      const body = await this.getJson('https://api.anthropic.com/v1/models?limit=1000', {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      });
+      models = (body.data || []).map((item: any) => ({ id: item.id }));
+    } else if (modelConfig.provider === 'google') {
+      const body = await this.getJson(`https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${encodeURIComponent(apiKey)}`);
+      models = (body.models || [])
+        .filter((item: any) => (item.supportedGenerationMethods || []).includes('generateContent'))
+        .map((item: any) => ({ id: String(item.name).replace(/^models\//, ''), maxTokens: item.outputTokenLimit }));
+    } else if (modelConfig.provider === 'openrouter') {
+      const body = await this.getJson('https://openrouter.ai/api/v1/models', { Authorization: `Bearer ${apiKey}` });
+      models = (body.data || []).map((item: any) => ({
+        id: item.id,
+        maxTokens: item.top_provider?.max_completion_tokens || undefined,
+      }));
+    } else {
+      // OpenAI-compatible: deepseek, qwen and custom providers
+      const headers: Record<string, string> = { ...configManager.getCustomProvider(provider)?.headers };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+      const body = await this.getJson(`${modelConfig.baseURL}/models`, headers);
+      models = (body.data || []).map((item: any) => ({
+        id: item.id,
+        maxTokens: item.max_completion_tokens || item.max_output_tokens || undefined,
+      }));
+    }
+
+    models = models.filter((model) => model.id).sort((a, b) => a.id.localeCompare(b.id));
+    if (models.length === 0) {
+      throw new Error('Provider returned no models');
+    }
+    configManager.saveDiscoveredModels(provider, models);
+    return models;
+  }
+
+  /**
+   * GET a JSON listing, errors carry the provider's error message
+   */
+  private async getJson(url: string, headers: Record<string, string> = {}): Promise<any> {
+    const response = await networkManager.fetch(url, { headers, signal: AbortSignal.timeout(LIST_TIMEOUT_MS) });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      let detail = text.slice(0, 200);
+      try {
+        const body = JSON.parse(text);
+        detail = body.error?.message || body.message || detail;
+      } catch {
+        // Not JSON, keep the raw text
+      }
+      throw new Error(`HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response.json();
+  }
+}
+
+// Singleton instance
+export const providerProbe = new ProviderProbe();
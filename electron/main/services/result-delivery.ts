@@ -0,0 +1,175 @@
+import { Notification } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { taskWindowManager } from "./task-window-manager";
+import { getFileAgentPath } from "../utils/constants";
+import { applyVariables } from "../utils/task-variables";
+
+// Webhook requests taking longer are aborted
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+// Characters not allowed in file names on common file systems
+const INVALID_FILE_NAME_CHARS = /[<>:"/\\|?*\x00-\x1f]/g;
+
+/**
+ * Destination of the final result of a scheduled task
+ * - file: write result to a file in the FileAgent folder
+ * - webhook: POST result as JSON to a URL
+ * - digest: append result to the daily digest markdown file
+ */
+export type ResultSink =
+  | { type: 'file'; fileName?: string }
+  | { type: 'webhook'; url: string }
+  | { type: 'digest' };
+
+/**
+ * When to show a native notification for a finished execution
+ */
+export type NotifyOn = 'all' | 'failure' | 'none';
+
+/**
+ * Final outcome of an execution (no retry pending)
+ */
+export interface ExecutionReport {
+  taskId: string;
+  taskName: string;
+  executionId: string;
+  status: string;           // Eko stop reason: done, error or abort
+  result?: string;
+  error?: string;
+  variables: Record<string, string>; // Resolved placeholder values, including built-in ones
+  startTime: Date;
+  endTime: Date;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Result delivery
+ * Shows native notifications for finished scheduled executions and delivers successful results to the task's sinks
+ */
+export class ResultDelivery {
+  /**
+   * Handle final outcome of an execution
+   * @param task Scheduled task configuration
+   * @param report Execution outcome
+   */
+  async deliver(task: any, report: ExecutionReport): Promise<void> {
+    this.notify(task, report);
+
+    if (report.status !== 'done') {
+      return;
+    }
+
+    const sinks: ResultSink[] = task.resultSinks || [];
+    for (const sink of sinks) {
+      try {
+        await this.writeToSink(sink, report);
+      } catch (error) {
+        console.error(`[ResultDelivery] Failed to deliver result of task ${report.taskName} to ${sink.type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Show native notification, clicking it opens the task's execution history
+   */
+  private notify(task: any, report: ExecutionReport): void {
+    const notifyOn: NotifyOn = task.notifyOn || 'all';
+    // Executions terminated by the user need no notification
+    if (notifyOn === 'none' || report.status === 'abort' || (notifyOn === 'failure' && report.status === 'done')) {
+      return;
+    }
+
+    if (!Notification.isSupported()) {
+      return;
+    }
+
+    const notification = new Notification({
+      title: report.status === 'done' ? `${report.taskName} completed` : `${report.taskName} failed`,
+      body: report.status === 'done'
+        ? this.truncate(report.result || 'Task execution completed', 200)
+        : this.truncate(report.error || 'Task execution failed', 200)
+    });
+
+    notification.on('click', () => {
+      taskWindowManager.openTaskHistory(report.taskId).catch((error) => {
+        console.error('[ResultDelivery] Failed to open execution history:', error);
+      });
+    });
+
+    notification.show();
+  }
+
+  /**
+   * Deliver result to a single sink
+   */
+  private async writeToSink(sink: ResultSink, report: ExecutionReport): Promise<void> {
+    switch (sink.type) {
+      case 'file': {
+        const filePath = path.join(getFileAgentPath(), this.getResultFileName(sink.fileName, report));
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, report.result || '', 'utf-8');
+        console.log(`[ResultDelivery] Result of task ${report.taskName} written to ${filePath}`);
+        break;
+      }
+
+      case 'webhook': {
+        const response = await fetch(sink.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(report),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT)
+        });
+        if (!response.ok) {
+          throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+        }
+        console.log(`[ResultDelivery] Result of task ${report.taskName} posted to ${sink.url}`);
+        break;
+      }
+
+      case 'digest': {
+        const date = report.endTime;
+        const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+        const filePath = path.join(getFileAgentPath(), 'digests', `digest-${day}.md`);
+        const entry = `## ${pad(date.getHours())}:${pad(date.getMinutes())} ${report.taskName}\n\n${report.result || '(no result)'}\n\n`;
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        // Start a new digest with a title, exclusive create so runs finishing together write it only once
+        try {
+          await fs.writeFile(filePath, `# Digest ${day}\n\n${entry}`, { encoding: 'utf-8', flag: 'wx' });
+        } catch (error: any) {
+          if (error?.code !== 'EEXIST') {
+            throw error;
+          }
+          await fs.appendFile(filePath, entry, 'utf-8');
+        }
+        console.log(`[ResultDelivery] Result of task ${report.taskName} appended to ${filePath}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Build result file name, supports {{name}} placeholders (e.g. report-{{today}}.md)
+   * Defaults to task name plus end time
+   */
+  private getResultFileName(template: string | undefined, report: ExecutionReport): string {
+    const date = report.endTime;
+    const timestamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+    const name = template?.trim()
+      ? applyVariables(template.trim(), report.variables)
+      : `${report.taskName}_${timestamp}.md`;
+
+    // Keep files inside the FileAgent folder
+    const fileName = name.replace(INVALID_FILE_NAME_CHARS, '_');
+    return fileName && fileName !== '.' && fileName !== '..' ? fileName : `result_${timestamp}.md`;
+  }
+
+  private truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+}
+
+// Singleton instance
+export const resultDelivery = new ResultDelivery();
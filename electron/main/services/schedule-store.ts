@@ -0,0 +1,119 @@
+import { store } from "../utils/store";
+
+/**
+ * Persisted schedule record
+ * Holds the scheduled task definition pushed by the renderer plus the scheduler's own timing state
+ */
+export interface ScheduleRecord {
+  task: any;                // Scheduled task configuration (id, name, steps, schedule, misfirePolicy, ...)
+  nextExecuteAt?: string;   // Next planned execution time (ISO string)
+  lastFireAt?: string;      // Last planned execution time that has been handled (ISO string)
+  consecutiveFailures?: number; // Executions failed in a row (after all retries)
+  lastRunAt?: string;       // Start time of the last execution, for the {{lastRunAt}} placeholder (ISO string)
+}
+
+/**
+ * Scheduler settings
+ */
+export interface SchedulerSettings {
+  maxConcurrentTasks: number;   // Executions running at the same time
+  maxQueueAgeMinutes: number;   // Queued executions waiting longer are dropped, 0 = no limit
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  maxConcurrentTasks: 3,
+  maxQueueAgeMinutes: 0,
+};
+
+/**
+ * Schedule store
+ * Durable storage of enabled scheduled tasks in the main process (electron-store),
+ * so timers can be re-armed on startup without a renderer
+ */
+export class ScheduleStore {
+  private readonly STORE_KEY = 'scheduledTasks';
+  private readonly INITIALIZED_KEY = 'schedulerInitialized';
+  private readonly SETTINGS_KEY = 'schedulerSettings';
+
+  /**
+   * Get all schedule records
+   */
+  getAll(): ScheduleRecord[] {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, ScheduleRecord>;
+    return Object.values(records);
+  }
+
+  /**
+   * Get schedule record by task ID
+   */
+  get(taskId: string): ScheduleRecord | undefined {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, ScheduleRecord>;
+    return records[taskId];
+  }
+
+  /**
+   * Save schedule record (insert or replace)
+   */
+  save(record: ScheduleRecord): void {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, ScheduleRecord>;
+    records[record.task.id] = record;
+    store.set(this.STORE_KEY, records);
+  }
+
+  /**
+   * Update fields of an existing schedule record
+   */
+  update(taskId: string, updates: Partial<Omit<ScheduleRecord, 'task'>>): void {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, ScheduleRecord>;
+    if (!records[taskId]) {
+      return;
+    }
+    records[taskId] = { ...records[taskId], ...updates };
+    store.set(this.STORE_KEY, records);
+  }
+
+  /**
+   * Delete schedule record
+   */
+  delete(taskId: string): boolean {
+    const records = store.get(this.STORE_KEY, {}) as Record<string, ScheduleRecord>;
+    if (!records[taskId]) {
+      return false;
+    }
+    delete records[taskId];
+    store.set(this.STORE_KEY, records);
+    return true;
+  }
+
+  /**
+   * Whether scheduled tasks have been imported from renderer storage
+   */
+  isInitialized(): boolean {
+    return store.get(this.INITIALIZED_KEY, false) as boolean;
+  }
+
+  /**
+   * Mark scheduled tasks as imported from renderer storage
+   */
+  markInitialized(): void {
+    store.set(this.INITIALIZED_KEY, true);
+  }
+
+  /**
+   * Get scheduler settings (defaults for missing fields)
+   */
+  getSettings(): SchedulerSettings {
+    const settings = store.get(this.SETTINGS_KEY, {}) as Partial<SchedulerSettings>;
+    return { ...DEFAULT_SCHEDULER_SETTINGS, ...settings };
+  }
+
+  /**
+   * Save scheduler settings
+   */
+  saveSettings(settings: SchedulerSettings): void {
+    store.set(this.SETTINGS_KEY, settings);
+  }
+}
+
+// Singleton instance
+export const scheduleStore = new ScheduleStore();
@@ -1,14 +1,118 @@
-import { taskWindowManager } from "./task-window-manager";
-import { ipcMain } from "electron";
+import { taskWindowManager, type TaskWindowContext } from "./task-window-manager";
+import { ipcMain, powerMonitor, type BrowserWindow, type WebContentsView } from "electron";
+import { randomUUID } from "node:crypto";
+import { getNextCronTime, parseCronExpression } from "../utils/cron";
+import { getNextAllowedTime, isWithinActiveHours, validateActiveHours } from "../utils/active-hours";
+import { resultDelivery } from "./result-delivery";
+import { DEFAULT_UNATTENDED_HUMAN_POLICY } from "./eko-service";
+import { scheduleStore, type ScheduleRecord, type SchedulerSettings } from "./schedule-store";
+import type { EkoResult } from "@jarvis-agent/core/types";
+import { applyVariables, getUserVariables, resolveVariables } from "../utils/task-variables";
+
+// setTimeout overflows above 2^31-1 ms (~24.8 days), longer delays are re-armed in chunks
+const MAX_TIMER_DELAY = 2147483647;
+
+// Upper limit of missed executions replayed per task with the 'run-all' misfire policy
+const MAX_MISFIRE_RUNS = 20;
+
+// Delay before the first retry when not configured, doubled for every following attempt
+const DEFAULT_RETRY_DELAY_SECONDS = 60;
+
+// Upper limit of cron times skipped because they fall outside active hours
+const MAX_ACTIVE_HOURS_SEARCH = 1000;
+
+// How often unmet run conditions (AC power, idle) are checked again
+const CONDITION_CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Queue priority of a scheduled task
+ */
+type TaskPriority = 'high' | 'normal' | 'low';
+
+// Queue order of priorities, lower rank runs first
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+};
+
+/**
+ * What to do with executions missed while the app was closed or the machine asleep
+ */
+type MisfirePolicy = 'run-once' | 'run-all' | 'skip';
+
+/**
+ * Retry and failure handling configuration of a scheduled task
+ */
+interface RetryConfig {
+  timeoutMinutes?: number;       // Maximum duration of a single attempt
+  maxRetries?: number;           // Retries after a failed attempt
+  retryDelaySeconds?: number;    // Delay before first retry, doubled for every following attempt
+  disableAfterFailures?: number; // Disable schedule after this many consecutive failed executions
+}
+
+/**
+ * Options of a single execution
+ */
+interface ExecutionOptions {
+  attempt: number;          // Attempt number, starting at 1
+  startStepId?: string;     // Step-by-step mode: step to start from, earlier steps are skipped
+  previousResult?: string;  // Step-by-step mode: result of the step before the start step
+  variables?: Record<string, string>; // Resolved placeholder values
+  chain?: string[];         // IDs of the tasks whose completion triggered this execution
+  allowDuplicate?: boolean; // Queue even if the same execution is already queued or running (missed execution replays)
+}
+
+/**
+ * Outcome of a single execution
+ */
+interface ExecutionOutcome {
+  status: string;           // Eko stop reason: done, error or abort
+  result?: string;          // Final result text (result of the last step in step-by-step mode)
+  error?: string;
+  failedStepId?: string;    // Step-by-step mode: step that did not complete
+  previousResult?: string;  // Step-by-step mode: result of the step before the failed step
+}
+
+/**
+ * Step status reported to the task window in step-by-step mode
+ */
+interface StepResult {
+  stepId: string;
+  name: string;
+  status: 'pending' | 'running' | 'done' | 'error' | 'abort' | 'skipped';
+  result?: string;
+  error?: string;
+  screenshot?: string;
+  startTime?: Date;
+  endTime?: Date;
+}
 
 /**
  * Scheduled task queue item
  */
 interface QueuedTask {
+  queueId: string;
   taskId: string;
   taskName: string;
-  steps: Array<{ id: string; name: string; content: string; order: number }>;
-  scheduledTime: Date;
+  task: any;                  // Scheduled task configuration
+  options: ExecutionOptions;
+  priority: TaskPriority;
+  dedupeKey: string;          // Same task with the same variable values
+  queuedAt: Date;
+}
+
+/**
+ * Queued execution reported to the renderer
+ */
+interface QueuedTaskInfo {
+  queueId: string;
+  taskId: string;
+  taskName: string;
+  priority: TaskPriority;
+  attempt: number;
+  variables?: Record<string, string>;
+  queuedAt: Date;
 }
 
 /**
@@ -17,9 +121,18 @@ interface QueuedTask {
 interface RunningTask {
   taskId: string;
   executionId: string;
+  dedupeKey: string;
   startTime: Date;
 }
 
+/**
+ * Pending retry of a failed execution
+ */
+interface PendingRetry {
+  taskId: string;
+  timer: NodeJS.Timeout;
+}
+
 /**
  * Task scheduler
  * Responsible for scheduling and execution management of scheduled tasks
@@ -29,8 +142,9 @@ export class TaskScheduler {
   private taskQueue: QueuedTask[] = []; // Task queue waiting for execution
   private runningTasks: Map<string, RunningTask> = new Map(); // Running tasks
   private scheduledTimers: Map<string, NodeJS.Timeout> = new Map(); // Timer mapping
+  private retryTimers: Map<string, PendingRetry> = new Map(); // Pending retries by dedupe key
+  private conditionTimers: Map<string, NodeJS.Timeout> = new Map(); // Executions waiting for run conditions
   private isRunning: boolean = false;
-  private isInitialized: boolean = false; // Flag if initialized from storage
 
   constructor() {
     this.setupIpcHandlers();
@@ -60,9 +174,49 @@ export class TaskScheduler {
       return this.removeScheduledTask(taskId);
     });
 
-    // Execute task immediately
-    ipcMain.handle('scheduler:execute-now', async (event, task: any) => {
-      return this.executeTaskNow(task);
+    // Execute task immediately (with optional variable values)
+    ipcMain.handle('scheduler:execute-now', async (_event, task: any, variables?: Record<string, string>) => {
+      return this.executeTaskNow(task, variables);
+    });
+
+    // Resume step-by-step execution from a step (with the variable values of the failed execution)
+    ipcMain.handle('scheduler:resume-from-step', async (_event, task: any, stepId: string, previousResult?: string, variables?: Record<string, string>) => {
+      return this.executeTask(task, {
+        attempt: 1,
+        startStepId: stepId,
+        previousResult,
+        variables: this.resolveTaskVariables(task, variables)
+      });
+    });
+
+    // Preview next execution times of a schedule configuration
+    ipcMain.handle('scheduler:preview-schedule', async (_event, schedule: any, count?: number) => {
+      return this.previewSchedule(schedule, count);
+    });
+
+    // List queued executions in run order
+    ipcMain.handle('scheduler:get-queue', async () => {
+      return this.getQueue();
+    });
+
+    // Move queued execution to another position
+    ipcMain.handle('scheduler:move-queued-task', async (_event, queueId: string, toIndex: number) => {
+      return this.moveQueuedTask(queueId, toIndex);
+    });
+
+    // Remove execution from queue
+    ipcMain.handle('scheduler:cancel-queued-task', async (_event, queueId: string) => {
+      return this.cancelQueuedTask(queueId);
+    });
+
+    // Get scheduler settings
+    ipcMain.handle('scheduler:get-settings', async () => {
+      return scheduleStore.getSettings();
+    });
+
+    // Update scheduler settings
+    ipcMain.handle('scheduler:update-settings', async (_event, settings: Partial<SchedulerSettings>) => {
+      return this.updateSettings(settings);
     });
 
     // Get queue status
@@ -75,14 +229,14 @@ export class TaskScheduler {
       };
     });
 
-    // Check if initialized
+    // Check if tasks have been imported from renderer storage
     ipcMain.handle('scheduler:is-initialized', async () => {
-      return this.isInitialized;
+      return scheduleStore.isInitialized();
     });
 
-    // Mark as initialized
+    // Mark tasks as imported from renderer storage
     ipcMain.handle('scheduler:mark-initialized', async () => {
-      this.isInitialized = true;
+      scheduleStore.markInitialized();
       console.log('[TaskScheduler] Marked as initialized');
       return { success: true };
     });
@@ -99,6 +253,19 @@ export class TaskScheduler {
     this.isRunning = true;
     console.log('[TaskScheduler] Scheduler started');
 
+    // Apply persisted concurrency limit
+    try {
+      taskWindowManager.setMaxConcurrentTasks(scheduleStore.getSettings().maxConcurrentTasks);
+    } catch (error) {
+      console.error('[TaskScheduler] Invalid concurrency setting, using default:', error);
+    }
+
+    // Timers don't fire while the machine sleeps, check for missed executions on wake up
+    powerMonitor.on('resume', this.handleResume);
+
+    // Re-arm persisted schedules
+    this.restoreSchedules();
+
     return { success: true, message: 'Scheduler started successfully' };
   }
 
@@ -110,11 +277,18 @@ export class TaskScheduler {
       return { success: false, message: 'Scheduler is not running' };
     }
 
-    // Clear all timers
-    this.scheduledTimers.forEach((timer) => {
-      clearTimeout(timer);
+    powerMonitor.removeListener('resume', this.handleResume);
+
+    // Clear all timers (persisted schedules are kept and restored on next start)
+    this.clearTimers();
+    this.retryTimers.forEach((retry) => {
+      clearTimeout(retry.timer);
     });
-    this.scheduledTimers.clear();
+    this.retryTimers.clear();
+    this.conditionTimers.forEach((timer) => {
+      clearInterval(timer);
+    });
+    this.conditionTimers.clear();
 
     // Clear queue
     this.taskQueue = [];
@@ -130,110 +304,421 @@ export class TaskScheduler {
    * @param task Task configuration
    */
   scheduleTask(task: any): { success: boolean; message: string; nextExecuteAt?: Date } {
-    if (!this.isRunning) {
-      return { success: false, message: 'Scheduler not started' };
+    const { id, name, schedule } = task;
+    const existing = scheduleStore.get(id);
+    const now = new Date();
+
+    // No time schedule, only run when triggered by other tasks or manually
+    if (schedule?.type === 'none') {
+      scheduleStore.save({ ...existing, task, nextExecuteAt: undefined });
+      this.armTimer(id);
+      console.log(`[TaskScheduler] Task ${name} registered, runs only when triggered`);
+      return { success: true, message: 'Task registered' };
     }
 
-    const { id, name, steps, schedule } = task;
+    // Keep planned execution time if schedule is unchanged (tasks are re-sent on every update)
+    let nextExecuteAt: Date | null = null;
+    if (existing?.nextExecuteAt && JSON.stringify(existing.task.schedule) === JSON.stringify(schedule)) {
+      const planned = new Date(existing.nextExecuteAt);
+      if (planned > now) {
+        nextExecuteAt = planned;
+      }
+    }
 
     // Calculate next execution time
-    const nextExecuteAt = this.calculateNextExecuteTime(schedule);
+    if (!nextExecuteAt) {
+      try {
+        nextExecuteAt = this.calculateNextExecuteTime(schedule, now);
+      } catch (error: any) {
+        return { success: false, message: error.message };
+      }
+    }
 
     if (!nextExecuteAt) {
       return { success: false, message: 'Invalid schedule configuration' };
     }
 
-    // Calculate delay time
-    const delay = nextExecuteAt.getTime() - Date.now();
+    // Persist schedule, timer is created now or when scheduler starts
+    scheduleStore.save({
+      ...existing,
+      task,
+      nextExecuteAt: nextExecuteAt.toISOString()
+    });
+    if (this.isRunning) {
+      this.armTimer(id);
+    }
+
+    console.log(`[TaskScheduler] Task ${name} scheduled, next execution time: ${nextExecuteAt.toLocaleString()}`);
+
+    return { success: true, message: 'Task scheduled successfully', nextExecuteAt };
+  }
+
+  /**
+   * Remove scheduled task
+   * @param taskId Task ID
+   */
+  removeScheduledTask(taskId: string): { success: boolean; message: string } {
+    const timer = this.scheduledTimers.get(taskId);
+    const removed = scheduleStore.delete(taskId);
+
+    // Cancel pending retries of every execution
+    this.clearRetryTimers(taskId);
+    this.clearConditionTimer(taskId);
+
+    if (!timer && !removed) {
+      return { success: false, message: 'Task schedule not found' };
+    }
+
+    if (timer) {
+      clearTimeout(timer);
+      this.scheduledTimers.delete(taskId);
+    }
+
+    console.log(`[TaskScheduler] Task ${taskId} schedule removed`);
+
+    return { success: true, message: 'Task schedule removed' };
+  }
+
+  /**
+   * Restore persisted schedules: replay missed executions and re-arm timers
+   */
+  private restoreSchedules(): void {
+    this.clearTimers();
+
+    const records = scheduleStore.getAll();
+    records.forEach((record) => {
+      this.catchUpMissedRuns(record);
+      this.armTimer(record.task.id);
+    });
+
+    console.log(`[TaskScheduler] Restored ${records.length} scheduled tasks`);
+  }
+
+  /**
+   * System resumed from sleep
+   */
+  private handleResume = (): void => {
+    console.log('[TaskScheduler] System resumed, checking missed executions');
+    this.restoreSchedules();
+  };
+
+  /**
+   * Apply misfire policy to executions planned before now
+   * @param record Persisted schedule record
+   */
+  private catchUpMissedRuns(record: ScheduleRecord): void {
+    if (!record.nextExecuteAt) {
+      return;
+    }
+
+    const { name, schedule } = record.task;
+    const now = new Date();
+    const missed: Date[] = [];
+    let next: Date | null = new Date(record.nextExecuteAt);
+
+    try {
+      while (next && next <= now && missed.length < MAX_MISFIRE_RUNS) {
+        missed.push(next);
+        next = this.calculateNextExecuteTime(schedule, next);
+      }
+
+      // Too many missed executions to enumerate, continue from now
+      if (next && next <= now) {
+        next = this.calculateNextExecuteTime(schedule, now);
+      }
+    } catch (error) {
+      console.error(`[TaskScheduler] Failed to calculate next execution time for task ${name}:`, error);
+      next = null;
+    }
+
+    if (missed.length === 0) {
+      return;
+    }
+
+    const policy: MisfirePolicy = record.task.misfirePolicy || 'run-once';
+    console.log(`[TaskScheduler] Task ${name} missed ${missed.length} executions, misfire policy: ${policy}`);
 
-    if (delay < 0) {
-      return { success: false, message: 'Calculated execution time has expired' };
+    if (policy === 'run-once') {
+      this.startWhenConditionsMet(record.task);
+    } else if (policy === 'run-all') {
+      // Same task shares one window, missed executions are queued and run one after another
+      // (while run conditions are unmet they collapse into a single waiting execution)
+      missed.forEach(() => this.startWhenConditionsMet(record.task, true));
     }
 
+    scheduleStore.update(record.task.id, {
+      lastFireAt: missed[missed.length - 1].toISOString(),
+      nextExecuteAt: next?.toISOString()
+    });
+  }
+
+  /**
+   * Create timer for the persisted next execution time of a task
+   * @param taskId Task ID
+   */
+  private armTimer(taskId: string): void {
     // Clear old timer (prevent duplicate registration)
-    const existingTimer = this.scheduledTimers.get(id);
+    const existingTimer = this.scheduledTimers.get(taskId);
     if (existingTimer) {
       clearTimeout(existingTimer);
-      console.log(`[TaskScheduler] Cleared old timer for task ${name} to avoid duplicate execution`);
+      this.scheduledTimers.delete(taskId);
     }
 
-    // Create timer
-    const timer = setTimeout(() => {
-      this.executeTask(id, name, steps);
-      this.scheduledTimers.delete(id);
+    const record = scheduleStore.get(taskId);
+    if (!record?.nextExecuteAt) {
+      return;
+    }
 
-      // If it's a periodic task, reschedule
-      if (schedule.type === 'interval') {
-        this.scheduleTask(task);
-      }
+    const executeAt = new Date(record.nextExecuteAt);
+    const delay = Math.max(0, executeAt.getTime() - Date.now());
+
+    // Delay too long for a single timer, wake up later and re-arm for the same execution time
+    if (delay > MAX_TIMER_DELAY) {
+      const timer = setTimeout(() => {
+        this.scheduledTimers.delete(taskId);
+        this.armTimer(taskId);
+      }, MAX_TIMER_DELAY);
+      this.scheduledTimers.set(taskId, timer);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.scheduledTimers.delete(taskId);
+      this.fireScheduledTask(taskId, executeAt);
     }, delay);
 
     // Save timer
-    this.scheduledTimers.set(id, timer);
+    this.scheduledTimers.set(taskId, timer);
+  }
 
-    console.log(`[TaskScheduler] Task ${name} scheduled, next execution time: ${nextExecuteAt.toLocaleString()}`);
+  /**
+   * Timer fired: execute task and schedule the following execution
+   * @param taskId Task ID
+   * @param executeAt Planned execution time
+   */
+  private fireScheduledTask(taskId: string, executeAt: Date): void {
+    const record = scheduleStore.get(taskId);
+    if (!record) {
+      return;
+    }
 
-    return { success: true, message: 'Task scheduled successfully', nextExecuteAt };
+    const { id, name, schedule } = record.task;
+    this.startWhenConditionsMet(record.task);
+
+    // Periodic task, reschedule after this execution time (timers may fire slightly early)
+    let next: Date | null = null;
+    try {
+      next = this.calculateNextExecuteTime(schedule, new Date(Math.max(Date.now(), executeAt.getTime())));
+    } catch (error) {
+      console.error(`[TaskScheduler] Failed to calculate next execution time for task ${name}:`, error);
+    }
+
+    scheduleStore.update(id, {
+      lastFireAt: executeAt.toISOString(),
+      nextExecuteAt: next?.toISOString()
+    });
+    this.armTimer(id);
+
+    if (next) {
+      console.log(`[TaskScheduler] Task ${name} scheduled, next execution time: ${next.toLocaleString()}`);
+    }
   }
 
   /**
-   * Remove scheduled task
-   * @param taskId Task ID
+   * Start a planned execution once the task's run conditions (AC power, idle) are met
+   * Executions outside active hours are skipped, waiting ends when active hours are over
+   * @param task Task configuration
+   * @param allowDuplicate Queue even if the same execution is already queued or running
    */
-  removeScheduledTask(taskId: string): { success: boolean; message: string } {
-    const timer = this.scheduledTimers.get(taskId);
+  private startWhenConditionsMet(task: any, allowDuplicate?: boolean): void {
+    this.clearConditionTimer(task.id);
 
-    if (!timer) {
-      return { success: false, message: 'Task schedule not found' };
+    if (!isWithinActiveHours(task.schedule || {}, new Date())) {
+      console.log(`[TaskScheduler] Task ${task.name} is outside active hours, execution skipped`);
+      return;
     }
 
-    clearTimeout(timer);
-    this.scheduledTimers.delete(taskId);
+    const unmet = this.getUnmetCondition(task);
+    if (!unmet) {
+      this.startExecution(task, undefined, undefined, allowDuplicate);
+      return;
+    }
 
-    console.log(`[TaskScheduler] Task ${taskId} schedule removed`);
+    console.log(`[TaskScheduler] Task ${task.name} waiting for run conditions: ${unmet}`);
+    const timer = setInterval(() => {
+      const record = scheduleStore.get(task.id);
+      if (!record) {
+        this.clearConditionTimer(task.id);
+        return;
+      }
 
-    return { success: true, message: 'Task schedule removed' };
+      if (!isWithinActiveHours(record.task.schedule || {}, new Date())) {
+        console.log(`[TaskScheduler] Task ${record.task.name} run conditions not met within active hours, execution skipped`);
+        this.clearConditionTimer(task.id);
+        return;
+      }
+
+      if (!this.getUnmetCondition(record.task)) {
+        this.clearConditionTimer(task.id);
+        this.startExecution(record.task, undefined, undefined, allowDuplicate);
+      }
+    }, CONDITION_CHECK_INTERVAL);
+    this.conditionTimers.set(task.id, timer);
+  }
+
+  /**
+   * Check run conditions of a task
+   * @returns Description of the first unmet condition, or null if all are met
+   */
+  private getUnmetCondition(task: any): string | null {
+    const conditions = task.schedule?.conditions;
+    if (!conditions) {
+      return null;
+    }
+
+    if (conditions.onAcPower && powerMonitor.isOnBatteryPower()) {
+      return 'running on battery power';
+    }
+
+    if (conditions.idleMinutes && powerMonitor.getSystemIdleTime() < conditions.idleMinutes * 60) {
+      return `computer not idle for ${conditions.idleMinutes} minutes`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Stop waiting for run conditions of a task
+   */
+  private clearConditionTimer(taskId: string): void {
+    const timer = this.conditionTimers.get(taskId);
+    if (timer) {
+      clearInterval(timer);
+      this.conditionTimers.delete(taskId);
+    }
+  }
+
+  /**
+   * Cancel pending retries of all executions of a task
+   */
+  private clearRetryTimers(taskId: string): void {
+    this.retryTimers.forEach((retry, dedupeKey) => {
+      if (retry.taskId === taskId) {
+        clearTimeout(retry.timer);
+        this.retryTimers.delete(dedupeKey);
+      }
+    });
+  }
+
+  /**
+   * Clear all timers
+   */
+  private clearTimers(): void {
+    this.scheduledTimers.forEach((timer) => {
+      clearTimeout(timer);
+    });
+    this.scheduledTimers.clear();
   }
 
   /**
    * Execute task immediately
    * @param task Task configuration
+   * @param variables Variable values given by user
    */
-  async executeTaskNow(task: any): Promise<{ success: boolean; message: string; executionId?: string }> {
-    const { id, name, steps } = task;
-    return this.executeTask(id, name, steps);
+  async executeTaskNow(
+    task: any,
+    variables?: Record<string, string>
+  ): Promise<{ success: boolean; message: string; executionId?: string }> {
+    return this.startExecution(task, variables);
+  }
+
+  /**
+   * Start execution of a task, once per value when fan-out is configured
+   * @param task Task configuration
+   * @param overrides Variable values given at execution time
+   * @param chain IDs of the tasks whose completion triggered this execution
+   * @param allowDuplicate Queue even if the same execution is already queued or running
+   */
+  private async startExecution(
+    task: any,
+    overrides?: Record<string, string>,
+    chain?: string[],
+    allowDuplicate?: boolean
+  ): Promise<{ success: boolean; message: string; executionId?: string }> {
+    const variables = this.resolveTaskVariables(task, overrides);
+
+    // Remember this run for {{lastRunAt}} of the next one
+    scheduleStore.update(task.id, { lastRunAt: new Date().toISOString() });
+
+    // A value given for the fan-out variable runs only that value
+    const fanOutVariable: string | undefined = task.fanOut?.variable;
+    const fanOutValues: string[] = fanOutVariable && !overrides?.[fanOutVariable] ? task.fanOut.values || [] : [];
+    if (fanOutValues.length === 0) {
+      return this.executeTask(task, { attempt: 1, variables, chain, allowDuplicate });
+    }
+
+    // Each value is a separate execution, queued behind each other in the task window
+    console.log(`[TaskScheduler] Task ${task.name} fans out over ${fanOutVariable}: ${fanOutValues.join(', ')}`);
+    const results = await Promise.all(fanOutValues.map((value) =>
+      this.executeTask(task, { attempt: 1, variables: { ...variables, [fanOutVariable!]: value }, chain, allowDuplicate })
+    ));
+
+    return {
+      success: results.every((result) => result.success),
+      message: `${fanOutValues.length} executions started`
+    };
+  }
+
+  /**
+   * Resolve placeholder values of an execution
+   */
+  private resolveTaskVariables(task: any, overrides?: Record<string, string>): Record<string, string> {
+    const record = scheduleStore.get(task.id);
+    const lastRunAt = record?.lastRunAt || task.lastExecutedAt;
+    return resolveVariables(task.variables, overrides, lastRunAt ? new Date(lastRunAt) : undefined);
   }
 
   /**
    * Execute task
-   * @param taskId Task ID
-   * @param taskName Task name
-   * @param steps Task steps
+   * @param task Task configuration
+   * @param options Execution options
    */
   private async executeTask(
-    taskId: string,
-    taskName: string,
-    steps: Array<{ id: string; name: string; content: string; order: number }>
+    task: any,
+    options: ExecutionOptions = { attempt: 1 }
   ): Promise<{ success: boolean; message: string; executionId?: string }> {
+    const { id: taskId, name: taskName } = task;
+    const dedupeKey = this.getDedupeKey(task, options);
+
     try {
-      // Check if new task can be executed
-      if (!taskWindowManager.canRunNewTask()) {
+      // New executions are skipped when the same one is already waiting or running (retries and resumes always run)
+      if (!options.allowDuplicate && options.attempt === 1 && !options.startStepId && this.isDuplicate(dedupeKey)) {
+        console.log(`[TaskScheduler] Task ${taskName} is already queued or running, skipped`);
+        return { success: false, message: 'Task is already queued or running' };
+      }
+
+      // Check if new task can be executed (a task that is already running waits for its window)
+      if (!this.canStartExecution() || this.isTaskRunning(taskId)) {
         // Add to queue
-        this.taskQueue.push({
+        this.enqueue({
+          queueId: randomUUID(),
           taskId,
           taskName,
-          steps,
-          scheduledTime: new Date()
+          task,
+          options,
+          priority: PRIORITY_RANK[task.priority as TaskPriority] !== undefined ? task.priority : 'normal',
+          dedupeKey,
+          queuedAt: new Date()
         });
 
-        console.log(`[TaskScheduler] Task ${taskName} added to queue, current running tasks: ${taskWindowManager.getRunningTaskCount()}`);
+        console.log(`[TaskScheduler] Task ${taskName} added to queue, current running tasks: ${this.runningTasks.size}`);
 
         return { success: true, message: 'Task added to queue' };
       }
 
       // Execute task
       const executionId = this.generateExecutionId();
-      await this.runTaskInNewWindow(taskId, taskName, steps, executionId);
+      await this.runTaskInNewWindow(task, options, executionId);
 
       return { success: true, message: 'Task execution started', executionId };
     } catch (error: any) {
@@ -245,98 +730,560 @@ export class TaskScheduler {
   /**
    * Run task in new window
    */
-  private async runTaskInNewWindow(
-    taskId: string,
-    taskName: string,
-    steps: Array<{ id: string; name: string; content: string; order: number }>,
-    executionId: string
-  ): Promise<void> {
-    try {
-      console.log(`[TaskScheduler] Starting task execution: ${taskName} (${executionId})`);
+  private async runTaskInNewWindow(task: any, options: ExecutionOptions, executionId: string): Promise<void> {
+    const { id: taskId, name: taskName, steps } = task;
+    const { attempt } = options;
+    const retry: RetryConfig = task.retry || {};
+    let window: BrowserWindow | null = null;
+    let outcome: ExecutionOutcome;
+    let timeoutTimer: NodeJS.Timeout | undefined;
+    const startTime = new Date();
 
-      // Create task-dedicated window
-      const { window, ekoService } = await taskWindowManager.createTaskWindow(taskId, executionId);
+    try {
+      console.log(`[TaskScheduler] Starting task execution: ${taskName} (${executionId}, attempt ${attempt})`);
 
-      // Record running task
+      // Record running task (before window creation, so executions started right after wait in the queue)
       this.runningTasks.set(executionId, {
         taskId,
         executionId,
-        startTime: new Date()
+        dedupeKey: this.getDedupeKey(task, options),
+        startTime
       });
 
+      // Create task-dedicated window
+      const context = await taskWindowManager.createTaskWindow(taskId, executionId, attempt);
+      window = context.window;
+
+      // Nobody may be watching, agent requests for confirmation or input fall back to the task's policy
+      context.ekoService.setHumanPolicy(task.humanPolicy || DEFAULT_UNATTENDED_HUMAN_POLICY);
+      context.ekoService.setUsageScope({ scheduledTaskId: taskId, scheduledTaskName: taskName, executionId });
+      // Always set, a reused window may still hold the override of a previous task
+      context.ekoService.setModelOverride(task.model?.provider ? task.model : undefined);
+
       // Notify renderer process that task has started
       window.webContents.send('task-execution-start', {
         taskId,
         taskName,
         executionId,
+        attempt,
         steps
       });
 
-      // Combine steps into complete task description
-      const taskPrompt = this.buildTaskPrompt(steps);
+      // Each Eko run gets its own task ID, abort the current one through its controller when time limit is exceeded
+      let currentEkoTaskId = '';
+      let timedOut = false;
+      if (retry.timeoutMinutes) {
+        timeoutTimer = setTimeout(() => {
+          timedOut = true;
+          console.warn(`[TaskScheduler] Task ${taskName} exceeded ${retry.timeoutMinutes} minutes, aborting`);
+          context.ekoService.cancleTask(currentEkoTaskId).catch((err) => {
+            console.error('[TaskScheduler] Failed to abort timed out task:', err);
+          });
+        }, retry.timeoutMinutes * 60 * 1000);
+      }
 
-      // Execute task
-      const result = await ekoService.run(taskPrompt);
+      if (task.executionMode === 'step-by-step') {
+        outcome = await this.runStepByStep(task, context, options, executionId, (ekoTaskId) => {
+          currentEkoTaskId = ekoTaskId;
+        });
+      } else {
+        // Combine steps into complete task description
+        currentEkoTaskId = randomUUID();
+        const result = await context.ekoService.run(this.buildTaskPrompt(steps, options.variables), currentEkoTaskId);
+        outcome = this.toOutcome(result);
+      }
+      clearTimeout(timeoutTimer);
+
+      console.log(`[TaskScheduler] Task execution completed: ${taskName}`, outcome.status);
+
+      if (timedOut) {
+        outcome = { ...outcome, status: 'error', error: `Execution timed out after ${retry.timeoutMinutes} minutes` };
+      }
+    } catch (err: any) {
+      console.error('[TaskScheduler] Task execution failed:', err);
+      clearTimeout(timeoutTimer);
+      outcome = { status: 'error', error: err?.message || String(err) };
+    }
+
+    // No longer auto-close window, let user view results and history
+    // Remove from running tasks list
+    this.runningTasks.delete(executionId);
 
-      console.log(`[TaskScheduler] Task execution completed: ${taskName}`, result?.stopReason);
+    const { willRetry, disabled } = this.handleExecutionResult(task, options, outcome);
 
-      // Notify renderer process task completion, save execution history
+    // Final outcome (no retry pending), start dependent tasks and deliver result
+    if (!willRetry) {
+      this.triggerDependents(task, outcome.status, options.chain);
+      resultDelivery.deliver(task, {
+        taskId,
+        taskName,
+        executionId,
+        status: outcome.status,
+        result: outcome.result,
+        error: outcome.error,
+        variables: options.variables || {},
+        startTime,
+        endTime: new Date()
+      });
+    }
+
+    // Notify renderer process task completion, save execution history
+    if (window && !window.isDestroyed()) {
       window.webContents.send('task-execution-complete', {
         taskId,
         taskName,
         executionId,
-        status: result?.stopReason || 'done',
+        attempt,
+        status: outcome.status,
+        error: outcome.error,
+        failedStepId: outcome.failedStepId,
+        variables: options.variables ? getUserVariables(options.variables) : undefined,
+        willRetry,
+        disabled,
         endTime: new Date()
       });
+    }
 
-      // No longer auto-close window, let user view results and history
-      // Remove from running tasks list
-      this.runningTasks.delete(executionId);
+    // Process next task in queue
+    this.processQueue();
+  }
 
-      // Process next task in queue
-      this.processQueue();
+  /**
+   * Run each step as its own Eko run in the task window (steps share the detail view and browser session)
+   * @param onStepStart Called with the Eko task ID of each step before it runs
+   */
+  private async runStepByStep(
+    task: any,
+    context: TaskWindowContext,
+    options: ExecutionOptions,
+    executionId: string,
+    onStepStart: (ekoTaskId: string) => void
+  ): Promise<ExecutionOutcome> {
+    const sortedSteps: Array<{ id: string; name: string; content: string; order: number }> =
+      [...task.steps].sort((a, b) => a.order - b.order);
+    const startIndex = Math.max(0, sortedSteps.findIndex((step) => step.id === options.startStepId));
+
+    const stepResults: StepResult[] = sortedSteps.map((step, index) => ({
+      stepId: step.id,
+      name: step.name,
+      status: index < startIndex ? 'skipped' : 'pending'
+    }));
+    let previousResult = options.previousResult;
+
+    for (let index = startIndex; index < sortedSteps.length; index++) {
+      const step = sortedSteps[index];
+      const stepResult = stepResults[index];
+
+      stepResult.status = 'running';
+      stepResult.startTime = new Date();
+      this.sendStepUpdate(context.window, executionId, stepResults);
+
+      const ekoTaskId = randomUUID();
+      onStepStart(ekoTaskId);
+      const prompt = this.buildStepPrompt(
+        step,
+        index,
+        sortedSteps.length,
+        task.passPreviousResult ? previousResult : undefined,
+        options.variables
+      );
+      const result = await context.ekoService.run(prompt, ekoTaskId);
+      const outcome = this.toOutcome(result);
+
+      stepResult.status = outcome.status as StepResult['status'];
+      stepResult.result = result?.result;
+      stepResult.error = outcome.error;
+      stepResult.endTime = new Date();
+      stepResult.screenshot = await this.captureScreenshot(context.view);
+      this.sendStepUpdate(context.window, executionId, stepResults);
+
+      if (outcome.status !== 'done') {
+        console.log(`[TaskScheduler] Step ${index + 1} (${step.name}) of task ${task.name} stopped: ${outcome.status}`);
+        return { ...outcome, failedStepId: step.id, previousResult };
+      }
 
+      previousResult = result?.result;
+    }
+
+    return { status: 'done', result: previousResult };
+  }
+
+  /**
+   * Start tasks whose triggers match the final outcome of an execution
+   * @param task Finished task configuration
+   * @param status Final status of the execution
+   * @param chain IDs of the tasks whose completion triggered the finished execution
+   */
+  private triggerDependents(task: any, status: string, chain: string[] = []): void {
+    // Terminated by user, nothing to trigger
+    const event = status === 'done' ? 'success' : status === 'error' ? 'failure' : null;
+    if (!event) {
+      return;
+    }
+
+    const nextChain = [...chain, task.id];
+    scheduleStore.getAll().forEach((record) => {
+      const triggers: Array<{ taskId: string; on: string }> = record.task.triggers || [];
+      if (!triggers.some((trigger) => trigger.taskId === task.id && trigger.on === event)) {
+        return;
+      }
+
+      // Cycles are rejected when saving, but never let a chain loop forever
+      if (nextChain.includes(record.task.id)) {
+        console.warn(`[TaskScheduler] Skipping trigger of task ${record.task.name}, it is already part of the chain`);
+        return;
+      }
+
+      console.log(`[TaskScheduler] Task ${record.task.name} triggered by ${event} of task ${task.name}`);
+      this.startExecution(record.task, undefined, nextChain);
+    });
+  }
+
+  /**
+   * Convert Eko result to execution outcome
+   */
+  private toOutcome(result: EkoResult | null): ExecutionOutcome {
+    // Null result means Eko threw (error already sent to the window)
+    const status = result?.stopReason || 'error';
+    if (status !== 'error') {
+      return { status, result: result?.result };
+    }
+    return {
+      status,
+      error: result?.error ? String((result.error as any)?.message || result.error) : 'Task execution failed'
+    };
+  }
+
+  /**
+   * Send step status list to the task window
+   */
+  private sendStepUpdate(window: BrowserWindow, executionId: string, steps: StepResult[]): void {
+    if (window.isDestroyed()) {
+      return;
+    }
+    window.webContents.send('task-step-update', { executionId, steps });
+  }
+
+  /**
+   * Capture detail view as JPEG data URL
+   */
+  private async captureScreenshot(view: WebContentsView): Promise<string | undefined> {
+    try {
+      if (view.webContents.isDestroyed()) {
+        return undefined;
+      }
+      const image = await view.webContents.capturePage();
+      if (image.isEmpty()) {
+        return undefined;
+      }
+      return `data:image/jpeg;base64,${image.toJPEG(70).toString('base64')}`;
     } catch (error) {
-      console.error('[TaskScheduler] Task execution failed:', error);
+      console.error('[TaskScheduler] Failed to capture step screenshot:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply retry and failure policy to a finished attempt
+   * @returns Whether another attempt is scheduled and whether the schedule was disabled
+   */
+  private handleExecutionResult(
+    task: any,
+    options: ExecutionOptions,
+    outcome: ExecutionOutcome
+  ): { willRetry: boolean; disabled: boolean } {
+    const { attempt } = options;
+    const retry: RetryConfig = task.retry || {};
+    const record = scheduleStore.get(task.id);
+
+    if (outcome.status === 'done') {
+      if (record?.consecutiveFailures) {
+        scheduleStore.update(task.id, { consecutiveFailures: 0 });
+      }
+      return { willRetry: false, disabled: false };
+    }
+
+    // Terminated by user, neither retried nor counted as failure
+    if (outcome.status === 'abort') {
+      return { willRetry: false, disabled: false };
+    }
+
+    console.warn(`[TaskScheduler] Task ${task.name} attempt ${attempt} failed: ${outcome.error}`);
+
+    // Retry with exponential backoff (step-by-step mode continues from the failed step)
+    if (attempt <= (retry.maxRetries || 0)) {
+      const baseDelay = (retry.retryDelaySeconds ?? DEFAULT_RETRY_DELAY_SECONDS) * 1000;
+      const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), MAX_TIMER_DELAY);
 
-      // No longer auto-close window, let user view error info
-      // Remove from running tasks list
-      this.runningTasks.delete(executionId);
+      // Keyed per execution, fan-out executions of the same task retry independently
+      const dedupeKey = this.getDedupeKey(task, options);
+      const existing = this.retryTimers.get(dedupeKey);
+      if (existing) {
+        clearTimeout(existing.timer);
+      }
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(dedupeKey);
+        this.executeTask(task, {
+          ...options,
+          attempt: attempt + 1,
+          startStepId: outcome.failedStepId,
+          previousResult: outcome.previousResult
+        });
+      }, delay);
+      this.retryTimers.set(dedupeKey, { taskId: task.id, timer });
+
+      console.log(`[TaskScheduler] Task ${task.name} will retry in ${Math.round(delay / 1000)}s (attempt ${attempt + 1})`);
+      return { willRetry: true, disabled: false };
+    }
+
+    // Executed once without a schedule (e.g. disabled task run manually)
+    if (!record) {
+      return { willRetry: false, disabled: false };
+    }
 
-      // Process next task in queue
-      this.processQueue();
+    const consecutiveFailures = (record.consecutiveFailures || 0) + 1;
+    if (retry.disableAfterFailures && consecutiveFailures >= retry.disableAfterFailures) {
+      console.warn(`[TaskScheduler] Task ${task.name} failed ${consecutiveFailures} times in a row, disabling schedule`);
+      this.removeScheduledTask(task.id);
+      return { willRetry: false, disabled: true };
     }
+
+    scheduleStore.update(task.id, { consecutiveFailures });
+    return { willRetry: false, disabled: false };
   }
 
   /**
    * Combine step list into task prompt
+   * @param variables Placeholder values
    */
-  private buildTaskPrompt(steps: Array<{ id: string; name: string; content: string; order: number }>): string {
+  private buildTaskPrompt(
+    steps: Array<{ id: string; name: string; content: string; order: number }>,
+    variables: Record<string, string> = {}
+  ): string {
     const sortedSteps = [...steps].sort((a, b) => a.order - b.order);
-    const stepTexts = sortedSteps.map((step, index) => `${index + 1}. ${step.content}`).join('\n');
+    const stepTexts = sortedSteps.map((step, index) => `${index + 1}. ${applyVariables(step.content, variables)}`).join('\n');
 
     return `Please execute the task following these steps:\n${stepTexts}`;
   }
 
   /**
-   * Process tasks in queue
+   * Build prompt of a single step in step-by-step mode
+   * @param previousResult Result of the previous step, included when result passing is enabled
+   * @param variables Placeholder values
+   */
+  private buildStepPrompt(
+    step: { id: string; name: string; content: string; order: number },
+    index: number,
+    total: number,
+    previousResult?: string,
+    variables: Record<string, string> = {}
+  ): string {
+    let prompt = `Please execute step ${index + 1} of ${total} of a task: ${applyVariables(step.content, variables)}`;
+    if (previousResult) {
+      prompt += `\n\nResult of the previous step:\n${previousResult}`;
+    }
+    return prompt;
+  }
+
+  /**
+   * Process tasks in queue, starting as many as the concurrency limit allows
    */
-  private async processQueue(): Promise<void> {
-    if (this.taskQueue.length > 0 && taskWindowManager.canRunNewTask()) {
-      const nextTask = this.taskQueue.shift();
-      if (nextTask) {
-        console.log(`[TaskScheduler] Retrieving task from queue: ${nextTask.taskName}`);
-        const executionId = this.generateExecutionId();
-        await this.runTaskInNewWindow(nextTask.taskId, nextTask.taskName, nextTask.steps, executionId);
+  private processQueue(): void {
+    this.dropExpiredQueueItems();
+
+    while (this.canStartExecution()) {
+      // Skip tasks whose window is still busy with a previous execution
+      const index = this.taskQueue.findIndex((item) => !this.isTaskRunning(item.taskId));
+      if (index < 0) {
+        break;
       }
+
+      // Running task is recorded synchronously, so the next loop iteration sees the updated count
+      const [nextTask] = this.taskQueue.splice(index, 1);
+      console.log(`[TaskScheduler] Retrieving task from queue: ${nextTask.taskName}`);
+      this.runTaskInNewWindow(nextTask.task, nextTask.options, this.generateExecutionId()).catch((err) => {
+        console.error('[TaskScheduler] Failed to run queued task:', err);
+      });
     }
   }
 
   /**
-   * Calculate next execution time
+   * Add execution to queue, after queued executions of the same or higher priority
    */
-  private calculateNextExecuteTime(schedule: any): Date | null {
-    const now = new Date();
+  private enqueue(item: QueuedTask): void {
+    const rank = PRIORITY_RANK[item.priority];
+    const index = this.taskQueue.findIndex((queued) => PRIORITY_RANK[queued.priority] > rank);
+    if (index < 0) {
+      this.taskQueue.push(item);
+    } else {
+      this.taskQueue.splice(index, 0, item);
+    }
+  }
+
+  /**
+   * Drop queued executions waiting longer than the configured maximum queue age
+   */
+  private dropExpiredQueueItems(): void {
+    const { maxQueueAgeMinutes } = scheduleStore.getSettings();
+    if (!maxQueueAgeMinutes) {
+      return;
+    }
+
+    const cutoff = Date.now() - maxQueueAgeMinutes * 60 * 1000;
+    this.taskQueue = this.taskQueue.filter((item) => {
+      if (item.queuedAt.getTime() >= cutoff) {
+        return true;
+      }
+      console.warn(`[TaskScheduler] Task ${item.taskName} waited more than ${maxQueueAgeMinutes} minutes in queue, dropped`);
+      return false;
+    });
+  }
+
+  /**
+   * Get queued executions in run order
+   */
+  getQueue(): QueuedTaskInfo[] {
+    this.dropExpiredQueueItems();
+
+    return this.taskQueue.map((item) => ({
+      queueId: item.queueId,
+      taskId: item.taskId,
+      taskName: item.taskName,
+      priority: item.priority,
+      attempt: item.options.attempt,
+      variables: item.options.variables ? getUserVariables(item.options.variables) : undefined,
+      queuedAt: item.queuedAt
+    }));
+  }
+
+  /**
+   * Move queued execution to another position
+   * @param queueId Queue item ID
+   * @param toIndex New position in queue
+   */
+  moveQueuedTask(queueId: string, toIndex: number): { success: boolean; message: string } {
+    const index = this.taskQueue.findIndex((item) => item.queueId === queueId);
+    if (index < 0) {
+      return { success: false, message: 'Queued task not found' };
+    }
+
+    const [item] = this.taskQueue.splice(index, 1);
+    const target = Math.max(0, Math.min(toIndex, this.taskQueue.length));
+    this.taskQueue.splice(target, 0, item);
+
+    console.log(`[TaskScheduler] Task ${item.taskName} moved to queue position ${target + 1}`);
+    return { success: true, message: 'Queue order updated' };
+  }
+
+  /**
+   * Remove execution from queue
+   * @param queueId Queue item ID
+   */
+  cancelQueuedTask(queueId: string): { success: boolean; message: string } {
+    const index = this.taskQueue.findIndex((item) => item.queueId === queueId);
+    if (index < 0) {
+      return { success: false, message: 'Queued task not found' };
+    }
+
+    const [item] = this.taskQueue.splice(index, 1);
+    console.log(`[TaskScheduler] Task ${item.taskName} removed from queue`);
+    return { success: true, message: 'Queued task cancelled' };
+  }
+
+  /**
+   * Update scheduler settings
+   * @param updates Changed settings
+   */
+  updateSettings(updates: Partial<SchedulerSettings>): { success: boolean; message: string; settings?: SchedulerSettings } {
+    const settings = { ...scheduleStore.getSettings(), ...updates };
+
+    if (!(settings.maxQueueAgeMinutes >= 0)) {
+      return { success: false, message: 'Maximum queue age must not be negative' };
+    }
+
+    try {
+      taskWindowManager.setMaxConcurrentTasks(settings.maxConcurrentTasks);
+    } catch (error: any) {
+      return { success: false, message: error.message };
+    }
+
+    scheduleStore.saveSettings(settings);
+    console.log('[TaskScheduler] Settings updated:', settings);
+
+    // Higher limit may allow queued tasks to start now
+    this.processQueue();
+
+    return { success: true, message: 'Settings updated', settings };
+  }
+
+  /**
+   * Preview next execution times of a schedule configuration
+   * @param schedule Schedule configuration
+   * @param count Number of execution times to calculate
+   */
+  previewSchedule(schedule: any, count: number = 5): { success: boolean; message: string; times?: Date[] } {
+    try {
+      // Only run when triggered, no upcoming times
+      if (schedule?.type === 'none') {
+        return { success: true, message: 'OK', times: [] };
+      }
+
+      const times: Date[] = [];
+      let cursor = new Date();
+      for (let i = 0; i < count; i++) {
+        const next = this.calculateNextExecuteTime(schedule, cursor);
+        if (!next) {
+          break;
+        }
+        times.push(next);
+        cursor = next;
+      }
+
+      if (times.length === 0) {
+        if (schedule?.activeWindows?.length || schedule?.excludedDates?.length) {
+          return { success: false, message: 'No execution time within active hours' };
+        }
+        return { success: false, message: schedule?.type === 'cron' ? 'Cron expression never fires' : 'Invalid schedule configuration' };
+      }
+      return { success: true, message: 'OK', times };
+    } catch (error: any) {
+      return { success: false, message: error.message };
+    }
+  }
+
+  /**
+   * Calculate next execution time within active hours
+   * @param schedule Schedule configuration
+   * @param from Time to calculate from (defaults to now)
+   * @throws Error if cron expression, timezone or active hours are invalid
+   */
+  private calculateNextExecuteTime(schedule: any, from: Date = new Date()): Date | null {
+    const error = validateActiveHours(schedule);
+    if (error) {
+      throw new Error(error);
+    }
+
+    let next = this.calculatePlannedTime(schedule, from);
+    for (let i = 0; next && i < MAX_ACTIVE_HOURS_SEARCH; i++) {
+      const allowed = getNextAllowedTime(schedule, next);
+
+      // Intervals continue from the start of active hours, cron times must still match the expression
+      if (!allowed || allowed.getTime() === next.getTime() || schedule.type !== 'cron') {
+        return allowed;
+      }
+      next = this.calculatePlannedTime(schedule, new Date(allowed.getTime() - 1000));
+    }
+
+    return null;
+  }
+
+  /**
+   * Calculate next time of the schedule rule, ignoring active hours
+   * @param schedule Schedule configuration
+   * @param from Time to calculate from
+   */
+  private calculatePlannedTime(schedule: any, from: Date): Date | null {
+    const now = from;
 
     if (schedule.type === 'interval') {
       const { intervalUnit, intervalValue } = schedule;
@@ -364,15 +1311,47 @@ export class TaskScheduler {
       return new Date(now.getTime() + milliseconds);
     }
 
-    // TODO: Support cron expressions
     if (schedule.type === 'cron') {
-      console.warn('[TaskScheduler] Cron expressions not yet supported');
-      return null;
+      if (!schedule.cronExpression) {
+        return null;
+      }
+      return getNextCronTime(parseCronExpression(schedule.cronExpression), now, schedule.timezone);
     }
 
     return null;
   }
 
+  /**
+   * Check if another execution may start under the concurrency limit
+   */
+  private canStartExecution(): boolean {
+    return this.runningTasks.size < taskWindowManager.getMaxConcurrentTasks();
+  }
+
+  /**
+   * De-duplication key of an execution: task plus user variable values
+   */
+  private getDedupeKey(task: any, options: ExecutionOptions): string {
+    const variables = getUserVariables(options.variables || {});
+    const values = Object.keys(variables).sort().map((name) => [name, variables[name]]);
+    return `${task.id}:${JSON.stringify(values)}`;
+  }
+
+  /**
+   * Check if the same execution is already queued or running
+   */
+  private isDuplicate(dedupeKey: string): boolean {
+    return this.taskQueue.some((item) => item.dedupeKey === dedupeKey)
+      || Array.from(this.runningTasks.values()).some((running) => running.dedupeKey === dedupeKey);
+  }
+
+  /**
+   * Check if task has a running execution
+   */
+  private isTaskRunning(taskId: string): boolean {
+    return Array.from(this.runningTasks.values()).some((running) => running.taskId === taskId);
+  }
+
   /**
    * Generate execution ID
    */
@@ -0,0 +1,166 @@
+import { BrowserWindow } from "electron";
+
+/**
+ * Run status of an Eko task
+ * - planning: workflow is being generated
+ * - plan_review: workflow generated, waiting for the user to review and start it
+ * - running: an agent is executing
+ * - waiting_human: agent waits for a human confirmation/input
+ * - paused: execution is paused
+ * - done / error / aborted: finished
+ */
+export type TaskRunStatus = 'planning' | 'plan_review' | 'running' | 'waiting_human' | 'paused' | 'done' | 'error' | 'aborted';
+
+/**
+ * Configuration a task runs with
+ */
+export interface TaskConfigInfo {
+  provider: string;
+  model: string;
+  outdated: boolean;  // Configuration was reloaded since the task started
+}
+
+/**
+ * Status snapshot of an Eko task
+ */
+export interface TaskStatusInfo {
+  taskId: string;
+  taskName?: string;        // Workflow name, known once planning finished
+  status: TaskRunStatus;
+  agentName?: string;       // Agent currently (or last) executing
+  currentNode?: string;     // Task of the current agent node
+  lastToolCall?: { toolName: string; time: string };
+  llm?: { provider: string; model: string; fallback: boolean }; // Model that answered the last LLM request
+  config?: TaskConfigInfo;
+  error?: string;
+  startTime: string;
+  endTime?: string;
+  elapsedMs: number;
+}
+
+type TaskStatusRecord = Omit<TaskStatusInfo, 'elapsedMs'>;
+type TaskStatusListener = (status: TaskStatusInfo) => void;
+
+const FINISHED_STATUSES: TaskRunStatus[] = ['done', 'error', 'aborted'];
+
+// Finished tasks kept for status queries, oldest are dropped first
+const MAX_FINISHED_TASKS = 100;
+
+/**
+ * Task status tracker
+ * Single source of truth for the status of tasks in all windows,
+ * every change is pushed to all windows ('eko-task-status') and main process listeners (e.g. tray)
+ */
+export class TaskStatusTracker {
+  private records: Map<string, TaskStatusRecord> = new Map();
+  private listeners: Set<TaskStatusListener> = new Set();
+
+  /**
+   * Start tracking a task (resets status of a task that runs again)
+   */
+  start(taskId: string, status: TaskRunStatus = 'planning'): void {
+    const previous = this.records.get(taskId);
+    this.records.delete(taskId);
+    this.records.set(taskId, {
+      taskId,
+      taskName: previous?.taskName,
+      status,
+      startTime: new Date().toISOString()
+    });
+    this.pruneFinished();
+    this.emit(taskId);
+  }
+
+  /**
+   * Update status of a tracked task, ignored for unknown tasks
+   */
+  update(taskId: string, changes: Partial<Omit<TaskStatusRecord, 'taskId' | 'startTime' | 'endTime'>>): void {
+    const record = this.records.get(taskId);
+    if (!record) {
+      return;
+    }
+
+    Object.assign(record, changes);
+    if (changes.status) {
+      record.endTime = FINISHED_STATUSES.includes(changes.status) ? new Date().toISOString() : undefined;
+    }
+    this.emit(taskId);
+  }
+
+  /**
+   * Get status of a task
+   * @returns Status, or null if the task is not tracked
+   */
+  get(taskId: string): TaskStatusInfo | null {
+    const record = this.records.get(taskId);
+    return record ? this.toInfo(record) : null;
+  }
+
+  /**
+   * Get status of all tracked tasks
+   */
+  getAll(): TaskStatusInfo[] {
+    return Array.from(this.records.values()).map((record) => this.toInfo(record));
+  }
+
+  /**
+   * Check if a task is tracked and not finished
+   */
+  isActive(taskId: string): boolean {
+    const record = this.records.get(taskId);
+    return !!record && !FINISHED_STATUSES.includes(record.status);
+  }
+
+  /**
+   * Listen to status changes
+   * @returns Function removing the listener
+   */
+  onChange(listener: TaskStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private toInfo(record: TaskStatusRecord): TaskStatusInfo {
+    const end = record.endTime ? new Date(record.endTime).getTime() : Date.now();
+    return { ...record, elapsedMs: end - new Date(record.startTime).getTime() };
+  }
+
+  /**
+   * Push status of a task to all windows and listeners
+   */
+  private emit(taskId: string): void {
+    const status = this.get(taskId);
+    if (!status) {
+      return;
+    }
+
+    BrowserWindow.getAllWindows().forEach((window) => {
+      if (!window.isDestroyed()) {
+        window.webContents.send('eko-task-status', status);
+      }
+    });
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('[TaskStatusTracker] Status listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Drop oldest finished tasks beyond the limit (records are kept in start order)
+   */
+  private pruneFinished(): void {
+    const finished = Array.from(this.records.values()).filter((record) => FINISHED_STATUSES.includes(record.status));
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_TASKS)).forEach((record) => {
+      this.records.delete(record.taskId);
+    });
+  }
+}
+
+// Singleton instance
+export const taskStatusTracker = new TaskStatusTracker();
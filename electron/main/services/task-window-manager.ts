@@ -8,7 +8,7 @@ import { createView } from "../ui/view";
 /**
  * Task execution context
  */
-interface TaskWindowContext {
+export interface TaskWindowContext {
   window: BrowserWindow;
   view: WebContentsView;
   ekoService: EkoService;
@@ -30,9 +30,10 @@ export class TaskWindowManager {
    * Create or reuse execution window for task
    * @param taskId Task ID
    * @param executionId Execution ID
+   * @param attempt Attempt number of this execution (retries reuse the window)
    * @returns Window context
    */
-  async createTaskWindow(taskId: string, executionId: string): Promise<TaskWindowContext> {
+  async createTaskWindow(taskId: string, executionId: string, attempt: number = 1): Promise<TaskWindowContext> {
     // Check if window for this task already exists (window reuse)
     const existingContext = this.taskWindows.get(taskId);
 
@@ -53,7 +54,7 @@ export class TaskWindowManager {
       existingContext.executionId = executionId;
 
       // Reload page with new executionId (keep original loadURL format)
-      existingContext.window.loadURL(`http://localhost:5173/main?taskId=${taskId}&executionId=${executionId}`);
+      existingContext.window.loadURL(`http://localhost:5173/main?taskId=${taskId}&executionId=${executionId}&attempt=${attempt}`);
 
       // Focus window
       existingContext.window.show();
@@ -62,15 +63,15 @@ export class TaskWindowManager {
       return existingContext;
     }
 
-    // Check concurrency limit (only for new windows)
-    if (this.taskWindows.size >= this.maxConcurrentTasks) {
+    // Check concurrency limit (only for new windows, idle windows kept open for viewing results don't count)
+    if (this.getBusyWindowCount() >= this.maxConcurrentTasks) {
       throw new Error(`Maximum concurrent tasks reached (${this.maxConcurrentTasks})`);
     }
 
     console.log(`[TaskWindowManager] Creating new window: taskId=${taskId}, executionId=${executionId}`);
 
     // Create new window (keep original loadURL format)
-    const taskWindow = createWindow(`http://localhost:5173/main?taskId=${taskId}&executionId=${executionId}`)
+    const taskWindow = createWindow(`http://localhost:5173/main?taskId=${taskId}&executionId=${executionId}&attempt=${attempt}`)
 
     // Create detailView
     const detailView = createView(`https://www.google.com`, "view", '2');
@@ -231,6 +232,40 @@ export class TaskWindowManager {
     console.log(`[TaskWindowManager] Task window closed: taskId=${taskId}`);
   }
 
+  /**
+   * Show task window with its execution history panel open
+   * @param taskId Task ID
+   */
+  async openTaskHistory(taskId: string): Promise<void> {
+    // Check if task window already exists
+    let taskWindow = this.getTaskWindow(taskId);
+
+    if (taskWindow) {
+      // Window exists, activate it
+      console.log('[TaskWindowManager] Task window exists, activating window');
+      taskWindow.window.show();
+      taskWindow.window.focus();
+    } else {
+      // Window doesn't exist, create new window
+      console.log('[TaskWindowManager] Task window does not exist, creating new window');
+
+      // Generate new executionId (for creating window, won't execute task immediately)
+      const executionId = `view_history_${Date.now()}`;
+
+      // Create task window
+      taskWindow = await this.createTaskWindow(taskId, executionId);
+    }
+
+    // Wait for window content to load, then send open history panel event
+    const context = taskWindow;
+    setTimeout(() => {
+      if (!context.window.isDestroyed()) {
+        context.window.webContents.send('open-history-panel', { taskId });
+        console.log('[TaskWindowManager] Sent open-history-panel event to task window');
+      }
+    }, 1000); // Delay 1 second to ensure page is loaded
+  }
+
   /**
    * Get task window context (by taskId)
    * @param taskId Task ID
@@ -246,20 +281,34 @@ export class TaskWindowManager {
     return this.taskWindows.size;
   }
 
+  /**
+   * Get number of windows with an executing task
+   */
+  private getBusyWindowCount(): number {
+    return Array.from(this.taskWindows.values()).filter((context) => context.ekoService.hasRunningTask()).length;
+  }
+
   /**
    * Check if new task can be executed
    */
   canRunNewTask(): boolean {
-    return this.taskWindows.size < this.maxConcurrentTasks;
+    return this.getBusyWindowCount() < this.maxConcurrentTasks;
+  }
+
+  /**
+   * Get maximum concurrent tasks
+   */
+  getMaxConcurrentTasks(): number {
+    return this.maxConcurrentTasks;
   }
 
   /**
    * Set maximum concurrent tasks
-   * @param max Maximum concurrency (1-5)
+   * @param max Maximum concurrency (1-10)
    */
   setMaxConcurrentTasks(max: number): void {
-    if (max < 1 || max > 5) {
-      throw new Error('Maximum concurrent tasks must be between 1-5');
+    if (!Number.isInteger(max) || max < 1 || max > 10) {
+      throw new Error('Maximum concurrent tasks must be between 1-10');
     }
     this.maxConcurrentTasks = max;
     console.log(`[TaskWindowManager] Max concurrent tasks set to ${max}`);
@@ -0,0 +1,432 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { BrowserWindow, Notification } from "electron";
+import { store } from "../utils/store";
+import { taskStatusTracker } from "./task-status-tracker";
+
+/**
+ * Token usage totals (cost in USD, from the price table at request time)
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  requests: number;
+}
+
+/**
+ * Task an LLM request is made for, set around Eko calls by EkoService
+ */
+export interface UsageScope {
+  taskId: string;
+  scheduledTaskId?: string;     // Scheduled executions only
+  scheduledTaskName?: string;
+  executionId?: string;
+}
+
+/**
+ * Price of a model per million tokens (USD), model '*' applies to all models of the provider
+ */
+export interface ModelPrice {
+  provider: string;
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Spend limits (USD), 0 = no limit
+ */
+export interface UsageBudget {
+  dailyLimit: number;
+  monthlyLimit: number;
+}
+
+/**
+ * Usage of one day, provider, model, scheduled task and agent
+ */
+interface UsageBucket extends UsageTotals {
+  day: string;                  // YYYY-MM-DD, local time
+  provider: string;
+  model: string;
+  scheduledTaskId?: string;
+  scheduledTaskName?: string;
+  agentName?: string;           // Agent (or 'Planner') making the requests, requests outside a task have none
+}
+
+/**
+ * Usage summary shown in the dashboard
+ */
+export interface UsageSummary {
+  days: Array<{ day: string } & UsageTotals>;
+  providers: Array<{ provider: string; model: string } & UsageTotals>;
+  scheduledTasks: Array<{ scheduledTaskId: string; scheduledTaskName: string } & UsageTotals>;
+  agents: Array<{ agentName: string } & UsageTotals>;
+  today: UsageTotals;
+  month: UsageTotals;
+  budget: UsageBudget;
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { provider: 'deepseek', model: 'deepseek-chat', inputPerMillion: 0.27, outputPerMillion: 1.1 },
+  { provider: 'deepseek', model: 'deepseek-reasoner', inputPerMillion: 0.55, outputPerMillion: 2.19 },
+  { provider: 'qwen', model: 'qwen-max', inputPerMillion: 1.6, outputPerMillion: 6.4 },
+  { provider: 'qwen', model: 'qwen-plus', inputPerMillion: 0.4, outputPerMillion: 1.2 },
+  { provider: 'google', model: 'gemini-1.5-flash-latest', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { provider: 'google', model: 'gemini-1.5-pro-latest', inputPerMillion: 1.25, outputPerMillion: 5 },
+  { provider: 'anthropic', model: 'claude-3-5-sonnet-latest', inputPerMillion: 3, outputPerMillion: 15 },
+  { provider: 'anthropic', model: 'claude-3-5-haiku-latest', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { provider: 'openrouter', model: 'anthropic/claude-3.5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+];
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  dailyLimit: 0,
+  monthlyLimit: 0,
+};
+
+// Daily usage kept for the dashboard
+const RETENTION_DAYS = 180;
+
+// Task and execution totals kept in memory, oldest are dropped first
+const MAX_TRACKED_TOTALS = 200;
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, requests: 0 });
+
+const addTotals = <T extends UsageTotals>(target: T, source: UsageTotals): T => {
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.totalTokens += source.totalTokens;
+  target.cost += source.cost;
+  target.requests += source.requests;
+  return target;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toDay = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Usage tracker
+ * Records token usage of every LLM request (read from the provider response by the wrapped fetch hooks),
+ * attributes it to the task in scope, keeps daily totals (electron-store) and alerts when a budget is exceeded
+ */
+export class UsageTracker {
+  private readonly STORE_KEY = 'usageDaily';
+  private readonly PRICES_KEY = 'usagePrices';
+  private readonly BUDGET_KEY = 'usageBudget';
+  private readonly ALERTS_KEY = 'usageBudgetAlerts';
+
+  private scope = new AsyncLocalStorage<UsageScope>();
+  private taskTotals: Map<string, UsageTotals> = new Map();
+  private executionTotals: Map<string, UsageTotals> = new Map();
+
+  /**
+   * Run an Eko call, LLM requests it makes are attributed to the scope
+   */
+  runInScope<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+    return this.scope.run(scope, fn);
+  }
+
+  /**
+   * Wrap a provider fetch hook to record token usage of its responses
+   * and report the model answering the task in scope
+   * @param fallback Whether the provider is a fallback of the selected one
+   */
+  wrapFetch(provider: string, model: string, baseFetch: typeof fetch = fetch, fallback: boolean = false): typeof fetch {
+    return (async (input: any, init?: any) => {
+      const scope = this.scope.getStore();
+      const agentName = this.getAgentName(scope?.taskId);
+      const response = await baseFetch(input, init);
+
+      if (response.ok && scope) {
+        const llm = taskStatusTracker.get(scope.taskId)?.llm;
+        if (llm?.provider !== provider || llm.model !== model) {
+          if (fallback) {
+            console.warn(`[UsageTracker] Task ${scope.taskId} failed over to ${provider}/${model}`);
+          }
+          taskStatusTracker.update(scope.taskId, { llm: { provider, model, fallback } });
+        }
+      }
+
+      // Read a copy in the background, the provider SDK consumes the original stream
+      if (response.ok && response.body) {
+        this.readUsage(response.clone()).then((usage) => {
+          if (usage) {
+            this.record(provider, model, usage.promptTokens, usage.completionTokens, scope, agentName);
+          }
+        }).catch((error) => {
+          console.warn('[UsageTracker] Failed to read usage:', error?.message || error);
+        });
+      }
+      return response;
+    }) as typeof fetch;
+  }
+
+  /**
+   * Get usage summary for the dashboard
+   * @param days Number of days (including today) of the daily breakdown
+   */
+  getSummary(days: number = 30): UsageSummary {
+    const buckets = this.getBuckets();
+    const now = new Date();
+    const today = toDay(now);
+    const month = today.slice(0, 7);
+    const since = toDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1));
+
+    const dayMap = new Map<string, { day: string } & UsageTotals>();
+    const providerMap = new Map<string, { provider: string; model: string } & UsageTotals>();
+    const scheduledMap = new Map<string, { scheduledTaskId: string; scheduledTaskName: string } & UsageTotals>();
+    const agentMap = new Map<string, { agentName: string } & UsageTotals>();
+    const todayTotals = emptyTotals();
+    const monthTotals = emptyTotals();
+
+    buckets.forEach((bucket) => {
+      if (bucket.day === today) addTotals(todayTotals, bucket);
+      if (bucket.day.startsWith(month)) addTotals(monthTotals, bucket);
+      if (bucket.day < since) return;
+
+      if (!dayMap.has(bucket.day)) dayMap.set(bucket.day, { day: bucket.day, ...emptyTotals() });
+      addTotals(dayMap.get(bucket.day)!, bucket);
+
+      const providerKey = `${bucket.provider}|${bucket.model}`;
+      if (!providerMap.has(providerKey)) {
+        providerMap.set(providerKey, { provider: bucket.provider, model: bucket.model, ...emptyTotals() });
+      }
+      addTotals(providerMap.get(providerKey)!, bucket);
+
+      if (bucket.scheduledTaskId) {
+        if (!scheduledMap.has(bucket.scheduledTaskId)) {
+          scheduledMap.set(bucket.scheduledTaskId, {
+            scheduledTaskId: bucket.scheduledTaskId,
+            scheduledTaskName: bucket.scheduledTaskName || bucket.scheduledTaskId,
+            ...emptyTotals()
+          });
+        }
+        const entry = addTotals(scheduledMap.get(bucket.scheduledTaskId)!, bucket);
+        // Latest name wins
+        if (bucket.scheduledTaskName) entry.scheduledTaskName = bucket.scheduledTaskName;
+      }
+
+      if (bucket.agentName) {
+        if (!agentMap.has(bucket.agentName)) {
+          agentMap.set(bucket.agentName, { agentName: bucket.agentName, ...emptyTotals() });
+        }
+        addTotals(agentMap.get(bucket.agentName)!, bucket);
+      }
+    });
+
+    return {
+      days: Array.from(dayMap.values()).sort((a, b) => a.day.localeCompare(b.day)),
+      providers: Array.from(providerMap.values()).sort((a, b) => b.cost - a.cost),
+      scheduledTasks: Array.from(scheduledMap.values()).sort((a, b) => b.cost - a.cost),
+      agents: Array.from(agentMap.values()).sort((a, b) => b.cost - a.cost),
+      today: todayTotals,
+      month: monthTotals,
+      budget: this.getBudget()
+    };
+  }
+
+  /**
+   * Get price table (defaults until saved)
+   */
+  getPrices(): ModelPrice[] {
+    return store.get(this.PRICES_KEY, DEFAULT_MODEL_PRICES) as ModelPrice[];
+  }
+
+  /**
+   * Save price table, applies to requests made afterwards
+   */
+  savePrices(prices: ModelPrice[]): void {
+    store.set(this.PRICES_KEY, prices);
+  }
+
+  /**
+   * Get budget (defaults for missing fields)
+   */
+  getBudget(): UsageBudget {
+    const budget = store.get(this.BUDGET_KEY, {}) as Partial<UsageBudget>;
+    return { ...DEFAULT_USAGE_BUDGET, ...budget };
+  }
+
+  /**
+   * Save budget, a raised limit may alert again in the same period
+   */
+  saveBudget(budget: UsageBudget): void {
+    store.set(this.BUDGET_KEY, budget);
+    store.set(this.ALERTS_KEY, {});
+  }
+
+  /**
+   * Agent making a request of a task, the planner before any agent started
+   */
+  private getAgentName(taskId?: string): string | undefined {
+    if (!taskId) {
+      return undefined;
+    }
+    const status = taskStatusTracker.get(taskId);
+    return status?.status === 'planning' ? 'Planner' : status?.agentName;
+  }
+
+  /**
+   * Read token usage from a JSON or server-sent events response body
+   * Handles OpenAI compatible (usage.prompt_tokens), Anthropic (usage.input_tokens) and Google (usageMetadata) formats,
+   * streamed values are cumulative so the largest one is kept
+   */
+  private async readUsage(response: Response): Promise<{ promptTokens: number; completionTokens: number } | null> {
+    const text = await response.text();
+    const isStream = (response.headers.get('content-type') || '').includes('event-stream');
+    const chunks: any[] = [];
+
+    if (isStream) {
+      text.split('\n').forEach((line) => {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') return;
+        try {
+          chunks.push(JSON.parse(data));
+        } catch {
+          // Keep-alive or partial line
+        }
+      });
+    } else {
+      try {
+        chunks.push(JSON.parse(text));
+      } catch {
+        return null;
+      }
+    }
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    chunks.forEach((chunk) => {
+      const usage = chunk?.usage || chunk?.message?.usage || chunk?.response?.usage;
+      if (usage) {
+        promptTokens = Math.max(promptTokens, usage.prompt_tokens ?? usage.input_tokens ?? 0);
+        completionTokens = Math.max(completionTokens, usage.completion_tokens ?? usage.output_tokens ?? 0);
+      }
+      const metadata = chunk?.usageMetadata;
+      if (metadata) {
+        promptTokens = Math.max(promptTokens, metadata.promptTokenCount ?? 0);
+        completionTokens = Math.max(completionTokens, (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0));
+      }
+    });
+
+    return promptTokens || completionTokens ? { promptTokens, completionTokens } : null;
+  }
+
+  /**
+   * Record usage of one request
+   */
+  private record(provider: string, model: string, promptTokens: number, completionTokens: number, scope?: UsageScope, agentName?: string): void {
+    const price = this.getPrice(provider, model);
+    const usage: UsageTotals = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: price ? (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000 : 0,
+      requests: 1
+    };
+
+    console.log(`[UsageTracker] ${provider}/${model}${agentName ? ` (${agentName})` : ''}: ${promptTokens} prompt + ${completionTokens} completion tokens`);
+
+    const day = toDay(new Date());
+    const buckets = this.getBuckets();
+    let bucket = buckets.find((item) =>
+      item.day === day && item.provider === provider && item.model === model
+        && item.scheduledTaskId === scope?.scheduledTaskId && item.agentName === agentName
+    );
+    if (!bucket) {
+      bucket = { day, provider, model, scheduledTaskId: scope?.scheduledTaskId, agentName, ...emptyTotals() };
+      buckets.push(bucket);
+    }
+    addTotals(bucket, usage);
+    if (scope?.scheduledTaskName) {
+      bucket.scheduledTaskName = scope.scheduledTaskName;
+    }
+
+    const oldestDay = toDay(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    store.set(this.STORE_KEY, buckets.filter((item) => item.day >= oldestDay));
+
+    if (scope) {
+      const taskUsage = this.addTrackedTotals(this.taskTotals, scope.taskId, usage);
+      const executionUsage = scope.executionId
+        ? this.addTrackedTotals(this.executionTotals, scope.executionId, usage)
+        : undefined;
+      this.emit('eko-task-usage', {
+        taskId: scope.taskId,
+        executionId: scope.executionId,
+        usage: taskUsage,
+        executionUsage
+      });
+    }
+
+    this.checkBudget();
+  }
+
+  private getBuckets(): UsageBucket[] {
+    return store.get(this.STORE_KEY, []) as UsageBucket[];
+  }
+
+  /**
+   * Price of a model, falls back to the provider's '*' entry
+   */
+  private getPrice(provider: string, model: string): ModelPrice | undefined {
+    const prices = this.getPrices();
+    return prices.find((price) => price.provider === provider && price.model === model)
+      || prices.find((price) => price.provider === provider && price.model === '*');
+  }
+
+  private addTrackedTotals(totals: Map<string, UsageTotals>, key: string, usage: UsageTotals): UsageTotals {
+    const current = totals.get(key) || emptyTotals();
+    totals.delete(key);
+    totals.set(key, addTotals(current, usage));
+
+    // Maps keep insertion order, drop least recently updated
+    if (totals.size > MAX_TRACKED_TOTALS) {
+      totals.delete(totals.keys().next().value as string);
+    }
+    return { ...current };
+  }
+
+  /**
+   * Alert once per day/month when spend exceeds a budget limit
+   */
+  private checkBudget(): void {
+    const budget = this.getBudget();
+    if (!budget.dailyLimit && !budget.monthlyLimit) {
+      return;
+    }
+
+    const { today, month } = this.getSummary(1);
+    const day = toDay(new Date());
+    const alerts = store.get(this.ALERTS_KEY, {}) as { daily?: string; monthly?: string };
+
+    if (budget.dailyLimit && today.cost >= budget.dailyLimit && alerts.daily !== day) {
+      alerts.daily = day;
+      this.alert('daily', today.cost, budget.dailyLimit);
+    }
+    if (budget.monthlyLimit && month.cost >= budget.monthlyLimit && alerts.monthly !== day.slice(0, 7)) {
+      alerts.monthly = day.slice(0, 7);
+      this.alert('monthly', month.cost, budget.monthlyLimit);
+    }
+    store.set(this.ALERTS_KEY, alerts);
+  }
+
+  private alert(period: 'daily' | 'monthly', spend: number, limit: number): void {
+    const body = `LLM spend $${spend.toFixed(2)} reached the ${period} budget of $${limit.toFixed(2)}`;
+    console.warn(`[UsageTracker] ${body}`);
+
+    if (Notification.isSupported()) {
+      new Notification({ title: 'Budget exceeded', body }).show();
+    }
+  }
+
+  private emit(channel: string, payload: any): void {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const usageTracker = new UsageTracker();
@@ -3,13 +3,23 @@
  * Responsible for creating and managing system tray icon and menu
  */
 
-import { app, BrowserWindow, Menu, Tray, nativeImage } from 'electron';
+import { app, BrowserWindow, Menu, Tray, nativeImage, type MenuItemConstructorOptions } from 'electron';
 import path from 'node:path';
 import { isDev } from '../utils/constants';
 import { taskScheduler } from '../services/task-scheduler';
+import { taskStatusTracker, type TaskRunStatus } from '../services/task-status-tracker';
 
 let tray: Tray | null = null;
 let updateInterval: NodeJS.Timeout | null = null;
+let removeStatusListener: (() => void) | null = null;
+
+const ACTIVE_STATUS_LABELS: Partial<Record<TaskRunStatus, string>> = {
+  planning: 'Planning',
+  plan_review: 'Plan review',
+  running: 'Running',
+  waiting_human: 'Waiting for input',
+  paused: 'Paused',
+};
 
 /**
  * Create system tray
@@ -45,6 +55,10 @@ export function createTray(mainWindow: BrowserWindow): Tray {
     updateTrayMenu(mainWindow);
   }, 5000);
 
+  // Update immediately when a task status changes
+  removeStatusListener?.();
+  removeStatusListener = taskStatusTracker.onChange(() => updateTrayMenu(mainWindow));
+
   console.log('[Tray] System tray created successfully');
   return tray;
 }
@@ -86,6 +100,7 @@ export function updateTrayMenu(mainWindow: BrowserWindow): void {
       label: `Running: ${schedulerStatus.runningCount}`,
       enabled: false,
     },
+    ...getActiveTaskItems(),
     {
       type: 'separator',
     },
@@ -98,6 +113,28 @@ export function updateTrayMenu(mainWindow: BrowserWindow): void {
   tray.setContextMenu(contextMenu);
 }
 
+/**
+ * Menu items describing active tasks of all windows
+ */
+function getActiveTaskItems(): MenuItemConstructorOptions[] {
+  const activeTasks = taskStatusTracker.getAll().filter((status) => ACTIVE_STATUS_LABELS[status.status]);
+  if (activeTasks.length === 0) {
+    return [];
+  }
+
+  return [
+    { type: 'separator' },
+    ...activeTasks.map((status): MenuItemConstructorOptions => {
+      const name = status.taskName || status.taskId.slice(0, 8);
+      const agent = status.agentName ? ` (${status.agentName})` : '';
+      return {
+        label: `${name}: ${ACTIVE_STATUS_LABELS[status.status]}${agent}, ${Math.floor(status.elapsedMs / 60000)} min`,
+        enabled: false,
+      };
+    }),
+  ];
+}
+
 /**
  * Show main window
  * @param mainWindow Main window instance
@@ -196,6 +233,9 @@ export function destroyTray(): void {
     updateInterval = null;
   }
 
+  removeStatusListener?.();
+  removeStatusListener = null;
+
   if (tray) {
     tray.destroy();
     tray = null;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import { getNextAllowedTime, isWithinActiveHours, validateActiveHours, type ActiveHoursConfig } from './active-hours';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+// 2025-01-03 is a Friday
+const OVERNIGHT: ActiveHoursConfig = { activeWindows: [{ days: [5], start: '22:00', end: '06:00' }], timezone: 'UTC' };
+const OFFICE_HOURS: ActiveHoursConfig = { activeWindows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }], timezone: 'UTC' };
+
+describe('validateActiveHours', () => {
+  it('accepts valid configurations', () => {
+    expect(validateActiveHours(OVERNIGHT)).toBeNull();
+    expect(validateActiveHours({ excludedDates: ['2025-12-25'] })).toBeNull();
+  });
+
+  it('rejects invalid windows and dates', () => {
+    expect(validateActiveHours({ activeWindows: [{ days: [], start: '09:00', end: '17:00' }] })).toMatch('at least one day');
+    expect(validateActiveHours({ activeWindows: [{ days: [7], start: '09:00', end: '17:00' }] })).toMatch('day of week');
+    expect(validateActiveHours({ activeWindows: [{ days: [1], start: '9:00', end: '17:00' }] })).toMatch('Invalid time');
+    expect(validateActiveHours({ activeWindows: [{ days: [1], start: '09:00', end: '09:00' }] })).toMatch('must differ');
+    expect(validateActiveHours({ excludedDates: ['25-12-2025'] })).toMatch('Invalid excluded date');
+  });
+});
+
+describe('isWithinActiveHours', () => {
+  it('allows any time without windows or excluded dates', () => {
+    expect(isWithinActiveHours({}, utc('2025-01-03T03:00:00'))).toBe(true);
+  });
+
+  it('spans midnight for overnight windows', () => {
+    expect(isWithinActiveHours(OVERNIGHT, utc('2025-01-03T21:59:00'))).toBe(false);
+    expect(isWithinActiveHours(OVERNIGHT, utc('2025-01-03T22:00:00'))).toBe(true);
+    expect(isWithinActiveHours(OVERNIGHT, utc('2025-01-04T05:59:00'))).toBe(true);
+    expect(isWithinActiveHours(OVERNIGHT, utc('2025-01-04T06:00:00'))).toBe(false);
+    // Morning part belongs to the window of the previous day only
+    expect(isWithinActiveHours(OVERNIGHT, utc('2025-01-03T05:00:00'))).toBe(false);
+  });
+
+  it('blocks excluded dates in the schedule timezone', () => {
+    const config: ActiveHoursConfig = { excludedDates: ['2025-01-01'], timezone: 'America/New_York' };
+    expect(isWithinActiveHours(config, utc('2025-01-01T03:00:00'))).toBe(true);
+    expect(isWithinActiveHours(config, utc('2025-01-01T12:00:00'))).toBe(false);
+  });
+});
+
+describe('getNextAllowedTime', () => {
+  it('keeps allowed times', () => {
+    const time = utc('2025-01-03T23:30:00');
+    expect(getNextAllowedTime(OVERNIGHT, time)).toEqual(time);
+  });
+
+  it('moves to the next window opening', () => {
+    expect(getNextAllowedTime(OVERNIGHT, utc('2025-01-04T06:00:00'))?.toISOString()).toBe('2025-01-10T22:00:00.000Z');
+    expect(getNextAllowedTime(OFFICE_HOURS, utc('2025-01-03T17:00:00'))?.toISOString()).toBe('2025-01-06T09:00:00.000Z');
+  });
+
+  it('skips excluded dates', () => {
+    const config: ActiveHoursConfig = { ...OFFICE_HOURS, excludedDates: ['2025-01-06'] };
+    expect(getNextAllowedTime(config, utc('2025-01-06T08:00:00'))?.toISOString()).toBe('2025-01-07T09:00:00.000Z');
+  });
+
+  it('returns null when no time is allowed', () => {
+    const config: ActiveHoursConfig = { activeWindows: [{ days: [1], start: '09:00', end: '10:00' }], excludedDates: [], timezone: 'UTC' };
+    const excludedMondays = Array.from({ length: 1100 }, (_, week) => {
+      const monday = new Date(Date.UTC(2025, 0, 6 + week * 7));
+      return monday.toISOString().slice(0, 10);
+    });
+    expect(getNextAllowedTime({ ...config, excludedDates: excludedMondays }, utc('2025-01-06T00:00:00'))).toBeNull();
+  });
+});
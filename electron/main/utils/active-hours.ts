@@ -0,0 +1,184 @@
+/**
+ * Active hours of schedules
+ * Restricts planned execution times to weekly time windows and skips excluded dates (e.g. holidays),
+ * evaluated in the schedule's timezone (local timezone if not given)
+ */
+import { fromWallClock, toWallClock } from "./cron";
+
+/**
+ * Weekly time window in which executions may start
+ * An end time not after the start time means the window ends on the next day
+ */
+export interface ActiveWindow {
+  days: number[];   // Days of week the window starts on, 0 = Sunday
+  start: string;    // HH:mm
+  end: string;      // HH:mm, exclusive
+}
+
+/**
+ * Schedule fields restricting execution times
+ */
+export interface ActiveHoursConfig {
+  activeWindows?: ActiveWindow[];
+  excludedDates?: string[];   // YYYY-MM-DD
+  timezone?: string;
+}
+
+// Upper limit of window jumps when searching for the next allowed time
+const MAX_SEARCH_STEPS = 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Parse HH:mm as minutes since midnight
+ */
+function parseTime(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time: "${time}", expected HH:mm`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Format wall clock date as YYYY-MM-DD
+ */
+function formatWallDate(wall: Date): string {
+  return `${wall.getUTCFullYear()}-${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}`;
+}
+
+/**
+ * Validate active hours configuration
+ * @returns Error message, or null if valid
+ */
+export function validateActiveHours(config: ActiveHoursConfig): string | null {
+  try {
+    for (const activeWindow of config.activeWindows || []) {
+      if (!activeWindow.days || activeWindow.days.length === 0) {
+        return 'Active window must include at least one day';
+      }
+      if (activeWindow.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return 'Invalid day of week in active window';
+      }
+      if (parseTime(activeWindow.start) === parseTime(activeWindow.end)) {
+        return 'Active window start and end time must differ';
+      }
+    }
+  } catch (error: any) {
+    return error.message;
+  }
+
+  const invalidDate = (config.excludedDates || []).find((date) => !DATE_PATTERN.test(date));
+  if (invalidDate) {
+    return `Invalid excluded date: "${invalidDate}", expected YYYY-MM-DD`;
+  }
+
+  return null;
+}
+
+/**
+ * Check if wall clock time lies inside an active window (always true without windows)
+ */
+function isInActiveWindow(windows: ActiveWindow[], wall: Date): boolean {
+  if (windows.length === 0) {
+    return true;
+  }
+
+  const minutes = wall.getUTCHours() * 60 + wall.getUTCMinutes();
+  const day = wall.getUTCDay();
+  const previousDay = (day + 6) % 7;
+
+  return windows.some((activeWindow) => {
+    const start = parseTime(activeWindow.start);
+    const end = parseTime(activeWindow.end);
+
+    if (end > start) {
+      return activeWindow.days.includes(day) && minutes >= start && minutes < end;
+    }
+    // Overnight window: evening part on the start day, morning part on the following day
+    return (activeWindow.days.includes(day) && minutes >= start) || (activeWindow.days.includes(previousDay) && minutes < end);
+  });
+}
+
+/**
+ * Find the next wall clock time an active window opens, strictly after the given wall clock time
+ */
+function getNextWindowStart(windows: ActiveWindow[], wall: Date): Date | null {
+  // Every window opens at least once a week
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(wall.getTime());
+    day.setUTCDate(day.getUTCDate() + offset);
+    day.setUTCHours(0, 0, 0, 0);
+
+    let next: Date | null = null;
+    for (const activeWindow of windows) {
+      if (!activeWindow.days.includes(day.getUTCDay())) {
+        continue;
+      }
+      const start = new Date(day.getTime() + parseTime(activeWindow.start) * 60 * 1000);
+      if (start > wall && (!next || start < next)) {
+        next = start;
+      }
+    }
+
+    if (next) {
+      return next;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if executions may start at a time
+ */
+export function isWithinActiveHours(config: ActiveHoursConfig, time: Date): boolean {
+  const wall = toWallClock(time.getTime(), config.timezone);
+  return !(config.excludedDates || []).includes(formatWallDate(wall))
+    && isInActiveWindow(config.activeWindows || [], wall);
+}
+
+/**
+ * Get the earliest time at or after the given time at which executions may start
+ * @param config Active hours configuration
+ * @param time Candidate execution time
+ * @returns Allowed time, or null if none is found (e.g. all dates excluded)
+ */
+export function getNextAllowedTime(config: ActiveHoursConfig, time: Date): Date | null {
+  const windows = config.activeWindows || [];
+  const excludedDates = config.excludedDates || [];
+  let candidate = time;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const wall = toWallClock(candidate.getTime(), config.timezone);
+    let nextWall: Date | null;
+
+    if (excludedDates.includes(formatWallDate(wall))) {
+      // Excluded date, continue from the following midnight
+      nextWall = new Date(wall.getTime());
+      nextWall.setUTCDate(nextWall.getUTCDate() + 1);
+      nextWall.setUTCHours(0, 0, 0, 0);
+    } else if (!isInActiveWindow(windows, wall)) {
+      nextWall = getNextWindowStart(windows, wall);
+    } else {
+      return candidate;
+    }
+
+    if (!nextWall) {
+      return null;
+    }
+
+    // Wall clock time skipped by DST, try a minute later
+    let instant = fromWallClock(nextWall, config.timezone);
+    while (instant === null) {
+      nextWall.setUTCMinutes(nextWall.getUTCMinutes() + 1);
+      instant = fromWallClock(nextWall, config.timezone);
+    }
+    candidate = new Date(Math.max(instant, candidate.getTime() + 1000));
+  }
+
+  return null;
+}
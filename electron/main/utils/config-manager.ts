@@ -2,12 +2,30 @@ import { config } from "dotenv";
 import path from "node:path";
 import { app } from "electron";
 import fs from "fs";
+import { randomUUID } from "node:crypto";
 import { store } from "./store";
+import { usageTracker } from "../services/usage-tracker";
+import { networkManager } from "../services/network-manager";
+import { scheduleStore, type SchedulerSettings } from "../services/schedule-store";
+import { withRetry } from "./llm-retry";
+import { decryptSecret, encryptSecret, getSecretStorageStatus, isEncryptedSecret, maskSecret } from "./secret-storage";
 
 /**
- * Supported providers
+ * Built-in providers
  */
-export type ProviderType = 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter';
+export type BuiltinProviderType = 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter';
+
+/**
+ * Supported providers, user-defined providers are referenced as 'custom:<id>'
+ */
+export type ProviderType = BuiltinProviderType | `custom:${string}`;
+
+const BUILTIN_PROVIDERS: BuiltinProviderType[] = ['deepseek', 'qwen', 'google', 'anthropic', 'openrouter'];
+
+const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+// Token limit of custom provider models when not configured
+const DEFAULT_CUSTOM_MAX_TOKENS = 8192;
 
 /**
  * Model configuration interface
@@ -19,6 +37,110 @@ export interface ModelConfig {
   baseURL?: string;
 }
 
+/**
+ * User-defined OpenAI-compatible provider (internal gateway or local server such as Ollama, vLLM, LM Studio)
+ */
+export interface CustomProviderConfig {
+  id: string;                         // Referenced as 'custom:<id>'
+  name: string;
+  baseURL: string;                    // OpenAI-compatible API root, e.g. http://localhost:11434/v1
+  apiKey?: string;                    // Local servers usually need none
+  headers?: Record<string, string>;   // Extra request headers
+  models: string[];
+  model?: string;                     // Selected model, first of the list if not set
+  maxTokens?: number;                 // Output token limit of its models
+}
+
+/**
+ * Speech recognition settings, the config of the renderer's speech recognition providers
+ */
+export interface SpeechRecognitionSettings {
+  provider: 'microsoft' | 'xunfei' | 'vosk';
+  apiKey?: string;                        // Microsoft
+  region?: string;
+  appId?: string;                         // Xunfei
+  apiSecret?: string;
+  xfApiKey?: string;
+  modelType?: 'small-cn' | 'standard-cn'; // Vosk
+}
+
+/**
+ * TTS settings, the config of the renderer's TTS players
+ */
+export interface TTSSettings {
+  provider: 'microsoft' | 'native';
+  apiKey?: string;                        // Microsoft
+  region?: string;
+  voiceName?: string;
+  lang?: string;                          // Native
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  maxChunkLength?: number;
+}
+
+/**
+ * Speech recognition and TTS provider settings used by the renderer
+ */
+export interface VoiceSettings {
+  speech?: SpeechRecognitionSettings;
+  tts?: TTSSettings;
+}
+
+// Secret fields of speech recognition and TTS settings
+const VOICE_SECRET_FIELDS = ['apiKey', 'apiSecret', 'xfApiKey'] as const;
+
+/**
+ * Settings bundled by a configuration profile
+ */
+export interface ConfigProfileData {
+  modelConfigs: UserModelConfigs;         // Provider selection, keys, custom providers, fallbacks, slots and routing
+  voiceSettings: VoiceSettings;
+  schedulerSettings: SchedulerSettings;
+}
+
+/**
+ * Named configuration profile (e.g. work gateway, personal keys, demo)
+ */
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  updatedAt: string;    // ISO time of the last snapshot
+  data: ConfigProfileData;
+}
+
+// Identifies exported profile files
+const PROFILE_EXPORT_TYPE = 'ai-browser-config-profile';
+
+/**
+ * Model returned by a provider's model listing endpoint
+ */
+export interface DiscoveredModel {
+  id: string;
+  maxTokens?: number;   // Output token limit when the provider reports it
+}
+
+/**
+ * Fallback LLM, used in order when the selected provider keeps failing
+ */
+export interface FallbackModel {
+  provider: ProviderType;
+  model?: string;   // Provider's configured model if not set
+}
+
+/**
+ * Named LLM that planning and agents can be routed to (e.g. planner, browser, file, vision)
+ */
+export interface LLMSlot extends FallbackModel {
+  name: string;
+}
+
+// Route of workflow planning in the model routing, other routes are agent names
+export const PLANNER_ROUTE = 'Planner';
+
+// Eko LLM name prefix of slots
+const SLOT_LLM_PREFIX = 'slot-';
+
 /**
  * User model configurations stored in electron-store
  */
@@ -45,6 +167,10 @@ export interface UserModelConfigs {
     model?: string;
   };
   selectedProvider?: ProviderType;
+  fallbackChain?: FallbackModel[];
+  customProviders?: CustomProviderConfig[];
+  llmSlots?: LLMSlot[];
+  modelRouting?: Record<string, string>;  // Route (agent name or 'Planner') -> slot name, unrouted ones use the selected provider
 }
 
 /**
@@ -53,6 +179,10 @@ export interface UserModelConfigs {
 export class ConfigManager {
   private static instance: ConfigManager;
   private initialized = false;
+  private readonly DISCOVERED_MODELS_KEY = 'discoveredModels';
+  private readonly VOICE_SETTINGS_KEY = 'voiceSettings';
+  private readonly PROFILES_KEY = 'configProfiles';
+  private readonly ACTIVE_PROFILE_KEY = 'activeConfigProfile';
 
   private constructor() {}
 
@@ -141,26 +271,460 @@ export class ConfigManager {
   }
 
   /**
-   * Get user model configurations from electron-store
+   * Get user model configurations from electron-store, API keys decrypted
    */
   public getUserModelConfigs(): UserModelConfigs {
-    return store.get('modelConfigs', {}) as UserModelConfigs;
+    return this.mapApiKeys(store.get('modelConfigs', {}) as UserModelConfigs, decryptSecret);
   }
 
   /**
-   * Save user model configurations to electron-store
+   * Save user model configurations to electron-store, API keys encrypted
    */
   public saveUserModelConfigs(configs: UserModelConfigs): void {
-    store.set('modelConfigs', configs);
+    store.set('modelConfigs', this.mapApiKeys(configs, encryptSecret));
     console.log('[ConfigManager] User model configurations saved');
   }
 
+  /**
+   * Get user model configurations for the renderer, API keys masked
+   */
+  public getMaskedUserModelConfigs(): UserModelConfigs {
+    return this.mapApiKeys(this.getUserModelConfigs(), maskSecret);
+  }
+
+  /**
+   * Update user model configurations from the renderer
+   * API keys are write-only (setApiKey) and custom providers have their own methods, both keep their stored values
+   */
+  public updateUserModelConfigs(configs: UserModelConfigs): void {
+    const current = this.getUserModelConfigs();
+    const updated: UserModelConfigs = { ...configs, customProviders: current.customProviders };
+    const providers = updated as Record<BuiltinProviderType, { apiKey?: string } | undefined>;
+
+    BUILTIN_PROVIDERS.forEach((provider) => {
+      if (providers[provider] || current[provider]?.apiKey) {
+        providers[provider] = { ...providers[provider], apiKey: current[provider]?.apiKey };
+      }
+    });
+    this.saveUserModelConfigs(updated);
+  }
+
+  /**
+   * Set or remove (empty key) API key of a provider
+   */
+  public setApiKey(provider: ProviderType, apiKey: string): void {
+    const userConfigs = this.getUserModelConfigs();
+    const key = apiKey.trim() || undefined;
+
+    if (this.isCustomProvider(provider)) {
+      const custom = this.getCustomProvider(provider);
+      if (!custom) {
+        throw new Error(`Unknown provider: ${provider}`);
+      }
+      userConfigs.customProviders = (userConfigs.customProviders || []).map((item) =>
+        item.id === custom.id ? { ...item, apiKey: key } : item
+      );
+    } else {
+      userConfigs[provider] = { ...userConfigs[provider], apiKey: key };
+    }
+    this.saveUserModelConfigs(userConfigs);
+  }
+
+  /**
+   * Encrypt API keys stored as plain text by earlier versions (requires app ready)
+   */
+  public migrateApiKeys(): void {
+    const stored = store.get('modelConfigs', {}) as UserModelConfigs;
+    let plainKeys = 0;
+    this.mapApiKeys(stored, (apiKey) => {
+      if (!isEncryptedSecret(apiKey)) {
+        plainKeys++;
+      }
+      return apiKey;
+    });
+
+    if (plainKeys > 0 && getSecretStorageStatus().encrypted) {
+      this.saveUserModelConfigs(this.getUserModelConfigs());
+      console.log(`[ConfigManager] Migrated ${plainKeys} stored API keys to secure storage`);
+    }
+  }
+
+  /**
+   * Get speech recognition and TTS settings, secrets decrypted
+   */
+  public getVoiceSettings(): VoiceSettings {
+    return this.mapVoiceSecrets(store.get(this.VOICE_SETTINGS_KEY, {}) as VoiceSettings, decryptSecret);
+  }
+
+  /**
+   * Save speech recognition and TTS settings, secrets encrypted
+   */
+  public saveVoiceSettings(settings: VoiceSettings): void {
+    store.set(this.VOICE_SETTINGS_KEY, this.mapVoiceSecrets(settings, encryptSecret));
+  }
+
+  /**
+   * Get configuration profiles (secrets masked) and the active one
+   */
+  public getProfiles(): { profiles: ConfigProfile[]; activeProfileId?: string } {
+    const profiles = Object.values(this.getStoredProfiles())
+      .map((profile) => ({ ...profile, data: this.mapProfileSecrets(profile.data, (secret) => maskSecret(decryptSecret(secret))) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { profiles, activeProfileId: store.get(this.ACTIVE_PROFILE_KEY) as string | undefined };
+  }
+
+  /**
+   * Save the current configuration as a profile and make it active
+   * @param id Profile to overwrite, a new one is created if not set
+   */
+  public saveProfile(name: string, id?: string): ConfigProfile {
+    const trimmed = name?.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+
+    const profiles = this.getStoredProfiles();
+    const duplicate = Object.values(profiles).find((profile) => profile.name === trimmed && profile.id !== id);
+    if (duplicate) {
+      throw new Error(`Profile "${trimmed}" already exists`);
+    }
+
+    const profile: ConfigProfile = {
+      id: id && profiles[id] ? id : randomUUID(),
+      name: trimmed,
+      updatedAt: new Date().toISOString(),
+      data: this.getCurrentProfileData(),
+    };
+    this.saveStoredProfile(profile);
+    store.set(this.ACTIVE_PROFILE_KEY, profile.id);
+    console.log(`[ConfigManager] Saved configuration profile: ${profile.name}`);
+    return profile;
+  }
+
+  /**
+   * Switch to a profile, changes made to the active profile are kept in it
+   * API keys and voice secrets the profile has none for (e.g. imported without secrets) keep their current value
+   * Scheduler settings are returned for the scheduler to apply, EkoServices need a config reload
+   * and the renderer re-initializes speech recognition and TTS in use
+   */
+  public switchProfile(id: string): ConfigProfile {
+    const profiles = this.getStoredProfiles();
+    const target = profiles[id];
+    if (!target) {
+      throw new Error('Profile not found');
+    }
+
+    const activeId = store.get(this.ACTIVE_PROFILE_KEY) as string | undefined;
+    const active = activeId ? profiles[activeId] : undefined;
+    if (active && active.id !== id) {
+      this.saveStoredProfile({ ...active, updatedAt: new Date().toISOString(), data: this.getCurrentProfileData() });
+    }
+
+    const stored = this.decryptProfileData(target.data);
+    const data = {
+      ...stored,
+      modelConfigs: this.mergeMissingApiKeys(stored.modelConfigs, this.getUserModelConfigs()),
+      voiceSettings: this.mergeMissingVoiceSecrets(stored.voiceSettings || {}, this.getVoiceSettings()),
+    };
+    this.saveUserModelConfigs(data.modelConfigs);
+    this.saveVoiceSettings(data.voiceSettings);
+    store.set(this.ACTIVE_PROFILE_KEY, id);
+    console.log(`[ConfigManager] Switched to configuration profile: ${target.name}`);
+    return { ...target, data };
+  }
+
+  /**
+   * Delete profile, the current configuration stays as it is
+   */
+  public deleteProfile(id: string): void {
+    const profiles = this.getStoredProfiles();
+    delete profiles[id];
+    store.set(this.PROFILES_KEY, profiles);
+    if (store.get(this.ACTIVE_PROFILE_KEY) === id) {
+      store.delete(this.ACTIVE_PROFILE_KEY);
+    }
+  }
+
+  /**
+   * Export profile as JSON
+   * @param includeSecrets Include API keys in plain text, otherwise they are left out
+   */
+  public exportProfile(id: string, includeSecrets: boolean): string {
+    const profile = this.getStoredProfiles()[id];
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    // Export the live configuration of the active profile
+    const data = store.get(this.ACTIVE_PROFILE_KEY) === id ? this.getCurrentProfileData() : this.decryptProfileData(profile.data);
+    return JSON.stringify({
+      type: PROFILE_EXPORT_TYPE,
+      version: 1,
+      name: profile.name,
+      exportedAt: new Date().toISOString(),
+      secretsIncluded: includeSecrets,
+      data: includeSecrets ? data : this.mapProfileSecrets(data, () => ''),
+    }, null, 2);
+  }
+
+  /**
+   * Import profile from exported JSON, a name taken by another profile gets a suffix
+   */
+  public importProfile(json: string): ConfigProfile {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    if (parsed?.type !== PROFILE_EXPORT_TYPE || !parsed.data || typeof parsed.data !== 'object') {
+      throw new Error('File is not an exported configuration profile');
+    }
+
+    const profiles = this.getStoredProfiles();
+    const names = new Set(Object.values(profiles).map((profile) => profile.name));
+    const baseName = String(parsed.name || 'Imported profile').trim();
+    let name = baseName;
+    for (let index = 2; names.has(name); index++) {
+      name = `${baseName} (${index})`;
+    }
+
+    const data: ConfigProfileData = {
+      modelConfigs: parsed.data.modelConfigs || {},
+      voiceSettings: parsed.data.voiceSettings || {},
+      schedulerSettings: { ...scheduleStore.getSettings(), ...parsed.data.schedulerSettings },
+    };
+    const profile: ConfigProfile = { id: randomUUID(), name, updatedAt: new Date().toISOString(), data };
+    this.saveStoredProfile(profile);
+    console.log(`[ConfigManager] Imported configuration profile: ${name}`);
+    return { ...profile, data: this.mapProfileSecrets(data, maskSecret) };
+  }
+
+  /**
+   * Snapshot of the current configuration, secrets decrypted
+   */
+  private getCurrentProfileData(): ConfigProfileData {
+    return {
+      modelConfigs: this.getUserModelConfigs(),
+      voiceSettings: this.getVoiceSettings(),
+      schedulerSettings: scheduleStore.getSettings(),
+    };
+  }
+
+  /**
+   * Get stored profiles by ID, secrets encrypted
+   */
+  private getStoredProfiles(): Record<string, ConfigProfile> {
+    return store.get(this.PROFILES_KEY, {}) as Record<string, ConfigProfile>;
+  }
+
+  /**
+   * Store profile with its secrets encrypted
+   */
+  private saveStoredProfile(profile: ConfigProfile): void {
+    store.set(this.PROFILES_KEY, {
+      ...this.getStoredProfiles(),
+      [profile.id]: { ...profile, data: this.mapProfileSecrets(profile.data, encryptSecret) },
+    });
+  }
+
+  /**
+   * Copy of stored profile data with its secrets decrypted
+   */
+  private decryptProfileData(data: ConfigProfileData): ConfigProfileData {
+    return this.mapProfileSecrets(data, decryptSecret);
+  }
+
+  /**
+   * Copy of profile data with a transform applied to every secret
+   */
+  private mapProfileSecrets(data: ConfigProfileData, transform: (secret: string) => string): ConfigProfileData {
+    return {
+      ...data,
+      modelConfigs: this.mapApiKeys(data.modelConfigs || {}, transform),
+      voiceSettings: this.mapVoiceSecrets(data.voiceSettings || {}, transform),
+    };
+  }
+
+  /**
+   * Copy of voice settings with a transform applied to every secret
+   */
+  private mapVoiceSecrets(settings: VoiceSettings, transform: (secret: string) => string): VoiceSettings {
+    const mapConfig = <T extends SpeechRecognitionSettings | TTSSettings>(config?: T): T | undefined => {
+      if (!config) {
+        return config;
+      }
+      const mapped: Record<string, any> = { ...config };
+      VOICE_SECRET_FIELDS.forEach((field) => {
+        if (typeof mapped[field] === 'string' && mapped[field]) {
+          mapped[field] = transform(mapped[field]);
+        }
+      });
+      return mapped as T;
+    };
+    return { ...settings, speech: mapConfig(settings.speech), tts: mapConfig(settings.tts) };
+  }
+
+  /**
+   * Copy of voice settings with empty secrets filled from the current settings of the same provider
+   */
+  private mergeMissingVoiceSecrets(settings: VoiceSettings, current: VoiceSettings): VoiceSettings {
+    const mergeConfig = <T extends SpeechRecognitionSettings | TTSSettings>(config?: T, currentConfig?: T): T | undefined => {
+      if (!config || !currentConfig || config.provider !== currentConfig.provider) {
+        return config;
+      }
+      const merged: Record<string, any> = { ...config };
+      const currentValues: Record<string, any> = currentConfig;
+      VOICE_SECRET_FIELDS.forEach((field) => {
+        if (currentValues[field] && !merged[field]) {
+          merged[field] = currentValues[field];
+        }
+      });
+      return merged as T;
+    };
+    return { ...settings, speech: mergeConfig(settings.speech, current.speech), tts: mergeConfig(settings.tts, current.tts) };
+  }
+
+  /**
+   * Copy of configurations with empty API keys filled from the current configurations
+   * Custom providers are matched by ID
+   */
+  private mergeMissingApiKeys(configs: UserModelConfigs, current: UserModelConfigs): UserModelConfigs {
+    const merged: UserModelConfigs = { ...configs };
+    const providers = merged as Record<BuiltinProviderType, { apiKey?: string } | undefined>;
+    const currentProviders = current as Record<BuiltinProviderType, { apiKey?: string } | undefined>;
+
+    BUILTIN_PROVIDERS.forEach((provider) => {
+      const currentKey = currentProviders[provider]?.apiKey;
+      if (currentKey && !providers[provider]?.apiKey) {
+        providers[provider] = { ...providers[provider], apiKey: currentKey };
+      }
+    });
+    if (configs.customProviders) {
+      merged.customProviders = configs.customProviders.map((custom) => {
+        const currentKey = current.customProviders?.find((existing) => existing.id === custom.id)?.apiKey;
+        return currentKey && !custom.apiKey ? { ...custom, apiKey: currentKey } : custom;
+      });
+    }
+    return merged;
+  }
+
+  /**
+   * Copy of configurations with a transform applied to every API key
+   */
+  private mapApiKeys(configs: UserModelConfigs, transform: (apiKey: string) => string): UserModelConfigs {
+    const mapped: UserModelConfigs = { ...configs };
+    const providers = mapped as Record<BuiltinProviderType, { apiKey?: string } | undefined>;
+
+    BUILTIN_PROVIDERS.forEach((provider) => {
+      const apiKey = providers[provider]?.apiKey;
+      if (apiKey) {
+        providers[provider] = { ...providers[provider], apiKey: transform(apiKey) };
+      }
+    });
+    if (configs.customProviders) {
+      mapped.customProviders = configs.customProviders.map((custom) =>
+        custom.apiKey ? { ...custom, apiKey: transform(custom.apiKey) } : custom
+      );
+    }
+    return mapped;
+  }
+
+  /**
+   * Check if a provider is user-defined
+   */
+  public isCustomProvider(provider: ProviderType): provider is `custom:${string}` {
+    return provider.startsWith(CUSTOM_PROVIDER_PREFIX);
+  }
+
+  /**
+   * Get user-defined provider by reference ('custom:<id>')
+   */
+  public getCustomProvider(provider: ProviderType): CustomProviderConfig | undefined {
+    if (!this.isCustomProvider(provider)) {
+      return undefined;
+    }
+    const id = provider.slice(CUSTOM_PROVIDER_PREFIX.length);
+    return (this.getUserModelConfigs().customProviders || []).find((custom) => custom.id === id);
+  }
+
+  /**
+   * Add or update user-defined provider, its API key is kept (set with setApiKey)
+   * @returns Reference of the saved provider ('custom:<id>')
+   */
+  public saveCustomProvider(provider: CustomProviderConfig): ProviderType {
+    const name = provider.name?.trim();
+    const baseURL = provider.baseURL?.trim().replace(/\/+$/, '');
+    const models = (provider.models || []).map((model) => model.trim()).filter(Boolean);
+
+    if (!name) {
+      throw new Error('Provider name is required');
+    }
+    if (!/^https?:\/\/.+/.test(baseURL || '')) {
+      throw new Error('Base URL must start with http:// or https://');
+    }
+    if (models.length === 0) {
+      throw new Error('At least one model is required');
+    }
+    if (provider.maxTokens !== undefined && !(provider.maxTokens > 0)) {
+      throw new Error('Token limit must be a positive number');
+    }
+
+    const userConfigs = this.getUserModelConfigs();
+    const customProviders = userConfigs.customProviders || [];
+    const existing = customProviders.find((custom) => custom.id === provider.id);
+    const saved: CustomProviderConfig = {
+      ...provider,
+      apiKey: existing?.apiKey,
+      id: provider.id || randomUUID().slice(0, 8),
+      name,
+      baseURL,
+      models,
+      model: provider.model && models.includes(provider.model) ? provider.model : models[0],
+    };
+
+    const index = customProviders.findIndex((custom) => custom.id === saved.id);
+    if (index >= 0) {
+      customProviders[index] = saved;
+    } else {
+      customProviders.push(saved);
+    }
+    this.saveUserModelConfigs({ ...userConfigs, customProviders });
+    return `${CUSTOM_PROVIDER_PREFIX}${saved.id}`;
+  }
+
+  /**
+   * Delete user-defined provider, selection falls back to the default provider and it leaves the fallback chain and slots
+   */
+  public deleteCustomProvider(id: string): void {
+    const userConfigs = this.getUserModelConfigs();
+    const reference: ProviderType = `${CUSTOM_PROVIDER_PREFIX}${id}`;
+
+    this.saveUserModelConfigs({
+      ...userConfigs,
+      customProviders: (userConfigs.customProviders || []).filter((custom) => custom.id !== id),
+      fallbackChain: (userConfigs.fallbackChain || []).filter((fallback) => fallback.provider !== reference),
+      llmSlots: (userConfigs.llmSlots || []).filter((slot) => slot.provider !== reference),
+      selectedProvider: userConfigs.selectedProvider === reference ? undefined : userConfigs.selectedProvider,
+    });
+  }
+
   /**
    * Get final model configuration with priority: user config > env > default
    */
   public getModelConfig(provider: ProviderType): ModelConfig | null {
     const userConfigs = this.getUserModelConfigs();
 
+    if (this.isCustomProvider(provider)) {
+      const custom = this.getCustomProvider(provider);
+      return custom ? {
+        provider: 'openai-compatible',
+        model: custom.model || custom.models[0],
+        apiKey: custom.apiKey || '',
+        baseURL: custom.baseURL
+      } : null;
+    }
+
     switch (provider) {
       case 'deepseek':
         return {
@@ -208,6 +772,10 @@ export class ConfigManager {
    * Get API key source info (for UI display)
    */
   public getApiKeySource(provider: ProviderType): 'user' | 'env' | 'none' {
+    if (this.isCustomProvider(provider)) {
+      return this.getCustomProvider(provider)?.apiKey ? 'user' : 'none';
+    }
+
     const userConfigs = this.getUserModelConfigs();
 
     // Check user config first (highest priority)
@@ -216,7 +784,7 @@ export class ConfigManager {
     }
 
     // Then check environment variables
-    const envKeys: Record<ProviderType, string> = {
+    const envKeys: Record<BuiltinProviderType, string> = {
       deepseek: 'DEEPSEEK_API_KEY',
       qwen: 'QWEN_API_KEY',
       google: 'GOOGLE_API_KEY',
@@ -237,7 +805,12 @@ export class ConfigManager {
    */
   public getSelectedProvider(): ProviderType {
     const userConfigs = this.getUserModelConfigs();
-    return userConfigs.selectedProvider || 'deepseek';
+    const provider = userConfigs.selectedProvider || 'deepseek';
+    // Deleted custom provider
+    if (this.isCustomProvider(provider) && !this.getCustomProvider(provider)) {
+      return 'deepseek';
+    }
+    return provider;
   }
 
   /**
@@ -249,10 +822,47 @@ export class ConfigManager {
     this.saveUserModelConfigs(userConfigs);
   }
 
+  /**
+   * Get models fetched from providers' model listing endpoints, by provider
+   */
+  public getDiscoveredModels(): Record<string, DiscoveredModel[]> {
+    return store.get(this.DISCOVERED_MODELS_KEY, {}) as Record<string, DiscoveredModel[]>;
+  }
+
+  /**
+   * Save models fetched from a provider, their token limits take precedence over the built-in table
+   */
+  public saveDiscoveredModels(provider: ProviderType, models: DiscoveredModel[]): void {
+    store.set(this.DISCOVERED_MODELS_KEY, { ...this.getDiscoveredModels(), [provider]: models });
+    console.log(`[ConfigManager] Saved ${models.length} discovered models of ${provider}`);
+  }
+
+  /**
+   * Get Eko LLM configuration of a single provider (connection tests)
+   */
+  public getProviderLLM(provider: ProviderType): any {
+    return this.buildLLM(provider);
+  }
+
   /**
    * Get maxTokens for specific model
+   * Priority: custom provider setting > limit reported by the provider > built-in table > default
    */
   private getMaxTokensForModel(provider: ProviderType, model: string): number {
+    const custom = this.getCustomProvider(provider);
+    if (custom?.maxTokens) {
+      return custom.maxTokens;
+    }
+
+    const discovered = this.getDiscoveredModels()[provider]?.find((item) => item.id === model);
+    if (discovered?.maxTokens) {
+      return discovered.maxTokens;
+    }
+
+    if (this.isCustomProvider(provider)) {
+      return DEFAULT_CUSTOM_MAX_TOKENS;
+    }
+
     // Define maxTokens for different models
     const tokenLimits: Record<string, number> = {
       // Deepseek
@@ -288,28 +898,122 @@ export class ConfigManager {
     return tokenLimits[model] || (provider === 'openrouter' ? 8000 : 8192);
   }
 
+  /**
+   * Get ordered fallback chain (selected provider excluded)
+   */
+  public getFallbackChain(): FallbackModel[] {
+    return this.getUserModelConfigs().fallbackChain || [];
+  }
+
+  /**
+   * Get routing of planning and agents to LLM slots
+   */
+  public getModelRouting(): Record<string, string> {
+    return this.getUserModelConfigs().modelRouting || {};
+  }
+
   /**
    * Get LLMs configuration for Eko framework
-   * Returns configured LLMs object based on selected provider
+   * Returns the selected provider as default, followed by the configured fallbacks ('fallback-1', 'fallback-2', ...)
+   * in the order Eko should fail over to them, and the routed LLM slots ('slot-<name>')
+   * @param override Model replacing the selected provider and the routing (scheduled task runs)
    */
-  public getLLMsConfig(): any {
-    const selectedProvider = this.getSelectedProvider();
-    const providerConfig = this.getModelConfig(selectedProvider);
+  public getLLMsConfig(override?: FallbackModel): any {
+    let selectedProvider = this.getSelectedProvider();
+    let defaultLLM = override ? this.buildLLM(override.provider, override.model) : null;
 
-    if (!providerConfig) {
-      console.error(`[ConfigManager] No config found for provider: ${selectedProvider}`);
+    if (defaultLLM) {
+      selectedProvider = override!.provider;
+    } else {
+      if (override) {
+        console.warn(`[ConfigManager] Model override ${override.provider}/${override.model || ''} unavailable, using selected provider`);
+      }
+      defaultLLM = this.buildLLM(selectedProvider);
+    }
+
+    if (!defaultLLM) {
       return { default: null };
     }
 
+    const llms: Record<string, any> = { default: defaultLLM };
+    const used = new Set([`${selectedProvider}/${defaultLLM.model}`]);
+
+    this.getFallbackChain().forEach((fallback) => {
+      const llm = this.buildLLM(fallback.provider, fallback.model, true);
+      if (!llm) {
+        return;
+      }
+
+      const key = `${fallback.provider}/${llm.model}`;
+      if (used.has(key)) {
+        return;
+      }
+      // Local servers of custom providers need no key
+      if (!llm.apiKey && !this.isCustomProvider(fallback.provider)) {
+        console.warn(`[ConfigManager] Skipping fallback ${fallback.provider}/${llm.model}: no API key configured`);
+        return;
+      }
+
+      used.add(key);
+      llms[`fallback-${Object.keys(llms).length}`] = llm;
+    });
+
+    console.log(`[ConfigManager] LLM chain: ${Object.values(llms).map((llm) => llm.model).join(' -> ')}`);
+
+    if (!override) {
+      const routedSlots = new Set(Object.values(this.getModelRouting()));
+      (this.getUserModelConfigs().llmSlots || [])
+        .filter((slot) => routedSlots.has(slot.name))
+        .forEach((slot) => {
+          const llm = this.buildLLM(slot.provider, slot.model);
+          if (!llm || (!llm.apiKey && !this.isCustomProvider(slot.provider))) {
+            console.warn(`[ConfigManager] Skipping LLM slot ${slot.name}: provider ${slot.provider} not configured`);
+            return;
+          }
+          llms[`${SLOT_LLM_PREFIX}${slot.name}`] = llm;
+          console.log(`[ConfigManager] LLM slot ${slot.name}: ${llm.model}`);
+        });
+    }
+
+    return llms;
+  }
+
+  /**
+   * Get the LLM names a route (agent name or 'Planner') fails over along
+   * Routed slot first, followed by the default chain
+   * @param route Route to look up, just the default chain if not set
+   */
+  public getRouteChain(llms: Record<string, any>, route?: string): string[] {
+    const chain = Object.keys(llms).filter((name) => !name.startsWith(SLOT_LLM_PREFIX));
+    const slot = route ? this.getModelRouting()[route] : undefined;
+    const slotName = `${SLOT_LLM_PREFIX}${slot}`;
+    return slot && llms[slotName] ? [slotName, ...chain] : chain;
+  }
+
+  /**
+   * Build Eko LLM configuration of a provider
+   * @param modelOverride Model to use instead of the provider's configured one
+   * @param fallback Whether the LLM is a fallback of the selected provider
+   */
+  private buildLLM(provider: ProviderType, modelOverride?: string, fallback: boolean = false): any {
+    const providerConfig = this.getModelConfig(provider);
+
+    if (!providerConfig) {
+      console.error(`[ConfigManager] No config found for provider: ${provider}`);
+      return null;
+    }
+    if (modelOverride) {
+      providerConfig.model = modelOverride;
+    }
+
     const logInfo = (msg: string, ...args: any[]) => console.log(`[ConfigManager] ${msg}`, ...args);
-    const maxTokens = this.getMaxTokensForModel(selectedProvider, providerConfig.model);
+    const maxTokens = this.getMaxTokensForModel(provider, providerConfig.model);
 
-    // Build default LLM based on selected provider
-    let defaultLLM: any;
+    let llm: any;
 
-    switch (selectedProvider) {
+    switch (provider) {
       case 'deepseek':
-        defaultLLM = {
+        llm = {
           provider: providerConfig.provider,
           model: providerConfig.model,
           apiKey: providerConfig.apiKey || "",
@@ -323,16 +1027,16 @@ export class ConfigManager {
             const body = JSON.parse((options?.body as string) || '{}');
             body.thinking = { type: "disabled" };
             logInfo('Deepseek request:', providerConfig.model);
-            return fetch(url, {
+            return networkManager.fetch(url, this.includeStreamUsage({
               ...options,
               body: JSON.stringify(body)
-            });
+            }));
           }
         };
         break;
 
       case 'qwen':
-        defaultLLM = {
+        llm = {
           provider: providerConfig.provider,
           model: providerConfig.model,
           apiKey: providerConfig.apiKey || "",
@@ -344,13 +1048,13 @@ export class ConfigManager {
           },
           fetch: (url: string, options?: any) => {
             logInfo('Qwen request:', providerConfig.model);
-            return fetch(url, options);
+            return networkManager.fetch(url, this.includeStreamUsage(options));
           }
         };
         break;
 
       case 'google':
-        defaultLLM = {
+        llm = {
           provider: providerConfig.provider,
           model: providerConfig.model,
           apiKey: providerConfig.apiKey || "",
@@ -362,7 +1066,7 @@ export class ConfigManager {
         break;
 
       case 'anthropic':
-        defaultLLM = {
+        llm = {
           provider: providerConfig.provider,
           model: providerConfig.model,
           apiKey: providerConfig.apiKey || "",
@@ -374,7 +1078,7 @@ export class ConfigManager {
         break;
 
       case 'openrouter':
-        defaultLLM = {
+        llm = {
           provider: providerConfig.provider,
           model: providerConfig.model,
           apiKey: providerConfig.apiKey || "",
@@ -384,16 +1088,53 @@ export class ConfigManager {
         };
         break;
 
-      default:
-        console.error(`[ConfigManager] Unsupported provider: ${selectedProvider}`);
-        return { default: null };
+      default: {
+        const custom = this.getCustomProvider(provider);
+        if (!custom) {
+          console.error(`[ConfigManager] Unsupported provider: ${provider}`);
+          return null;
+        }
+        llm = {
+          provider: providerConfig.provider,
+          model: providerConfig.model,
+          apiKey: providerConfig.apiKey || "",
+          config: {
+            baseURL: providerConfig.baseURL,
+            name: custom.name,
+            headers: custom.headers,
+            maxTokens
+          },
+          fetch: (url: string, options?: any) => networkManager.fetch(url, this.includeStreamUsage(options))
+        };
+        break;
+      }
     }
 
-    logInfo(`Using provider: ${selectedProvider}, model: ${providerConfig.model}, maxTokens: ${maxTokens}`);
+    // Go through the configured proxy, retry transient failures, then record token usage and the model that answered
+    const retryFetch = withRetry(llm.fetch || networkManager.fetch, `${provider}/${providerConfig.model}`);
+    llm.fetch = usageTracker.wrapFetch(provider, providerConfig.model, retryFetch, fallback);
 
-    // Return LLMs configuration
-    return {
-      default: defaultLLM,
-    };
+    logInfo(`Using provider: ${provider}, model: ${providerConfig.model}, maxTokens: ${maxTokens}`);
+    return llm;
+  }
+
+  /**
+   * Ask an OpenAI-compatible API to end a streamed response with a usage chunk
+   * Without stream_options.include_usage the stream carries no token counts and the usage tracker records nothing
+   */
+  private includeStreamUsage(options?: any): any {
+    if (typeof options?.body !== 'string') {
+      return options;
+    }
+    try {
+      const body = JSON.parse(options.body);
+      if (!body?.stream) {
+        return options;
+      }
+      body.stream_options = { ...body.stream_options, include_usage: true };
+      return { ...options, body: JSON.stringify(body) };
+    } catch {
+      return options;
+    }
   }
 }
\ No newline at end of file
@@ -1,4 +1,14 @@
 import { app } from 'electron';
+import path from 'node:path';
 
 export const isDev = !(global.process.env.NODE_ENV === 'production' || app.isPackaged);
 export const DEFAULT_PORT = 5173;
+
+/**
+ * FileAgent working directory
+ */
+export function getFileAgentPath(): string {
+  return app.isPackaged
+    ? path.join(app.getPath('userData'), 'static')  // Packaged path
+    : path.join(process.cwd(), 'public', 'static');    // Development environment path
+}
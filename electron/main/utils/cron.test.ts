@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import { getNextCronTime, getNextCronTimes, parseCronExpression, validateCronExpression } from './cron';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+const isoTimes = (times: Date[]) => times.map((time) => time.toISOString());
+
+describe('parseCronExpression', () => {
+  it('expands ranges, steps, lists and names', () => {
+    const schedule = parseCronExpression('0/20 9-11 * JAN,MAR MON-WED');
+    expect([...schedule.minutes]).toEqual([0, 20, 40]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.months]).toEqual([1, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCronExpression('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  it('rejects invalid expressions with a readable message', () => {
+    expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+    expect(validateCronExpression('* * *')).not.toBeNull();
+    expect(validateCronExpression('*/0 * * * *')).not.toBeNull();
+    expect(validateCronExpression('@daily')).toBeNull();
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('returns the next fire time strictly after the given time', () => {
+    expect(getNextCronTime('*/15 * * * *', utc('2025-01-01T10:07:30'), 'UTC')?.toISOString()).toBe('2025-01-01T10:15:00.000Z');
+    expect(getNextCronTime('*/15 * * * *', utc('2025-01-01T10:15:00'), 'UTC')?.toISOString()).toBe('2025-01-01T10:30:00.000Z');
+  });
+
+  it('supports a seconds field', () => {
+    expect(getNextCronTime('30 0 12 * * *', utc('2025-01-01T12:00:30'), 'UTC')?.toISOString()).toBe('2025-01-02T12:00:30.000Z');
+  });
+
+  it('fires on Sunday for day of week 7', () => {
+    // 2025-01-01 is a Wednesday
+    expect(getNextCronTime('0 9 * * 7', utc('2025-01-01T00:00:00'), 'UTC')?.toISOString()).toBe('2025-01-05T09:00:00.000Z');
+  });
+
+  it('fires when either day field matches if both are restricted', () => {
+    // Friday the 3rd and 10th, Monday the 13th
+    const times = getNextCronTimes('0 0 13 * FRI', 3, utc('2025-01-01T00:00:00'), 'UTC');
+    expect(isoTimes(times)).toEqual(['2025-01-03T00:00:00.000Z', '2025-01-10T00:00:00.000Z', '2025-01-13T00:00:00.000Z']);
+  });
+
+  it('requires the day of month alone when day of week is unrestricted', () => {
+    expect(getNextCronTime('0 0 13 * *', utc('2025-01-01T00:00:00'), 'UTC')?.toISOString()).toBe('2025-01-13T00:00:00.000Z');
+  });
+
+  it('treats a stepped wildcard day field as unrestricted', () => {
+    // Every other day of month that is also a Monday, not every other day or every Monday
+    const times = getNextCronTimes('0 0 */2 * MON', 3, utc('2025-01-01T00:00:00'), 'UTC');
+    expect(isoTimes(times)).toEqual(['2025-01-13T00:00:00.000Z', '2025-01-27T00:00:00.000Z', '2025-02-03T00:00:00.000Z']);
+  });
+
+  it('skips months without the day', () => {
+    expect(getNextCronTime('0 0 31 * *', utc('2025-02-01T00:00:00'), 'UTC')?.toISOString()).toBe('2025-03-31T00:00:00.000Z');
+  });
+
+  it('returns null for expressions that never fire', () => {
+    expect(getNextCronTime('0 0 30 2 *', utc('2025-01-01T00:00:00'), 'UTC')).toBeNull();
+  });
+
+  it('evaluates the expression in the given timezone', () => {
+    expect(getNextCronTime('0 9 * * *', utc('2025-01-01T00:00:00'), 'America/New_York')?.toISOString()).toBe('2025-01-01T14:00:00.000Z');
+    expect(getNextCronTime('0 9 * * *', utc('2025-07-01T00:00:00'), 'America/New_York')?.toISOString()).toBe('2025-07-01T13:00:00.000Z');
+  });
+
+  it('rejects unknown timezones', () => {
+    expect(() => getNextCronTime('0 9 * * *', utc('2025-01-01T00:00:00'), 'Mars/Olympus_Mons')).toThrow('Invalid timezone');
+  });
+
+  describe('daylight saving time', () => {
+    // New York springs forward on 2025-03-09 at 02:00 EST (07:00Z) and falls back on 2025-11-02 at 02:00 EDT (06:00Z)
+
+    it('fires a time skipped by spring forward when clocks jump', () => {
+      const times = getNextCronTimes('30 2 * * *', 2, utc('2025-03-09T05:00:00'), 'America/New_York');
+      expect(isoTimes(times)).toEqual(['2025-03-09T07:00:00.000Z', '2025-03-10T06:30:00.000Z']);
+    });
+
+    it('fires once for a whole skipped hour', () => {
+      const times = getNextCronTimes('*/10 2 * * *', 2, utc('2025-03-09T06:55:00'), 'America/New_York');
+      expect(isoTimes(times)).toEqual(['2025-03-09T07:00:00.000Z', '2025-03-10T06:00:00.000Z']);
+    });
+
+    it('does not fire twice for an existing time right after the gap', () => {
+      const times = getNextCronTimes('0 * * * *', 3, utc('2025-03-09T06:30:00'), 'America/New_York');
+      expect(isoTimes(times)).toEqual(['2025-03-09T07:00:00.000Z', '2025-03-09T08:00:00.000Z', '2025-03-09T09:00:00.000Z']);
+    });
+
+    it('fires a time repeated by fall back only once', () => {
+      const times = getNextCronTimes('30 1 * * *', 2, utc('2025-11-02T04:00:00'), 'America/New_York');
+      expect(isoTimes(times)).toEqual(['2025-11-02T05:30:00.000Z', '2025-11-03T06:30:00.000Z']);
+    });
+  });
+});
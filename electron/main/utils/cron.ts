@@ -0,0 +1,397 @@
+/**
+ * Cron expression parser and next fire time calculator
+ * Supports 5-field (minute hour day month weekday) and 6-field (second minute hour day month weekday) expressions,
+ * ranges, steps, lists, month/weekday names and @-shortcuts, evaluated in an optional IANA timezone
+ * Like Vixie cron, a fire time skipped when clocks spring forward (e.g. 02:30) fires once as clocks jump,
+ * a fire time repeated when clocks fall back fires only on its first occurrence
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  expression: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;      // 1-12
+  daysOfWeek: Set<number>;  // 0-6, 0 = Sunday
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6,
+};
+
+const FIELDS: Record<'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek', CronField> = {
+  second: { name: 'second', min: 0, max: 59 },
+  minute: { name: 'minute', min: 0, max: 59 },
+  hour: { name: 'hour', min: 0, max: 23 },
+  dayOfMonth: { name: 'day of month', min: 1, max: 31 },
+  month: { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as an alias for Sunday and folded to 0 after parsing
+  dayOfWeek: { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+};
+
+const SHORTCUTS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Give up searching after this many years (e.g. "0 0 30 2 *" never fires)
+const MAX_SEARCH_YEARS = 5;
+
+// Longest DST gap searched for its end (transitions skip up to a whole day)
+const MAX_GAP_MINUTES = 24 * 60;
+
+/**
+ * Parse a single value (number or name) of a field
+ */
+function parseValue(raw: string, field: CronField): number {
+  const upper = raw.toUpperCase();
+  if (field.names && upper in field.names) {
+    return field.names[upper];
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${field.name} value: "${raw}"`);
+  }
+
+  const value = parseInt(raw, 10);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value ${value} out of range (${field.min}-${field.max})`);
+  }
+  return value;
+}
+
+/**
+ * Parse one cron field (e.g. "1-5", "0/15", "MON,WED,FRI") into a set of values
+ */
+function parseField(raw: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    if (!part) {
+      throw new Error(`Empty list item in ${field.name} field`);
+    }
+
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      throw new Error(`Invalid step in ${field.name} field: "${part}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`Invalid step in ${field.name} field: "${part}"`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*' || rangePart === '?') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to, ...extra] = rangePart.split('-');
+      if (extra.length > 0 || !from || !to) {
+        throw new Error(`Invalid range in ${field.name} field: "${part}"`);
+      }
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid range in ${field.name} field: "${part}" (start is after end)`);
+      }
+    } else {
+      start = parseValue(rangePart, field);
+      // "5/15" means "starting at 5, every 15"
+      end = stepPart !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Check if a day field restricts days, a field starting with "*" (plain or stepped) does not, as in Vixie cron
+ */
+function isRestricted(part: string): boolean {
+  return !part.startsWith('*') && part !== '?';
+}
+
+/**
+ * Parse cron expression
+ * @throws Error with a human readable message if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = (expression || '').trim();
+  if (!trimmed) {
+    throw new Error('Cron expression is empty');
+  }
+
+  const normalized = trimmed.startsWith('@') ? SHORTCUTS[trimmed.toLowerCase()] : trimmed;
+  if (!normalized) {
+    throw new Error(`Unknown cron shortcut: "${trimmed}"`);
+  }
+
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new Error(`Cron expression must have 5 or 6 fields, got ${parts.length}`);
+  }
+
+  // 5-field expressions fire at second 0
+  const [secondPart, minutePart, hourPart, dayOfMonthPart, monthPart, dayOfWeekPart] =
+    parts.length === 6 ? parts : ['0', ...parts];
+
+  const daysOfWeek = parseField(dayOfWeekPart, FIELDS.dayOfWeek);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    seconds: parseField(secondPart, FIELDS.second),
+    minutes: parseField(minutePart, FIELDS.minute),
+    hours: parseField(hourPart, FIELDS.hour),
+    daysOfMonth: parseField(dayOfMonthPart, FIELDS.dayOfMonth),
+    months: parseField(monthPart, FIELDS.month),
+    daysOfWeek,
+    dayOfMonthRestricted: isRestricted(dayOfMonthPart),
+    dayOfWeekRestricted: isRestricted(dayOfWeekPart),
+  };
+}
+
+/**
+ * Validate cron expression
+ * @returns Error message, or null if the expression is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Check if timezone is a valid IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get wall clock time of an instant in timezone (local timezone if not given)
+ * Wall clock is represented as a Date whose UTC fields hold the local fields, so UTC setters normalize overflow
+ */
+export function toWallClock(instant: number, timezone?: string): Date {
+  if (!timezone) {
+    const date = new Date(instant);
+    return new Date(Date.UTC(
+      date.getFullYear(), date.getMonth(), date.getDate(),
+      date.getHours(), date.getMinutes(), date.getSeconds()
+    ));
+  }
+
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      fields[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return new Date(Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second));
+}
+
+/**
+ * Convert wall clock time in timezone to instant
+ * @returns Instant, or null if the wall clock time does not exist (skipped by a DST transition)
+ */
+export function fromWallClock(wall: Date, timezone?: string): number | null {
+  let instant: number;
+
+  if (!timezone) {
+    instant = new Date(
+      wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(),
+      wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds()
+    ).getTime();
+  } else {
+    const guess = wall.getTime();
+    const firstOffset = toWallClock(guess, timezone).getTime() - guess;
+    instant = guess - firstOffset;
+    const secondOffset = toWallClock(instant, timezone).getTime() - instant;
+    if (secondOffset !== firstOffset) {
+      instant = guess - secondOffset;
+    }
+  }
+
+  return toWallClock(instant, timezone).getTime() === wall.getTime() ? instant : null;
+}
+
+/**
+ * Get the instant clocks jumped to over a DST gap, i.e. the first existing wall clock minute after a skipped one
+ */
+function getGapEnd(wall: Date, timezone?: string): number | null {
+  const candidate = new Date(wall.getTime());
+  for (let minute = 0; minute < MAX_GAP_MINUTES; minute++) {
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+    const instant = fromWallClock(candidate, timezone);
+    if (instant !== null) {
+      return instant;
+    }
+  }
+  return null;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonthMatch = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeekMatch = schedule.daysOfWeek.has(wall.getUTCDay());
+
+  // Standard cron semantics: if both day fields are restricted, either one matching is enough
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+/**
+ * Calculate next fire time strictly after a given time
+ * @param schedule Parsed schedule or cron expression
+ * @param from Time to search from (exclusive)
+ * @param timezone IANA timezone name, local timezone if not given
+ * @returns Next fire time, or null if the expression never fires
+ */
+export function getNextCronTime(schedule: CronSchedule | string, from: Date = new Date(), timezone?: string): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  if (timezone && !isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: "${timezone}"`);
+  }
+
+  // Start from the next whole second
+  const start = Math.floor(from.getTime() / 1000) * 1000 + 1000;
+  const wall = toWallClock(start, timezone);
+  const maxYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (wall.getUTCFullYear() <= maxYear) {
+    if (!parsed.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (wall.getUTCDate() > daysInMonth(wall.getUTCFullYear(), wall.getUTCMonth() + 1) || !matchesDay(parsed, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!parsed.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!parsed.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    if (!parsed.seconds.has(wall.getUTCSeconds())) {
+      wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+      continue;
+    }
+
+    // Wall clock time skipped by DST fires when clocks jump, once for the whole gap as later matches resolve to the same instant
+    const instant = fromWallClock(wall, timezone) ?? getGapEnd(wall, timezone);
+    if (instant !== null && instant > from.getTime()) {
+      return new Date(instant);
+    }
+
+    // Already fired for this DST gap, or repeated before "from" when clocks fall back
+    wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Calculate the next N fire times
+ * @param schedule Parsed schedule or cron expression
+ * @param count Number of fire times to calculate
+ * @param from Time to search from (exclusive)
+ * @param timezone IANA timezone name, local timezone if not given
+ */
+export function getNextCronTimes(
+  schedule: CronSchedule | string,
+  count: number,
+  from: Date = new Date(),
+  timezone?: string
+): Date[] {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+  const times: Date[] = [];
+  let cursor = from;
+
+  while (times.length < count) {
+    const next = getNextCronTime(parsed, cursor, timezone);
+    if (!next) break;
+    times.push(next);
+    cursor = next;
+  }
+
+  return times;
+}
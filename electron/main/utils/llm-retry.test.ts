@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { isTransientStatus, withRetry, type RetryOptions } from './llm-retry';
+
+const OPTIONS: RetryOptions = { retries: 2, baseDelayMs: 5, maxDelayMs: 20 };
+
+/**
+ * Fetch returning the given results in order, errors are thrown
+ */
+function sequenceFetch(results: Array<Response | Error>) {
+  let call = 0;
+  return jest.fn(async (_input: any, _init?: any) => {
+    const result = results[Math.min(call++, results.length - 1)];
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  });
+}
+
+/**
+ * Delays passed to setTimeout while waiting for retries
+ */
+function retryDelays(spy: jest.SpiedFunction<typeof setTimeout>): number[] {
+  return spy.mock.calls.map((call) => call[1] as number);
+}
+
+describe('isTransientStatus', () => {
+  it('retries rate limits, timeouts and server errors only', () => {
+    expect([408, 429, 500, 503].every(isTransientStatus)).toBe(true);
+    expect([200, 400, 401, 404].some(isTransientStatus)).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  let setTimeoutSpy: jest.SpiedFunction<typeof setTimeout>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setTimeoutSpy = jest.spyOn(globalThis, 'setTimeout');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('retries transient statuses with exponential backoff', async () => {
+    const baseFetch = sequenceFetch([new Response('', { status: 503 }), new Response('', { status: 429 }), new Response('ok')]);
+    const response = await withRetry(baseFetch as typeof fetch, 'test', OPTIONS)('https://llm.example.com');
+
+    expect(response.status).toBe(200);
+    expect(baseFetch).toHaveBeenCalledTimes(3);
+    expect(retryDelays(setTimeoutSpy)).toEqual([5, 10]);
+  });
+
+  it('returns other failures right away', async () => {
+    const baseFetch = sequenceFetch([new Response('', { status: 401 })]);
+    const response = await withRetry(baseFetch as typeof fetch, 'test', OPTIONS)('https://llm.example.com');
+
+    expect(response.status).toBe(401);
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the last transient response when out of retries', async () => {
+    const baseFetch = sequenceFetch([new Response('', { status: 500 })]);
+    const response = await withRetry(baseFetch as typeof fetch, 'test', OPTIONS)('https://llm.example.com');
+
+    expect(response.status).toBe(500);
+    expect(baseFetch).toHaveBeenCalledTimes(OPTIONS.retries + 1);
+  });
+
+  it('honours Retry-After up to the maximum delay', async () => {
+    const baseFetch = sequenceFetch([
+      new Response('', { status: 429, headers: { 'Retry-After': '0' } }),
+      new Response('', { status: 429, headers: { 'Retry-After': '120' } }),
+      new Response('ok'),
+    ]);
+    await withRetry(baseFetch as typeof fetch, 'test', OPTIONS)('https://llm.example.com');
+
+    expect(retryDelays(setTimeoutSpy)).toEqual([0, OPTIONS.maxDelayMs]);
+  });
+
+  it('retries network failures and throws once out of retries', async () => {
+    const recovering = sequenceFetch([new TypeError('fetch failed'), new Response('ok')]);
+    expect((await withRetry(recovering as typeof fetch, 'test', OPTIONS)('https://llm.example.com')).status).toBe(200);
+
+    const failing = sequenceFetch([new TypeError('fetch failed')]);
+    await expect(withRetry(failing as typeof fetch, 'test', OPTIONS)('https://llm.example.com')).rejects.toThrow('fetch failed');
+    expect(failing).toHaveBeenCalledTimes(OPTIONS.retries + 1);
+  });
+
+  it('does not retry aborted requests', async () => {
+    const abortError = Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+    const baseFetch = sequenceFetch([abortError]);
+
+    await expect(withRetry(baseFetch as typeof fetch, 'test', OPTIONS)('https://llm.example.com')).rejects.toBe(abortError);
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when the request is aborted during backoff', async () => {
+    const controller = new AbortController();
+    const baseFetch = sequenceFetch([new Response('', { status: 503 })]);
+    const request = withRetry(baseFetch as typeof fetch, 'test', { ...OPTIONS, baseDelayMs: 10_000, maxDelayMs: 10_000 })(
+      'https://llm.example.com',
+      { signal: controller.signal }
+    );
+
+    controller.abort(new Error('stopped'));
+    await expect(request).rejects.toThrow('stopped');
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+});
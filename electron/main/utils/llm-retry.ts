@@ -0,0 +1,94 @@
+/**
+ * Retry of transient LLM request failures
+ * Rate limits (429), server errors (5xx) and network failures are retried with exponential backoff,
+ * other failures are returned right away so Eko fails over to the next LLM of the chain
+ */
+
+export interface RetryOptions {
+  retries: number;          // Retries after the first attempt
+  baseDelayMs: number;      // Delay before the first retry, doubled for each following one
+  maxDelayMs: number;       // Upper bound of a single delay (also caps Retry-After)
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+};
+
+/**
+ * Check if a response status is worth retrying
+ */
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Delay before a retry, honours the server's Retry-After header (seconds or HTTP date)
+ */
+function getRetryDelay(attempt: number, options: RetryOptions, response?: Response): number {
+  const retryAfter = response?.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+    if (delay >= 0) {
+      return Math.min(delay, options.maxDelayMs);
+    }
+  }
+  return Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+}
+
+/**
+ * Wait for a delay, rejects when the request is aborted meanwhile
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wrap a fetch function with retries of transient failures
+ * @param label Name used in logs (provider/model)
+ */
+export function withRetry(baseFetch: typeof fetch, label: string, options: RetryOptions = DEFAULT_RETRY_OPTIONS): typeof fetch {
+  return (async (input: any, init?: any) => {
+    const signal: AbortSignal | undefined = init?.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      try {
+        response = await baseFetch(input, init);
+      } catch (error: any) {
+        // Aborted by Eko (user abort or stream timeout) or out of retries
+        if (error?.name === 'AbortError' || signal?.aborted || attempt >= options.retries) {
+          throw error;
+        }
+        console.warn(`[LLMRetry] ${label} request failed (${error?.message || error}), retry ${attempt + 1}/${options.retries}`);
+      }
+
+      if (response) {
+        if (!isTransientStatus(response.status) || attempt >= options.retries) {
+          return response;
+        }
+        console.warn(`[LLMRetry] ${label} responded ${response.status}, retry ${attempt + 1}/${options.retries}`);
+        // Release the connection of the discarded response
+        response.body?.cancel().catch(() => {});
+      }
+
+      await sleep(getRetryDelay(attempt, options, response), signal);
+    }
+  }) as typeof fetch;
+}
@@ -0,0 +1,84 @@
+import { safeStorage } from "electron";
+
+/**
+ * Encryption of secrets (API keys) stored in electron-store
+ * Uses Electron safeStorage: Keychain on macOS, DPAPI on Windows, the Secret Service or KWallet keyring on Linux.
+ * Linux without a keyring falls back to Electron's hardcoded-password backend (basic_text), which only obfuscates,
+ * and when encryption is not available at all secrets are stored as plain text. Both are reported by getSecretStorageStatus.
+ */
+
+// Prefix of encrypted values, values without it are plain text (stored before encryption or without safeStorage)
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+export interface SecretStorageStatus {
+  encrypted: boolean;   // Secrets are encrypted at all
+  osProtected: boolean; // Encryption key is held by the OS (false for Linux basic_text fallback)
+  backend: string;      // safeStorage backend (Linux) or platform
+}
+
+let warned = false;
+
+/**
+ * Get how secrets are protected on this machine (only valid after app is ready)
+ */
+export function getSecretStorageStatus(): SecretStorageStatus {
+  const encrypted = safeStorage.isEncryptionAvailable();
+  if (process.platform !== 'linux') {
+    return { encrypted, osProtected: encrypted, backend: process.platform };
+  }
+  const backend = encrypted ? safeStorage.getSelectedStorageBackend() : 'unknown';
+  return { encrypted, osProtected: encrypted && backend !== 'basic_text' && backend !== 'unknown', backend };
+}
+
+/**
+ * Check if a stored value is encrypted
+ */
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt secret for storage, stored as plain text when encryption is not available
+ */
+export function encryptSecret(value: string): string {
+  if (!value || isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const status = getSecretStorageStatus();
+  if (!status.osProtected && !warned) {
+    warned = true;
+    console.warn(status.encrypted
+      ? `[SecretStorage] No OS keyring available (${status.backend}), API keys are only obfuscated`
+      : '[SecretStorage] Encryption not available, API keys are stored as plain text');
+  }
+  if (!status.encrypted) {
+    return value;
+  }
+  return ENCRYPTED_PREFIX + safeStorage.encryptString(value).toString('base64');
+}
+
+/**
+ * Decrypt stored secret, empty when it can no longer be decrypted (e.g. keyring reset)
+ */
+export function decryptSecret(value: string): string {
+  if (!value || !isEncryptedSecret(value)) {
+    return value;
+  }
+  try {
+    return safeStorage.decryptString(Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64'));
+  } catch (error) {
+    console.error('[SecretStorage] Failed to decrypt secret, it needs to be entered again:', error);
+    return '';
+  }
+}
+
+/**
+ * Mask secret for display, e.g. sk-…f3a9
+ */
+export function maskSecret(value: string): string {
+  if (!value) {
+    return value;
+  }
+  return value.length > 12 ? `${value.slice(0, 3)}…${value.slice(-4)}` : '••••';
+}
@@ -0,0 +1,85 @@
+/**
+ * Scheduled task variables
+ * Step content may contain {{name}} placeholders, filled from task variable definitions,
+ * values given at execution time and built-in variables
+ */
+
+/**
+ * Variable definition of a scheduled task
+ */
+export interface TaskVariable {
+  name: string;
+  type: 'string' | 'number' | 'date';
+  defaultValue?: string;
+  description?: string;
+}
+
+// Built-in variables, always available
+export const BUILTIN_VARIABLE_NAMES = ['today', 'now', 'lastRunAt'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format date as YYYY-MM-DD in local time
+ */
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Format date as YYYY-MM-DD HH:mm in local time
+ */
+function formatDateTime(date: Date): string {
+  return `${formatDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Resolve values of all variables of an execution
+ * @param definitions Task variable definitions
+ * @param overrides Values given at execution time (take priority over defaults)
+ * @param lastRunAt Time of the previous execution
+ */
+export function resolveVariables(
+  definitions: TaskVariable[] | undefined,
+  overrides: Record<string, string> | undefined,
+  lastRunAt?: Date
+): Record<string, string> {
+  const now = new Date();
+  const values: Record<string, string> = {
+    today: formatDate(now),
+    now: formatDateTime(now),
+    lastRunAt: lastRunAt ? formatDateTime(lastRunAt) : '',
+  };
+
+  (definitions || []).forEach((variable) => {
+    values[variable.name] = variable.defaultValue ?? '';
+  });
+
+  Object.entries(overrides || {}).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) {
+      values[name] = String(value);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Replace {{name}} placeholders, unknown placeholders are kept as is
+ */
+export function applyVariables(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match;
+  });
+}
+
+/**
+ * Get user variables (without built-in ones), e.g. for execution records
+ */
+export function getUserVariables(values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([name]) => !BUILTIN_VARIABLE_NAMES.includes(name))
+  );
+}
@@ -38,15 +38,42 @@ const api = {
   ekoExecute: (taskId: string) => ipcRenderer.invoke('eko:execute', taskId),
   ekoGetTaskStatus: (taskId: string) => ipcRenderer.invoke('eko:getTaskStatus', taskId),
   ekoCancelTask: (taskId: string) => ipcRenderer.invoke('eko:cancel-task', taskId),
+  ekoPauseTask: (taskId: string) => ipcRenderer.invoke('eko:pause-task', taskId),
+  ekoResumeTask: (taskId: string) => ipcRenderer.invoke('eko:resume-task', taskId),
+  ekoRestartWithNewConfig: (taskId: string) => ipcRenderer.invoke('eko:restart-with-new-config', taskId),
   onEkoStreamMessage: (callback: (message: any) => void) => ipcRenderer.on('eko-stream-message', (_, message) => callback(message)),
+  // Agent requests for human confirmation, input, selection or help, answered with invoke('eko:human-response', ...)
+  onEkoHumanRequest: (callback: (request: any) => void) => ipcRenderer.on('eko-human-request', (_, request) => callback(request)),
+  onEkoHumanResolved: (callback: (event: any) => void) => ipcRenderer.on('eko-human-resolved', (_, event) => callback(event)),
+  // Task status changes of all windows
+  onEkoTaskStatus: (callback: (status: any) => void) => ipcRenderer.on('eko-task-status', (_, status) => callback(status)),
+  // Token usage totals of a task, after each LLM request
+  onEkoTaskUsage: (callback: (event: any) => void) => ipcRenderer.on('eko-task-usage', (_, event) => callback(event)),
 
   // Model configuration APIs
   getUserModelConfigs: () => ipcRenderer.invoke('config:get-user-configs'),
   saveUserModelConfigs: (configs: any) => ipcRenderer.invoke('config:save-user-configs', configs),
-  getModelConfig: (provider: 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter') => ipcRenderer.invoke('config:get-model-config', provider),
-  getApiKeySource: (provider: 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter') => ipcRenderer.invoke('config:get-api-key-source', provider),
+  getModelConfig: (provider: string) => ipcRenderer.invoke('config:get-model-config', provider),
+  getApiKeySource: (provider: string) => ipcRenderer.invoke('config:get-api-key-source', provider),
   getSelectedProvider: () => ipcRenderer.invoke('config:get-selected-provider'),
-  setSelectedProvider: (provider: 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter') => ipcRenderer.invoke('config:set-selected-provider', provider),
+  setSelectedProvider: (provider: string) => ipcRenderer.invoke('config:set-selected-provider', provider),
+  setApiKey: (provider: string, apiKey: string) => ipcRenderer.invoke('config:set-api-key', provider, apiKey),
+  getSecretStorageStatus: () => ipcRenderer.invoke('config:get-secret-storage-status'),
+  testConnection: (provider: string) => ipcRenderer.invoke('config:test-connection', provider),
+  fetchModels: (provider: string) => ipcRenderer.invoke('config:fetch-models', provider),
+  getDiscoveredModels: () => ipcRenderer.invoke('config:get-discovered-models'),
+  getVoiceSettings: () => ipcRenderer.invoke('config:get-voice-settings'),
+  saveVoiceSettings: (settings: any) => ipcRenderer.invoke('config:save-voice-settings', settings),
+  getNetworkSettings: () => ipcRenderer.invoke('config:get-network-settings'),
+  saveNetworkSettings: (settings: any) => ipcRenderer.invoke('config:save-network-settings', settings),
+  getConfigProfiles: () => ipcRenderer.invoke('config:get-profiles'),
+  saveConfigProfile: (name: string, id?: string) => ipcRenderer.invoke('config:save-profile', name, id),
+  switchConfigProfile: (id: string) => ipcRenderer.invoke('config:switch-profile', id),
+  deleteConfigProfile: (id: string) => ipcRenderer.invoke('config:delete-profile', id),
+  exportConfigProfile: (id: string, includeSecrets: boolean) => ipcRenderer.invoke('config:export-profile', id, includeSecrets),
+  importConfigProfile: () => ipcRenderer.invoke('config:import-profile'),
+  saveCustomProvider: (provider: any) => ipcRenderer.invoke('config:save-custom-provider', provider),
+  deleteCustomProvider: (id: string) => ipcRenderer.invoke('config:delete-custom-provider', id),
 
   // Detail view control APIs
   setDetailViewVisible: (visible: boolean) => ipcRenderer.invoke('set-detail-view-visible', visible),
@@ -68,6 +95,10 @@ const api = {
   onTaskExecutionComplete: (callback: (event: any) => void) =>
     ipcRenderer.on('task-execution-complete', (_, event) => callback(event)),
 
+  // Scheduled task step status listener (step-by-step execution mode)
+  onTaskStepUpdate: (callback: (event: any) => void) =>
+    ipcRenderer.on('task-step-update', (_, event) => callback(event)),
+
   // Open history panel listener
   onOpenHistoryPanel: (callback: (event: any) => void) =>
     ipcRenderer.on('open-history-panel', (_, event) => callback(event)),
@@ -0,0 +1,24 @@
+// @ts-check
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/electron/**/*.test.ts', '<rootDir>/src/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    // Type checking is left to tsc, tests are only transpiled
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        isolatedModules: true,
+        module: 'commonjs',
+        target: 'es2022',
+        esModuleInterop: true,
+        verbatimModuleSyntax: false,
+      },
+    }],
+  },
+};
+
+module.exports = config;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Select, Button, Dropdown, Modal, Input, App } from 'antd';
+import { SaveOutlined, MoreOutlined } from '@ant-design/icons';
+import type { MenuProps } from 'antd';
+import type { ConfigProfile } from '@/type';
+import { reconfigureTTS } from '@/lib/ttsPlayer';
+import { reconfigureSpeechRecognition } from '@/lib/speechRecognition';
+
+interface ConfigProfileBarProps {
+  onSwitched: () => void;   // Called after the configuration changed (switch or import)
+}
+
+/**
+ * Named configuration profiles: switch at runtime, save, import and export as JSON
+ */
+export const ConfigProfileBar: React.FC<ConfigProfileBarProps> = ({ onSwitched }) => {
+  const { message, modal } = App.useApp();
+  const [profiles, setProfiles] = useState<ConfigProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | undefined>();
+  const [saveAsOpen, setSaveAsOpen] = useState(false);
+  const [profileName, setProfileName] = useState('');
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      const result = await window.api.getConfigProfiles();
+      setProfiles(result.profiles);
+      setActiveProfileId(result.activeProfileId);
+    } catch (error) {
+      console.error('Failed to load configuration profiles:', error);
+    }
+  };
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+
+  const handleSwitch = async (id: string) => {
+    const result = await window.api.switchConfigProfile(id);
+    if (!result.success) {
+      message.error(result.message || 'Failed to switch profile');
+      return;
+    }
+    message.success(`Switched to ${profiles.find((profile) => profile.id === id)?.name}`);
+    await loadProfiles();
+    await applyVoiceSettings();
+    onSwitched();
+  };
+
+  // Speech recognition and TTS run in this window, re-initialize them with the profile's settings
+  const applyVoiceSettings = async () => {
+    try {
+      const settings = await window.api.getVoiceSettings();
+      reconfigureTTS(settings.tts);
+      await reconfigureSpeechRecognition(settings.speech);
+    } catch (error) {
+      console.error('Failed to apply voice settings:', error);
+      message.warning('Speech settings of the profile could not be applied');
+    }
+  };
+
+  const handleSave = async (name: string, id?: string) => {
+    const result = await window.api.saveConfigProfile(name, id);
+    if (!result.success) {
+      message.error(result.message || 'Failed to save profile');
+      return false;
+    }
+    message.success(`Profile ${name} saved`);
+    await loadProfiles();
+    return true;
+  };
+
+  const handleSaveAs = async () => {
+    if (await handleSave(profileName)) {
+      setSaveAsOpen(false);
+      setProfileName('');
+    }
+  };
+
+  const handleExport = async (includeSecrets: boolean) => {
+    if (!activeProfile) return;
+    const result = await window.api.exportConfigProfile(activeProfile.id, includeSecrets);
+    if (result.success) {
+      message.success(`Exported to ${result.filePath}`);
+    } else if (!result.canceled) {
+      message.error(result.message || 'Failed to export profile');
+    }
+  };
+
+  const handleImport = async () => {
+    const result = await window.api.importConfigProfile();
+    if (result.success) {
+      message.success(`Imported profile ${result.name}`);
+      await loadProfiles();
+    } else if (!result.canceled) {
+      message.error(result.message || 'Failed to import profile');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) return;
+    modal.confirm({
+      title: `Delete profile ${activeProfile.name}?`,
+      content: 'The current settings stay as they are.',
+      okText: 'Delete',
+      okType: 'danger',
+      cancelText: 'Cancel',
+      onOk: async () => {
+        await window.api.deleteConfigProfile(activeProfile.id);
+        await loadProfiles();
+      },
+    });
+  };
+
+  const menuItems: MenuProps['items'] = [
+    { key: 'save-as', label: 'Save as new profile...', onClick: () => setSaveAsOpen(true) },
+    { key: 'import', label: 'Import...', onClick: handleImport },
+    { type: 'divider' },
+    { key: 'export', label: 'Export with API keys', disabled: !activeProfile, onClick: () => handleExport(true) },
+    { key: 'export-public', label: 'Export without API keys', disabled: !activeProfile, onClick: () => handleExport(false) },
+    { type: 'divider' },
+    { key: 'delete', label: 'Delete', danger: true, disabled: !activeProfile, onClick: handleDelete },
+  ];
+
+  return (
+    <div className="flex items-center gap-2 mb-3 text-sm">
+      <span className="text-gray-400 whitespace-nowrap">Profile:</span>
+      <Select
+        value={activeProfileId}
+        onChange={handleSwitch}
+        placeholder="Unsaved configuration"
+        className="flex-1 custom-select"
+        size="small"
+        options={profiles.map((profile) => ({ value: profile.id, label: profile.name }))}
+      />
+      <Button
+        icon={<SaveOutlined />}
+        onClick={() => (activeProfile ? handleSave(activeProfile.name, activeProfile.id) : setSaveAsOpen(true))}
+        size="small"
+        type="text"
+        className="text-gray-300 hover:text-white"
+        title={activeProfile ? `Save current settings to ${activeProfile.name}` : 'Save current settings as a profile'}
+      />
+      <Dropdown menu={{ items: menuItems }} trigger={['click']}>
+        <Button icon={<MoreOutlined />} size="small" type="text" className="text-gray-300 hover:text-white" />
+      </Dropdown>
+
+      <Modal
+        title="Save as new profile"
+        open={saveAsOpen}
+        onOk={handleSaveAs}
+        onCancel={() => setSaveAsOpen(false)}
+        okText="Save"
+        cancelText="Cancel"
+        okButtonProps={{ disabled: !profileName.trim() }}
+        destroyOnClose
+      >
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          onPressEnter={handleSaveAs}
+          placeholder="Work gateway"
+          autoFocus
+        />
+      </Modal>
+    </div>
+  );
+};
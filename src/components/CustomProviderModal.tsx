@@ -0,0 +1,146 @@
+import React, { useEffect } from 'react';
+import { Modal, Form, Input, InputNumber, Select, Button, Popconfirm, App } from 'antd';
+import type { CustomProviderConfig, ProviderType } from '@/type';
+
+interface CustomProviderModalProps {
+  open: boolean;
+  provider?: CustomProviderConfig;  // Provider to edit, a new one is added if not set
+  onClose: () => void;
+  onSaved: (provider: ProviderType) => void;
+  onDeleted: (id: string) => void;
+}
+
+interface CustomProviderForm {
+  name: string;
+  baseURL: string;
+  apiKey?: string;     // New key, the stored one is kept when empty
+  headers?: string;   // One "Name: value" per line
+  models: string[];
+  maxTokens?: number;
+}
+
+// Parse "Name: value" lines into a header map
+const parseHeaders = (text?: string): Record<string, string> | undefined => {
+  const entries = (text || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.includes(':'))
+    .map((line) => {
+      const index = line.indexOf(':');
+      return [line.slice(0, index).trim(), line.slice(index + 1).trim()] as [string, string];
+    })
+    .filter(([name]) => name);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+/**
+ * Add or edit a user-defined OpenAI-compatible provider (internal gateway, Ollama, vLLM, LM Studio, ...)
+ */
+export const CustomProviderModal: React.FC<CustomProviderModalProps> = ({ open, provider, onClose, onSaved, onDeleted }) => {
+  const { message } = App.useApp();
+  const [form] = Form.useForm<CustomProviderForm>();
+
+  useEffect(() => {
+    if (!open) return;
+    form.setFieldsValue({
+      name: provider?.name || '',
+      baseURL: provider?.baseURL || '',
+      apiKey: '',
+      headers: formatHeaders(provider?.headers),
+      models: provider?.models || [],
+      maxTokens: provider?.maxTokens,
+    });
+  }, [open, provider]);
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const result = await window.api.saveCustomProvider({
+      ...provider,
+      name: values.name,
+      baseURL: values.baseURL,
+      apiKey: undefined,
+      headers: parseHeaders(values.headers),
+      models: values.models,
+      maxTokens: values.maxTokens || undefined,
+    });
+
+    if (!result.success || !result.provider) {
+      message.error(result.message || 'Failed to save provider');
+      return;
+    }
+    // API keys are write-only
+    if (values.apiKey?.trim()) {
+      await window.api.setApiKey(result.provider, values.apiKey.trim());
+    }
+    message.success('Provider saved');
+    onSaved(result.provider);
+  };
+
+  const handleDelete = async () => {
+    if (!provider) return;
+    await window.api.deleteCustomProvider(provider.id);
+    message.success('Provider deleted');
+    onDeleted(provider.id);
+  };
+
+  return (
+    <Modal
+      title={provider ? `Edit ${provider.name}` : 'Add OpenAI-compatible provider'}
+      open={open}
+      onCancel={onClose}
+      destroyOnClose
+      footer={[
+        provider && (
+          <Popconfirm
+            key="delete"
+            title="Delete this provider?"
+            okText="Delete"
+            okType="danger"
+            cancelText="Cancel"
+            onConfirm={handleDelete}
+          >
+            <Button danger className="float-left">Delete</Button>
+          </Popconfirm>
+        ),
+        <Button key="cancel" onClick={onClose}>Cancel</Button>,
+        <Button key="save" type="primary" onClick={handleSave}>Save</Button>,
+      ]}
+    >
+      <Form form={form} layout="vertical" requiredMark={false}>
+        <Form.Item name="name" label="Name" rules={[{ required: true, whitespace: true, message: 'Enter a name' }]}>
+          <Input placeholder="Local Ollama" />
+        </Form.Item>
+        <Form.Item
+          name="baseURL"
+          label="Base URL"
+          rules={[{ required: true, pattern: /^https?:\/\/.+/, message: 'Enter an http:// or https:// URL' }]}
+        >
+          <Input placeholder="http://localhost:11434/v1" />
+        </Form.Item>
+        <Form.Item
+          name="apiKey"
+          label="API Key"
+          extra={provider?.apiKey ? 'Leave empty to keep the saved key' : 'Leave empty for servers without authentication'}
+        >
+          <Input.Password placeholder={provider?.apiKey ? `Saved (${provider.apiKey})` : 'Optional'} />
+        </Form.Item>
+        <Form.Item name="headers" label="Extra headers" extra="One per line, e.g. X-Team: research">
+          <Input.TextArea autoSize={{ minRows: 1, maxRows: 4 }} placeholder="Name: value" />
+        </Form.Item>
+        <Form.Item
+          name="models"
+          label="Models"
+          rules={[{ required: true, type: 'array', min: 1, message: 'Add at least one model' }]}
+        >
+          <Select mode="tags" open={false} tokenSeparators={[',', ' ']} placeholder="llama3.1:8b, qwen2.5:14b" />
+        </Form.Item>
+        <Form.Item name="maxTokens" label="Output token limit" extra="Defaults to 8192">
+          <InputNumber min={1} precision={0} className="!w-40" />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -1,8 +1,10 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { Button } from 'antd'
-import { HistoryOutlined } from '@ant-design/icons'
+import { HistoryOutlined, BarChartOutlined, GlobalOutlined } from '@ant-design/icons'
 import { useRouter } from 'next/router'
 import { HistoryPanel } from '@/components/HistoryPanel'
+import { UsageDashboard } from '@/components/UsageDashboard'
+import { NetworkSettingsModal } from '@/components/NetworkSettingsModal'
 import { useHistoryStore } from '@/stores/historyStore'
 import { useScheduledTaskStore } from '@/stores/scheduled-task-store'
 import { ScheduledTaskIcon } from '@/icons/scheduled-task-icons'
@@ -15,8 +17,10 @@ export default function Header() {
   const isTaskDetailMode = !!taskId && !!executionId
 
   // Using Zustand store, as simple as Pinia!
-  const { showHistoryPanel, setShowHistoryPanel, selectHistoryTask, terminateCurrentTaskFn } = useHistoryStore()
+  const { showHistoryPanel, setShowHistoryPanel, selectHistoryTask, resumeHistoryTask, terminateCurrentTaskFn } = useHistoryStore()
   const { setShowListPanel } = useScheduledTaskStore()
+  const [showUsage, setShowUsage] = useState(false)
+  const [showNetwork, setShowNetwork] = useState(false)
 
   const goback = async () => {
     router.push('/home')
@@ -32,6 +36,15 @@ export default function Header() {
     }
   }
 
+  const onResumeTask = (task: any) => {
+    // Use store to resume interrupted task, handled by main page
+    resumeHistoryTask(task);
+
+    if (router.pathname !== '/main') {
+      router.push('/main');
+    }
+  }
+
   return (
     <div className=' flex justify-between items-center h-12 w-full px-7 bg-header text-text-01-dark' style={{
             WebkitAppRegion: 'drag'
@@ -73,6 +86,30 @@ export default function Header() {
             Scheduled Tasks
           </Button>
         )}
+        {!isTaskDetailMode && (
+          <Button
+            type="text"
+            icon={<BarChartOutlined />}
+            size="small"
+            onClick={() => setShowUsage(true)}
+            className='!text-text-01-dark'
+            style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}
+          >
+            Usage
+          </Button>
+        )}
+        {!isTaskDetailMode && (
+          <Button
+            type="text"
+            icon={<GlobalOutlined />}
+            size="small"
+            onClick={() => setShowNetwork(true)}
+            className='!text-text-01-dark'
+            style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}
+          >
+            Network
+          </Button>
+        )}
         <Button
           type="text"
           icon={<HistoryOutlined />}
@@ -90,10 +127,14 @@ export default function Header() {
         visible={showHistoryPanel}
         onClose={() => setShowHistoryPanel(false)}
         onSelectTask={onSelectTask}
+        onResumeTask={onResumeTask}
         currentTaskId=""
         isTaskDetailMode={isTaskDetailMode}
         scheduledTaskId={taskId as string}
       />
+
+      <UsageDashboard visible={showUsage} onClose={() => setShowUsage(false)} />
+      <NetworkSettingsModal open={showNetwork} onClose={() => setShowNetwork(false)} />
     </div>
   )
 }
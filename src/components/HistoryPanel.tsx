@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Button, Input, List, Modal, Drawer, Tooltip, Space, Tag, Popconfirm, App } from 'antd';
-import { SearchOutlined, DeleteOutlined, EyeOutlined, ClearOutlined, ClockCircleOutlined } from '@ant-design/icons';
-import { Task, TaskStatus, TaskType } from '@/models';
+import { SearchOutlined, DeleteOutlined, EyeOutlined, ClearOutlined, ClockCircleOutlined, PlayCircleOutlined } from '@ant-design/icons';
+import { Task, TaskCheckpointSummary, TaskStatus, TaskType } from '@/models';
 import { taskStorage } from '@/lib/taskStorage';
+import { useTaskStatusStore } from '@/stores/taskStatusStore';
+import { RUN_STATUS_TAGS } from '@/components/chat/TaskStatusBar';
+import { formatCost, formatTokens } from '@/components/UsageDashboard';
 
 const { Search } = Input;
 
@@ -26,6 +29,7 @@ interface HistoryPanelProps {
   visible: boolean;
   onClose: () => void;
   onSelectTask: (task: Task) => void;
+  onResumeTask?: (task: Task) => void; // Resume interrupted task from its checkpoint
   currentTaskId?: string;
   isTaskDetailMode?: boolean;
   scheduledTaskId?: string;
@@ -35,6 +39,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
   visible,
   onClose,
   onSelectTask,
+  onResumeTask,
   currentTaskId,
   isTaskDetailMode = false,
   scheduledTaskId
@@ -44,6 +49,8 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
   const [loading, setLoading] = useState(false);
   const [searchKeyword, setSearchKeyword] = useState('');
   const [filteredItems, setFilteredItems] = useState<HistoryItem[]>([]);
+  const liveStatuses = useTaskStatusStore((state) => state.statuses);
+  const [checkpoints, setCheckpoints] = useState<Record<string, TaskCheckpointSummary>>({});
   const [stats, setStats] = useState({
     total: 0,
     completed: 0,
@@ -162,6 +169,53 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
     }
   };
 
+  // Load checkpoints of interrupted tasks from main process
+  const loadCheckpoints = async () => {
+    if (typeof window === 'undefined' || !(window as any).api) {
+      return;
+    }
+    try {
+      const list: TaskCheckpointSummary[] = await (window as any).api.invoke('eko:get-checkpoints');
+      setCheckpoints(list.reduce<Record<string, TaskCheckpointSummary>>((map, checkpoint) => {
+        map[checkpoint.taskId] = checkpoint;
+        return map;
+      }, {}));
+    } catch (error) {
+      console.error('Failed to load checkpoints:', error);
+    }
+  };
+
+  // Interrupted task with a checkpoint that is not running again, only single tasks/executions can be resumed
+  const getResumableCheckpoint = (item: HistoryItem): TaskCheckpointSummary | undefined => {
+    const task = item.originalTask;
+    if (!task || task.status !== 'interrupted' || (item.taskType === 'scheduled' && !isTaskDetailMode)) {
+      return undefined;
+    }
+    return checkpoints[task.id];
+  };
+
+  // Resume button of interrupted tasks
+  const renderResumeAction = (item: HistoryItem) => {
+    const checkpoint = getResumableCheckpoint(item);
+    if (!onResumeTask || !checkpoint) {
+      return null;
+    }
+
+    return (
+      <Tooltip key="resume" title={`Resume from checkpoint (${checkpoint.completedAgents}/${checkpoint.totalAgents} steps completed)`}>
+        <Button
+          type="text"
+          icon={<PlayCircleOutlined />}
+          size="small"
+          onClick={(e) => {
+            e.stopPropagation();
+            onResumeTask(item.originalTask!);
+          }}
+        />
+      </Tooltip>
+    );
+  };
+
   // Search history items
   const handleSearch = (value: string) => {
     setSearchKeyword(value);
@@ -271,6 +325,28 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
     });
   };
 
+  // Get status tag, live status reported by main process takes precedence over stored status
+  const getItemStatusTag = (item: HistoryItem) => {
+    const taskId = item.latestExecution?.id || item.originalTask?.id || item.id;
+    const live = liveStatuses[taskId];
+    if (live) {
+      const tag = RUN_STATUS_TAGS[live.status];
+      return <Tag color={tag.color}>{tag.text}</Tag>;
+    }
+    return getStatusTag(item.status);
+  };
+
+  // Token usage of the task, or of the latest execution for scheduled tasks
+  const renderUsage = (item: HistoryItem) => {
+    const usage = (item.latestExecution || item.originalTask)?.usage;
+    if (!usage) return null;
+    return (
+      <div className="mt-1 opacity-90">
+        {formatTokens(usage.totalTokens)} tokens, {formatCost(usage.cost)}
+      </div>
+    );
+  };
+
   // Get status tag
   const getStatusTag = (status?: TaskStatus) => {
     switch (status) {
@@ -282,6 +358,8 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
         return <Tag color="red">Error</Tag>;
       case 'abort':
         return  <Tag color="red">Aborted</Tag>;
+      case 'interrupted':
+        return <Tag color="orange">Interrupted</Tag>;
       default:
         return <Tag color="default">Unknown</Tag>;
     }
@@ -291,6 +369,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
   useEffect(() => {
     if (visible) {
       loadTasks();
+      loadCheckpoints();
     }
   }, [visible]);
 
@@ -363,6 +442,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
               }}
               onClick={() => handleSelectItem(item)}
               actions={[
+                renderResumeAction(item),
                 item.taskType === 'normal' && (
                   <Tooltip key="view" title="View details">
                     <Button
@@ -415,7 +495,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
                         {item.name}
                       </span>
                     </div>
-                    {getStatusTag(item.status)}
+                    {getItemStatusTag(item)}
                   </div>
                 }
                 description={
@@ -427,6 +507,16 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
                           {item.executionCount} executions
                         </Tag>
                       )}
+                      {isTaskDetailMode && (item.originalTask?.attempt || 1) > 1 && (
+                        <Tag color="orange">
+                          Attempt {item.originalTask?.attempt}
+                        </Tag>
+                      )}
+                      {isTaskDetailMode && Object.entries(item.originalTask?.variables || {}).map(([name, value]) => (
+                        <Tag key={name}>
+                          {name}: {value}
+                        </Tag>
+                      ))}
                     </div>
                     <div className="flex items-center justify-between mt-1">
                       <span>Created: {formatTime(item.createdAt)}</span>
@@ -442,6 +532,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
                         {item.latestExecution.messages.length} messages
                       </div>
                     )}
+                    {renderUsage(item)}
                   </div>
                 }
               />
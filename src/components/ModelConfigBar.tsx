@@ -1,64 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Select, Button, Input, App } from 'antd';
-import { EditOutlined, CheckOutlined, CloseOutlined, LinkOutlined } from '@ant-design/icons';
-import type { UserModelConfigs } from '@/type';
+import { Select, Button, Input, Tag, App } from 'antd';
+import { EditOutlined, CheckOutlined, CloseOutlined, LinkOutlined, PlusOutlined, ApartmentOutlined, WarningOutlined, ApiOutlined, SyncOutlined } from '@ant-design/icons';
+import type { BuiltinProviderType, ConnectionTestResult, CustomProviderConfig, DiscoveredModel, ProviderType, SecretStorageStatus, UserModelConfigs } from '@/type';
+import { PROVIDERS, getModelOptions, getProviderModels, parseModelValue, toModelValue } from '@/config/modelOptions';
+import { CustomProviderModal } from './CustomProviderModal';
+import { ModelRoutingModal } from './ModelRoutingModal';
+import { ConfigProfileBar } from './ConfigProfileBar';
 
 const { Option } = Select;
 
-// Provider options
-const PROVIDERS = [
-  { value: 'deepseek', label: 'Deepseek', getKeyUrl: 'https://platform.deepseek.com/api_keys' },
-  { value: 'qwen', label: 'Qwen (Alibaba)', getKeyUrl: 'https://bailian.console.aliyun.com/' },
-  { value: 'google', label: 'Google Gemini', getKeyUrl: 'https://aistudio.google.com/app/apikey' },
-  { value: 'anthropic', label: 'Anthropic', getKeyUrl: 'https://console.anthropic.com/settings/keys' },
-  { value: 'openrouter', label: 'OpenRouter', getKeyUrl: 'https://openrouter.ai/keys' },
-];
-
-// Model options for each provider
-const MODELS: Record<string, string[]> = {
-  deepseek: [
-    'deepseek-chat',
-    'deepseek-reasoner',
-  ],
-  google: [
-    'gemini-1.5-flash-latest',
-    'gemini-2.0-flash-thinking-exp-01-21',
-    'gemini-2.0-flash-exp',
-    'gemini-1.5-flash-002',
-    'gemini-1.5-flash-8b',
-    'gemini-1.5-pro-latest',
-    'gemini-1.5-pro-002',
-    'gemini-exp-1206',
-  ],
-  openrouter: [
-    'anthropic/claude-3.5-sonnet',
-    'anthropic/claude-3-haiku',
-    'deepseek/deepseek-coder',
-    'google/gemini-flash-1.5',
-    'google/gemini-pro-1.5',
-    'x-ai/grok-beta',
-    'mistralai/mistral-nemo',
-    'qwen/qwen-110b-chat',
-    'cohere/command',
-  ],
-  anthropic: [
-    'claude-3-7-sonnet-20250219',
-    'claude-3-5-sonnet-latest',
-    'claude-3-5-sonnet-20240620',
-    'claude-3-5-haiku-latest',
-    'claude-3-opus-latest',
-    'claude-3-sonnet-20240229',
-    'claude-3-haiku-20240307',
-  ],
-  qwen: [
-    'qwen-max',
-    'qwen-plus',
-    'qwen-vl-max',
-  ],
-};
-
-type ProviderType = 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter';
-
 export const ModelConfigBar: React.FC = () => {
 
   const message = App.useApp().message;
@@ -69,6 +19,20 @@ export const ModelConfigBar: React.FC = () => {
   const [configs, setConfigs] = useState<UserModelConfigs>({});
   const [isEditingApiKey, setIsEditingApiKey] = useState(false);
   const [tempApiKey, setTempApiKey] = useState('');
+  const [customModalOpen, setCustomModalOpen] = useState(false);
+  const [editingCustom, setEditingCustom] = useState<CustomProviderConfig | undefined>();
+  const [routingModalOpen, setRoutingModalOpen] = useState(false);
+  const [secretStorage, setSecretStorage] = useState<SecretStorageStatus | null>(null);
+  const [discoveredModels, setDiscoveredModels] = useState<Record<string, DiscoveredModel[]>>({});
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const [fetchingModels, setFetchingModels] = useState(false);
+
+  const customProviders = configs.customProviders || [];
+  const getCustomProvider = (provider: ProviderType) =>
+    customProviders.find((custom) => `custom:${custom.id}` === provider);
+  const getModels = (provider: ProviderType) => getProviderModels(provider, customProviders, discoveredModels);
+  const selectedCustom = getCustomProvider(selectedProvider);
 
   // Load initial configurations
   useEffect(() => {
@@ -77,9 +41,9 @@ export const ModelConfigBar: React.FC = () => {
 
   // Update model when provider changes
   useEffect(() => {
-    const models = MODELS[selectedProvider];
-    if (models && models.length > 0) {
-      const currentModel = configs[selectedProvider]?.model || models[0];
+    const models = getModels(selectedProvider);
+    if (models.length > 0) {
+      const currentModel = (selectedCustom ? selectedCustom.model : configs[selectedProvider as BuiltinProviderType]?.model) || models[0];
       setSelectedModel(currentModel);
     }
   }, [selectedProvider, configs]);
@@ -89,8 +53,12 @@ export const ModelConfigBar: React.FC = () => {
       const userConfigs = await window.api.getUserModelConfigs();
       const provider = await window.api.getSelectedProvider();
       const source = await window.api.getApiKeySource(provider);
+      const storageStatus = await window.api.getSecretStorageStatus();
+      const discovered = await window.api.getDiscoveredModels();
 
       setConfigs(userConfigs);
+      setSecretStorage(storageStatus);
+      setDiscoveredModels(discovered);
       setSelectedProvider(provider);
       setApiKeySource(source);
     } catch (error) {
@@ -101,6 +69,7 @@ export const ModelConfigBar: React.FC = () => {
   const handleProviderChange = async (value: ProviderType) => {
     try {
       setSelectedProvider(value);
+      setTestResult(null);
       await window.api.setSelectedProvider(value);
       const source = await window.api.getApiKeySource(value);
       setApiKeySource(source);
@@ -113,10 +82,20 @@ export const ModelConfigBar: React.FC = () => {
   const handleModelChange = async (value: string) => {
     try {
       setSelectedModel(value);
+      if (selectedCustom) {
+        await window.api.saveCustomProvider({ ...selectedCustom, model: value });
+        setConfigs({
+          ...configs,
+          customProviders: customProviders.map((custom) => (custom.id === selectedCustom.id ? { ...custom, model: value } : custom)),
+        });
+        message.success('Model updated');
+        return;
+      }
+      const provider = selectedProvider as BuiltinProviderType;
       const updatedConfigs = {
         ...configs,
-        [selectedProvider]: {
-          ...configs[selectedProvider],
+        [provider]: {
+          ...configs[provider],
           model: value,
         },
       };
@@ -129,9 +108,55 @@ export const ModelConfigBar: React.FC = () => {
     }
   };
 
+  // Fallback order follows selection order, value format: provider/model
+  const handleFallbackChange = async (values: string[]) => {
+    try {
+      const fallbackChain = values.map(parseModelValue);
+      const updatedConfigs = { ...configs, fallbackChain };
+      await window.api.saveUserModelConfigs(updatedConfigs);
+      setConfigs(updatedConfigs);
+      message.success('Fallback models updated');
+    } catch (error) {
+      console.error('Failed to update fallback models:', error);
+      message.error('Failed to update fallback models');
+    }
+  };
+
+  const handleTestConnection = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await window.api.testConnection(selectedProvider));
+    } catch (error) {
+      console.error('Failed to test connection:', error);
+      message.error('Failed to test connection');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleFetchModels = async () => {
+    setFetchingModels(true);
+    try {
+      const result = await window.api.fetchModels(selectedProvider);
+      if (!result.success || !result.models) {
+        message.error(`Failed to fetch models: ${result.message}`);
+        return;
+      }
+      setDiscoveredModels({ ...discoveredModels, [selectedProvider]: result.models });
+      message.success(`${result.models.length} models available`);
+    } catch (error) {
+      console.error('Failed to fetch models:', error);
+      message.error('Failed to fetch models');
+    } finally {
+      setFetchingModels(false);
+    }
+  };
+
+  // Stored keys are never sent to the renderer, editing starts empty
   const handleEditApiKey = () => {
     setIsEditingApiKey(true);
-    setTempApiKey(configs[selectedProvider]?.apiKey || '');
+    setTempApiKey('');
   };
 
   const handleCancelEdit = () => {
@@ -147,15 +172,8 @@ export const ModelConfigBar: React.FC = () => {
     }
 
     try {
-      const updatedConfigs = {
-        ...configs,
-        [selectedProvider]: {
-          ...configs[selectedProvider],
-          apiKey: tempApiKey.trim(),
-        },
-      };
-      await window.api.saveUserModelConfigs(updatedConfigs);
-      setConfigs(updatedConfigs);
+      await window.api.setApiKey(selectedProvider, tempApiKey.trim());
+      setConfigs(await window.api.getUserModelConfigs());
       setIsEditingApiKey(false);
       setApiKeySource('user');
       message.success('API Key saved');
@@ -165,10 +183,40 @@ export const ModelConfigBar: React.FC = () => {
     }
   };
 
+  const openCustomModal = (custom?: CustomProviderConfig) => {
+    setEditingCustom(custom);
+    setCustomModalOpen(true);
+  };
+
+  const handleCustomSaved = async (provider: ProviderType) => {
+    const isNew = !editingCustom;
+    setCustomModalOpen(false);
+    await loadConfigs();
+    if (isNew) {
+      await handleProviderChange(provider);
+    }
+  };
+
+  const handleCustomDeleted = async () => {
+    setCustomModalOpen(false);
+    // Main process falls back to the default provider when the selected one is deleted
+    await loadConfigs();
+  };
+
   const currentProvider = PROVIDERS.find(p => p.value === selectedProvider);
 
+  const handleRoutingSaved = async () => {
+    setRoutingModalOpen(false);
+    await loadConfigs();
+  };
+
+  const routedCount = Object.keys(configs.modelRouting || {}).length;
+
   return (
     <div className="w-full px-4 pt-3 pb-3" style={{ borderColor: 'rgba(255, 255, 255, 0.1)' }}>
+      {/* Named configuration profiles */}
+      <ConfigProfileBar onSwitched={loadConfigs} />
+
       {/* Provider and Model Selection */}
       <div className="flex gap-3 mb-3">
         <Select
@@ -188,11 +236,15 @@ export const ModelConfigBar: React.FC = () => {
           {PROVIDERS.map(p => (
             <Option key={p.value} value={p.value}>{p.label}</Option>
           ))}
+          {customProviders.map(custom => (
+            <Option key={custom.id} value={`custom:${custom.id}`}>{custom.name}</Option>
+          ))}
         </Select>
 
         <Select
           value={selectedModel}
           onChange={handleModelChange}
+          showSearch
           className="flex-1 custom-select"
           size="middle"
           style={{ minWidth: '200px' }}
@@ -204,86 +256,202 @@ export const ModelConfigBar: React.FC = () => {
             boxShadow: '0 8px 32px rgba(0, 0, 0, 0.5), 0 0 0 1px rgba(145, 75, 241, 0.2)',
           }}
         >
-          {MODELS[selectedProvider]?.map(model => (
+          {getModels(selectedProvider).map(model => (
             <Option key={model} value={model}>{model}</Option>
           ))}
         </Select>
+
+        <Button
+          icon={<PlusOutlined />}
+          onClick={() => openCustomModal()}
+          title="Add OpenAI-compatible provider"
+        />
+      </div>
+
+      {/* Fallback chain, tried in order when the selected model keeps failing */}
+      <div className="flex items-center gap-2 mb-3 text-sm">
+        <span className="text-gray-400 whitespace-nowrap">Fallbacks:</span>
+        <Select
+          mode="multiple"
+          value={(configs.fallbackChain || []).map((fallback) => toModelValue(fallback, customProviders))}
+          onChange={handleFallbackChange}
+          placeholder="None, tasks fail when the selected model is unavailable"
+          className="flex-1 custom-select"
+          size="small"
+          options={getModelOptions(customProviders, `${selectedProvider}/${selectedModel}`, discoveredModels)}
+          dropdownStyle={{
+            background: 'rgba(8, 12, 16, 0.96)',
+            backdropFilter: 'blur(20px)',
+            border: '1px solid rgba(145, 75, 241, 0.3)',
+            borderRadius: '12px',
+            boxShadow: '0 8px 32px rgba(0, 0, 0, 0.5), 0 0 0 1px rgba(145, 75, 241, 0.2)',
+          }}
+        />
+        <Button
+          icon={<ApartmentOutlined />}
+          onClick={() => setRoutingModalOpen(true)}
+          size="small"
+          type="text"
+          className="text-gray-300 hover:text-white"
+          title="Route planning and agents to named models"
+        >
+          Routing{routedCount > 0 ? ` (${routedCount})` : ''}
+        </Button>
       </div>
 
+      {/* Custom provider endpoint, key and headers are edited in the provider modal */}
+      {selectedCustom && (
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            <span className="text-gray-400 whitespace-nowrap">{selectedCustom.name}:</span>
+            <span className="text-gray-300 truncate" title={selectedCustom.baseURL}>{selectedCustom.baseURL}</span>
+          </div>
+          <Button
+            icon={<EditOutlined />}
+            onClick={() => openCustomModal(selectedCustom)}
+            size="small"
+            type="text"
+            className="text-gray-300 hover:text-white"
+          >
+            Edit provider
+          </Button>
+        </div>
+      )}
+
       {/* API Key Section */}
-      <div className="flex items-center justify-between text-sm">
-        <div className="flex items-center gap-2 flex-1">
-          <span className="text-gray-400 whitespace-nowrap">
-            {selectedProvider.charAt(0).toUpperCase() + selectedProvider.slice(1)} API Key:
-          </span>
-
-          {apiKeySource === 'env' && !isEditingApiKey && (
-            <span className="flex items-center gap-1 text-green-400">
-              <CheckOutlined />
-              Set via environment variable
+      {!selectedCustom && (
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2 flex-1">
+            <span className="text-gray-400 whitespace-nowrap">
+              {selectedProvider.charAt(0).toUpperCase() + selectedProvider.slice(1)} API Key:
             </span>
-          )}
 
-          {apiKeySource === 'user' && !isEditingApiKey && (
-            <span className="flex items-center gap-1 text-blue-400">
-              <CheckOutlined />
-              Set by user
-            </span>
-          )}
-
-          {apiKeySource === 'none' && !isEditingApiKey && (
-            <span className="text-yellow-400">Not configured</span>
-          )}
-
-          {isEditingApiKey && (
-            <Input
-              type="password"
-              value={tempApiKey}
-              onChange={(e) => setTempApiKey(e.target.value)}
-              placeholder="Enter your API Key"
-              className="flex-1 max-w-sm"
-              size="small"
-              onPressEnter={handleSaveApiKey}
-            />
-          )}
-        </div>
+            {apiKeySource === 'env' && !isEditingApiKey && (
+              <span className="flex items-center gap-1 text-green-400">
+                <CheckOutlined />
+                Set via environment variable
+              </span>
+            )}
+
+            {apiKeySource === 'user' && !isEditingApiKey && (
+              <span className="flex items-center gap-1 text-blue-400">
+                <CheckOutlined />
+                Set by user
+                <span className="text-gray-500">{configs[selectedProvider as BuiltinProviderType]?.apiKey}</span>
+                {secretStorage && !secretStorage.osProtected && (
+                  <WarningOutlined
+                    className="!text-yellow-400"
+                    title={secretStorage.encrypted
+                      ? 'No OS keyring available, the key is stored obfuscated only'
+                      : 'Encryption not available, the key is stored as plain text'}
+                  />
+                )}
+              </span>
+            )}
 
-        <div className="flex items-center gap-2">
-          {!isEditingApiKey ? (
-            <>
-              <Button
-                icon={<EditOutlined />}
-                onClick={handleEditApiKey}
+            {apiKeySource === 'none' && !isEditingApiKey && (
+              <span className="text-yellow-400">Not configured</span>
+            )}
+
+            {isEditingApiKey && (
+              <Input
+                type="password"
+                value={tempApiKey}
+                onChange={(e) => setTempApiKey(e.target.value)}
+                placeholder="Enter your API Key"
+                className="flex-1 max-w-sm"
                 size="small"
-                type="text"
-                className="text-gray-300 hover:text-white"
-              >
-                Edit API Key
-              </Button>
-              <a
-                href={currentProvider?.getKeyUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex items-center gap-1 text-blue-400 hover:text-blue-300 whitespace-nowrap"
-              >
-                <LinkOutlined />
-                Get API Key
-              </a>
-            </>
-          ) : (
-            <>
-              <CheckOutlined
-                onClick={handleSaveApiKey}
-                className="!text-green-400 hover:!text-green-300 cursor-pointer text-xs"
+                onPressEnter={handleSaveApiKey}
               />
-              <CloseOutlined
-                onClick={handleCancelEdit}
-                className="!text-red-400 hover:!text-red-300 cursor-pointer text-xs"
-              />
-            </>
-          )}
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            {!isEditingApiKey ? (
+              <>
+                <Button
+                  icon={<EditOutlined />}
+                  onClick={handleEditApiKey}
+                  size="small"
+                  type="text"
+                  className="text-gray-300 hover:text-white"
+                >
+                  Edit API Key
+                </Button>
+                <a
+                  href={currentProvider?.getKeyUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-blue-400 hover:text-blue-300 whitespace-nowrap"
+                >
+                  <LinkOutlined />
+                  Get API Key
+                </a>
+              </>
+            ) : (
+              <>
+                <CheckOutlined
+                  onClick={handleSaveApiKey}
+                  className="!text-green-400 hover:!text-green-300 cursor-pointer text-xs"
+                />
+                <CloseOutlined
+                  onClick={handleCancelEdit}
+                  className="!text-red-400 hover:!text-red-300 cursor-pointer text-xs"
+                />
+              </>
+            )}
+          </div>
         </div>
+      )}
+
+      {/* Connection test and model discovery of the selected provider */}
+      <div className="flex items-center gap-2 mt-2 text-sm">
+        <Button
+          icon={<ApiOutlined />}
+          onClick={handleTestConnection}
+          loading={testing}
+          size="small"
+          type="text"
+          className="text-gray-300 hover:text-white"
+        >
+          Test connection
+        </Button>
+        <Button
+          icon={<SyncOutlined />}
+          onClick={handleFetchModels}
+          loading={fetchingModels}
+          size="small"
+          type="text"
+          className="text-gray-300 hover:text-white"
+        >
+          Fetch models
+        </Button>
+        {testResult && (
+          testResult.success ? (
+            <Tag color="green">{testResult.model}: {testResult.latencyMs} ms</Tag>
+          ) : (
+            <Tag color="red" className="truncate max-w-xs" title={testResult.message}>
+              {testResult.message}
+            </Tag>
+          )
+        )}
       </div>
+
+      <CustomProviderModal
+        open={customModalOpen}
+        provider={editingCustom}
+        onClose={() => setCustomModalOpen(false)}
+        onSaved={handleCustomSaved}
+        onDeleted={handleCustomDeleted}
+      />
+
+      <ModelRoutingModal
+        open={routingModalOpen}
+        configs={configs}
+        discoveredModels={discoveredModels}
+        onClose={() => setRoutingModalOpen(false)}
+        onSaved={handleRoutingSaved}
+      />
     </div>
   );
 };
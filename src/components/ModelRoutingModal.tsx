@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Form, Input, Select, Button, Space, App } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import type { DiscoveredModel, LLMSlot, UserModelConfigs } from '@/type';
+import { getModelOptions, parseModelValue, toModelValue } from '@/config/modelOptions';
+
+// Route of workflow planning, other routes are agent names
+const PLANNER_ROUTE = 'Planner';
+
+interface ModelRoutingModalProps {
+  open: boolean;
+  configs: UserModelConfigs;
+  discoveredModels: Record<string, DiscoveredModel[]>;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface SlotFormValue {
+  name: string;
+  model: string;    // provider/model
+}
+
+interface RoutingForm {
+  llmSlots: SlotFormValue[];
+  modelRouting: Record<string, string | undefined>;
+}
+
+/**
+ * Named LLM slots (e.g. planner, browser, file, vision) and the slot planning and each agent use
+ * Unrouted planning and agents use the selected provider, all routes fail over along the fallback chain
+ */
+export const ModelRoutingModal: React.FC<ModelRoutingModalProps> = ({ open, configs, discoveredModels, onClose, onSaved }) => {
+  const { message } = App.useApp();
+  const [form] = Form.useForm<RoutingForm>();
+  const [agentNames, setAgentNames] = useState<string[]>([]);
+  const slots: SlotFormValue[] = Form.useWatch('llmSlots', form) || [];
+  const customProviders = configs.customProviders || [];
+
+  useEffect(() => {
+    if (!open) return;
+    (window.api as any).invoke('eko:get-agent-names').then(setAgentNames).catch((error: any) => {
+      console.error('Failed to load agent names:', error);
+    });
+    form.setFieldsValue({
+      llmSlots: (configs.llmSlots || []).map((slot) => ({ name: slot.name, model: toModelValue(slot, customProviders) })),
+      modelRouting: configs.modelRouting || {},
+    });
+  }, [open]);
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const llmSlots: LLMSlot[] = (values.llmSlots || []).map((slot) => ({
+      name: slot.name.trim(),
+      ...parseModelValue(slot.model),
+    }));
+
+    const names = llmSlots.map((slot) => slot.name);
+    if (new Set(names).size !== names.length) {
+      message.error('Slot names must be unique');
+      return;
+    }
+
+    // Drop routes to removed slots
+    const modelRouting: Record<string, string> = {};
+    Object.entries(values.modelRouting || {}).forEach(([route, slot]) => {
+      if (slot && names.includes(slot)) {
+        modelRouting[route] = slot;
+      }
+    });
+
+    try {
+      await window.api.saveUserModelConfigs({ ...configs, llmSlots, modelRouting });
+      message.success('Model routing updated');
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save model routing:', error);
+      message.error('Failed to save model routing');
+    }
+  };
+
+  const slotOptions = slots
+    .filter((slot) => slot?.name?.trim())
+    .map((slot) => ({ value: slot.name.trim(), label: slot.name.trim() }));
+
+  return (
+    <Modal
+      title="Model routing"
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText="Save"
+      cancelText="Cancel"
+      width={640}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" requiredMark={false}>
+        <Form.Item label="Slots" tooltip="Named models that planning and agents can be routed to">
+          <Form.List name="llmSlots">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="start" className="flex mb-2">
+                    <Form.Item
+                      name={[field.name, 'name']}
+                      className="!mb-0"
+                      rules={[{ required: true, whitespace: true, message: 'Enter a name' }]}
+                    >
+                      <Input placeholder="browser" className="!w-32" />
+                    </Form.Item>
+                    <Form.Item
+                      name={[field.name, 'model']}
+                      className="!mb-0"
+                      rules={[{ required: true, message: 'Select a model' }]}
+                    >
+                      <Select
+                        showSearch
+                        placeholder="Model"
+                        options={getModelOptions(customProviders, undefined, discoveredModels)}
+                        className="!w-80"
+                      />
+                    </Form.Item>
+                    <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button icon={<PlusOutlined />} onClick={() => add()}>
+                  Add slot
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+
+        <Form.Item label="Routes" tooltip="Unrouted planning and agents use the selected provider">
+          {[PLANNER_ROUTE, ...agentNames].map((route) => (
+            <div key={route} className="flex items-center gap-3 mb-2">
+              <span className="w-24 text-sm text-gray-400">{route}</span>
+              <Form.Item name={['modelRouting', route]} noStyle>
+                <Select allowClear placeholder="Selected model" options={slotOptions} className="!w-48" />
+              </Form.Item>
+            </div>
+          ))}
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect } from 'react';
+import { Modal, Form, Input, Radio, App } from 'antd';
+import type { NetworkSettings } from '@/type';
+
+interface NetworkSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface NetworkSettingsForm {
+  proxyMode: NetworkSettings['proxyMode'];
+  proxyUrl?: string;
+  pacUrl?: string;
+  bypassList?: string;        // One host or pattern per line
+  caCertificates?: string;
+}
+
+/**
+ * Outbound proxy (HTTP/HTTPS/SOCKS, PAC, bypass list) and extra CA certificates
+ * Applied to the browser views, LLM requests and the API routes
+ */
+export const NetworkSettingsModal: React.FC<NetworkSettingsModalProps> = ({ open, onClose }) => {
+  const { message } = App.useApp();
+  const [form] = Form.useForm<NetworkSettingsForm>();
+  const proxyMode = Form.useWatch('proxyMode', form);
+
+  useEffect(() => {
+    if (!open) return;
+    window.api.getNetworkSettings().then((settings) => {
+      form.setFieldsValue({
+        proxyMode: settings.proxyMode,
+        proxyUrl: settings.proxyUrl,
+        pacUrl: settings.pacUrl,
+        bypassList: (settings.bypassList || []).join('\n'),
+        caCertificates: settings.caCertificates,
+      });
+    }).catch((error) => {
+      console.error('Failed to load network settings:', error);
+    });
+  }, [open]);
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const result = await window.api.saveNetworkSettings({
+      proxyMode: values.proxyMode,
+      proxyUrl: values.proxyUrl,
+      pacUrl: values.pacUrl,
+      bypassList: (values.bypassList || '').split(/[\n,]/),
+      caCertificates: values.caCertificates,
+    });
+
+    if (!result.success) {
+      message.error(result.message || 'Failed to save network settings');
+      return;
+    }
+    message.success('Network settings applied');
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Network"
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText="Save"
+      cancelText="Cancel"
+      width={600}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" requiredMark={false} initialValues={{ proxyMode: 'system' }}>
+        <Form.Item name="proxyMode" label="Proxy">
+          <Radio.Group
+            optionType="button"
+            options={[
+              { value: 'system', label: 'System' },
+              { value: 'direct', label: 'No proxy' },
+              { value: 'manual', label: 'Manual' },
+              { value: 'pac', label: 'PAC URL' },
+            ]}
+          />
+        </Form.Item>
+
+        {proxyMode === 'manual' && (
+          <>
+            <Form.Item
+              name="proxyUrl"
+              label="Proxy URL"
+              rules={[{ required: true, pattern: /^(https?|socks4|socks5?):\/\/\S+$/, message: 'Enter an http://, https://, socks4:// or socks5:// URL' }]}
+            >
+              <Input placeholder="http://proxy.corp.example.com:8080" />
+            </Form.Item>
+            <Form.Item name="bypassList" label="Bypass" extra="One per line, e.g. *.corp.example.com, 10.0.0.0/8 or <local>">
+              <Input.TextArea autoSize={{ minRows: 2, maxRows: 6 }} />
+            </Form.Item>
+          </>
+        )}
+
+        {proxyMode === 'pac' && (
+          <Form.Item
+            name="pacUrl"
+            label="PAC URL"
+            rules={[{ required: true, pattern: /^(https?|file|data):/, message: 'Enter an http://, https://, file:// or data: URL' }]}
+          >
+            <Input placeholder="http://wpad.corp.example.com/proxy.pac" />
+          </Form.Item>
+        )}
+
+        <Form.Item
+          name="caCertificates"
+          label="Extra CA certificates"
+          extra="PEM, trusted in addition to the system certificates (e.g. a TLS-inspecting corporate proxy)"
+        >
+          <Input.TextArea
+            autoSize={{ minRows: 3, maxRows: 8 }}
+            placeholder="-----BEGIN CERTIFICATE-----"
+            className="font-mono !text-xs"
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
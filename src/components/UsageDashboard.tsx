@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Segmented, Table, Progress, InputNumber, Input, Button, Empty, App } from 'antd';
+import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
+import { ModelPrice, UsageBudget, UsageSummary, UsageTotals } from '@/models';
+
+// Days shown in the daily breakdown
+const SUMMARY_DAYS = 30;
+
+type UsageView = 'day' | 'provider' | 'scheduled' | 'agent' | 'settings';
+
+// Format token count as 1.2k / 3.4M
+export const formatTokens = (tokens: number) => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+};
+
+// Format USD cost, small amounts keep more digits
+export const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const totalsColumns = [
+  { title: 'Requests', dataIndex: 'requests', align: 'right' as const },
+  { title: 'Prompt', dataIndex: 'promptTokens', align: 'right' as const, render: formatTokens },
+  { title: 'Completion', dataIndex: 'completionTokens', align: 'right' as const, render: formatTokens },
+  { title: 'Cost', dataIndex: 'cost', align: 'right' as const, render: formatCost },
+];
+
+interface UsageDashboardProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Token usage dashboard
+ * Spend per day, per provider/model, per scheduled task and per agent, with the price table and budget limits used for cost and alerts
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ visible, onClose }) => {
+  const { message } = App.useApp();
+  const [view, setView] = useState<UsageView>('day');
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [prices, setPrices] = useState<ModelPrice[]>([]);
+  const [budget, setBudget] = useState<UsageBudget>({ dailyLimit: 0, monthlyLimit: 0 });
+
+  const loadUsage = async () => {
+    if (typeof window === 'undefined' || !(window as any).api) {
+      return;
+    }
+    try {
+      const [usageSummary, priceTable] = await Promise.all([
+        (window as any).api.invoke('usage:get-summary', SUMMARY_DAYS),
+        (window as any).api.invoke('usage:get-prices'),
+      ]);
+      setSummary(usageSummary);
+      setBudget(usageSummary.budget);
+      setPrices(priceTable || []);
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadUsage();
+    }
+  }, [visible]);
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+    setPrices(prices.map((price, i) => (i === index ? { ...price, ...changes } : price)));
+  };
+
+  const handleSaveSettings = async () => {
+    const [priceResult, budgetResult] = await Promise.all([
+      (window as any).api.invoke('usage:save-prices', prices),
+      (window as any).api.invoke('usage:save-budget', budget),
+    ]);
+    const failed = [priceResult, budgetResult].find((result) => !result.success);
+    if (failed) {
+      message.error(failed.message);
+      return;
+    }
+    message.success('Usage settings saved');
+    loadUsage();
+  };
+
+  // Spend against a budget limit
+  const renderSpend = (label: string, totals: UsageTotals, limit: number) => (
+    <div className="flex-1 px-4 py-3 rounded-lg bg-tool-call border border-border-message">
+      <div className="text-xs text-text-12-dark">{label}</div>
+      <div className="text-xl font-semibold text-text-01-dark">{formatCost(totals.cost)}</div>
+      <div className="text-xs text-text-12-dark">
+        {formatTokens(totals.totalTokens)} tokens, {totals.requests} requests
+      </div>
+      {limit > 0 && (
+        <Progress
+          size="small"
+          percent={Math.min(100, Math.round((totals.cost / limit) * 100))}
+          status={totals.cost >= limit ? 'exception' : 'normal'}
+          format={() => `of ${formatCost(limit)}`}
+        />
+      )}
+    </div>
+  );
+
+  const renderView = () => {
+    if (!summary) {
+      return null;
+    }
+
+    switch (view) {
+      case 'day':
+        return (
+          <Table
+            size="small"
+            rowKey="day"
+            pagination={false}
+            dataSource={[...summary.days].reverse()}
+            locale={{ emptyText: <Empty description="No usage yet" image={Empty.PRESENTED_IMAGE_SIMPLE} /> }}
+            columns={[{ title: 'Day', dataIndex: 'day' }, ...totalsColumns]}
+          />
+        );
+      case 'provider':
+        return (
+          <Table
+            size="small"
+            rowKey={(row) => `${row.provider}|${row.model}`}
+            pagination={false}
+            dataSource={summary.providers}
+            locale={{ emptyText: <Empty description="No usage yet" image={Empty.PRESENTED_IMAGE_SIMPLE} /> }}
+            columns={[
+              { title: 'Provider', dataIndex: 'provider' },
+              { title: 'Model', dataIndex: 'model' },
+              ...totalsColumns,
+            ]}
+          />
+        );
+      case 'scheduled':
+        return (
+          <Table
+            size="small"
+            rowKey="scheduledTaskId"
+            pagination={false}
+            dataSource={summary.scheduledTasks}
+            locale={{ emptyText: <Empty description="No scheduled task usage yet" image={Empty.PRESENTED_IMAGE_SIMPLE} /> }}
+            columns={[{ title: 'Scheduled task', dataIndex: 'scheduledTaskName' }, ...totalsColumns]}
+          />
+        );
+      case 'agent':
+        return (
+          <Table
+            size="small"
+            rowKey="agentName"
+            pagination={false}
+            dataSource={summary.agents}
+            locale={{ emptyText: <Empty description="No agent usage yet" image={Empty.PRESENTED_IMAGE_SIMPLE} /> }}
+            columns={[{ title: 'Agent', dataIndex: 'agentName' }, ...totalsColumns]}
+          />
+        );
+      case 'settings':
+        return (
+          <div className="space-y-4 text-sm text-text-12-dark">
+            <div>
+              <div className="font-semibold text-text-01-dark mb-2">Budget (USD)</div>
+              <div className="flex flex-wrap items-center gap-4">
+                <span>
+                  Daily{' '}
+                  <InputNumber
+                    size="small"
+                    min={0}
+                    value={budget.dailyLimit || null}
+                    placeholder="No limit"
+                    onChange={(value) => setBudget({ ...budget, dailyLimit: value || 0 })}
+                    className="!w-24"
+                  />
+                </span>
+                <span>
+                  Monthly{' '}
+                  <InputNumber
+                    size="small"
+                    min={0}
+                    value={budget.monthlyLimit || null}
+                    placeholder="No limit"
+                    onChange={(value) => setBudget({ ...budget, monthlyLimit: value || 0 })}
+                    className="!w-24"
+                  />
+                </span>
+              </div>
+              <div className="text-xs mt-1">A notification is shown once per day or month when spend reaches a limit.</div>
+            </div>
+
+            <div>
+              <div className="font-semibold text-text-01-dark mb-1">Prices (USD per million tokens)</div>
+              <div className="text-xs mb-2">Model * applies to all models of the provider. Changes apply to new requests.</div>
+              <div className="space-y-2">
+                {prices.map((price, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      size="small"
+                      value={price.provider}
+                      placeholder="Provider"
+                      onChange={(e) => updatePrice(index, { provider: e.target.value.trim() })}
+                      className="!w-24"
+                    />
+                    <Input
+                      size="small"
+                      value={price.model}
+                      placeholder="Model"
+                      onChange={(e) => updatePrice(index, { model: e.target.value.trim() })}
+                    />
+                    <InputNumber
+                      size="small"
+                      min={0}
+                      value={price.inputPerMillion}
+                      placeholder="Input"
+                      onChange={(value) => updatePrice(index, { inputPerMillion: value ?? 0 })}
+                      className="!w-20 shrink-0"
+                    />
+                    <InputNumber
+                      size="small"
+                      min={0}
+                      value={price.outputPerMillion}
+                      placeholder="Output"
+                      onChange={(value) => updatePrice(index, { outputPerMillion: value ?? 0 })}
+                      className="!w-20 shrink-0"
+                    />
+                    <Button
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={() => setPrices(prices.filter((_, i) => i !== index))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <Button
+                size="small"
+                icon={<PlusOutlined />}
+                className="mt-2"
+                onClick={() => setPrices([...prices, { provider: '', model: '*', inputPerMillion: 0, outputPerMillion: 0 }])}
+              >
+                Add price
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="primary" onClick={handleSaveSettings}>Save</Button>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Drawer
+      title={
+        <div className="flex items-center justify-between">
+          <span>Usage</span>
+          <Segmented
+            size="small"
+            value={view}
+            onChange={(value) => setView(value as UsageView)}
+            options={[
+              { value: 'day', label: 'By day' },
+              { value: 'provider', label: 'By provider' },
+              { value: 'scheduled', label: 'Scheduled tasks' },
+              { value: 'agent', label: 'By agent' },
+              { value: 'settings', label: 'Prices & budget' },
+            ]}
+          />
+        </div>
+      }
+      placement="right"
+      open={visible}
+      onClose={onClose}
+      width={600}
+      styles={{
+        wrapper: {
+          marginTop: '48px', // header height
+          height: 'calc(100vh - 48px)' // subtract header height
+        },
+        body: {
+          padding: '16px',
+          height: '100%',
+          background: 'linear-gradient(180deg, #1e1c23 0%, #281c39 100%)',
+          backdropFilter: 'blur(16px)',
+        }
+      }}
+    >
+      {summary && (
+        <div className="flex gap-3 mb-4">
+          {renderSpend('Today', summary.today, summary.budget.dailyLimit)}
+          {renderSpend('This month', summary.month, summary.budget.monthlyLimit)}
+        </div>
+      )}
+      {renderView()}
+    </Drawer>
+  );
+};
@@ -1,14 +1,17 @@
-import React, { useState } from 'react';
-import { Typography, Button } from "antd";
+import React, { useEffect, useState } from 'react';
+import { Typography, Button, Input, Checkbox, Radio, Space, Tag } from "antd";
 import ReactMarkdown from "react-markdown";
 import { Executing, Browser, Search, DataAnalysis, ExpandCollapse, DeepThinking, FinishStatus, RuningStatus, Atlas } from '../../icons/deepfundai-icons';
-import { DisplayMessage, AgentGroupMessage, ToolAction, AgentMessage } from '../../models';
+import { DisplayMessage, AgentGroupMessage, ToolAction, AgentMessage, HumanRequestMessage } from '../../models';
 
 const { Text } = Typography;
 
+type HumanResponseHandler = (requestId: string, answer: boolean | string | string[]) => void;
+
 interface MessageDisplayProps {
   message: DisplayMessage;
   onToolClick?: (message: ToolAction) => void;
+  onHumanResponse?: HumanResponseHandler;
 }
 
 // Workflow display component
@@ -156,8 +159,132 @@ const ToolDisplay = ({
   );
 };
 
+// Seconds left until deadline, updated every second
+const useSecondsLeft = (deadline?: string) => {
+  const getSecondsLeft = () => deadline ? Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / 1000)) : undefined;
+  const [secondsLeft, setSecondsLeft] = useState(getSecondsLeft);
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setSecondsLeft(getSecondsLeft()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return secondsLeft;
+};
+
+// Format answer of a resolved human request
+const formatHumanAnswer = (message: HumanRequestMessage): string => {
+  const { answer, requestType } = message;
+  if (requestType === 'confirm') return answer ? 'Approved' : 'Declined';
+  if (requestType === 'help') return answer ? 'Continued' : 'Stopped';
+  if (Array.isArray(answer)) return answer.length > 0 ? answer.join(', ') : 'Nothing selected';
+  return answer ? String(answer) : '(empty)';
+};
+
+const HUMAN_STATUS_TEXT: Record<Exclude<HumanRequestMessage['status'], 'pending'>, string> = {
+  answered: 'Answered',
+  timeout: 'No answer in time, default applied',
+  default: 'Answered automatically',
+  cancelled: 'Task stopped',
+};
+
+// Agent request for human confirmation, input, selection or help
+const HumanRequestDisplay = ({
+  message,
+  onHumanResponse
+}: {
+  message: HumanRequestMessage;
+  onHumanResponse?: HumanResponseHandler;
+}) => {
+  const [input, setInput] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const secondsLeft = useSecondsLeft(message.status === 'pending' ? message.deadline : undefined);
+  const isPending = message.status === 'pending' && !!onHumanResponse;
+
+  const respond = (answer: boolean | string | string[]) => onHumanResponse?.(message.requestId, answer);
+
+  return (
+    <div className="px-4 py-3 rounded-lg bg-tool-call border border-border-message">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-semibold">
+          {message.requestType === 'help'
+            ? (message.helpType === 'request_login' ? 'Login required' : 'Assistance needed')
+            : 'Atlas needs your input'}
+        </span>
+        {isPending && secondsLeft !== undefined && (
+          <Tag color="orange">Default answer in {secondsLeft}s</Tag>
+        )}
+      </div>
+      <div className="text-sm text-text-12-dark mb-3 markdown-container">
+        <ReactMarkdown>{message.prompt}</ReactMarkdown>
+      </div>
+
+      {isPending ? (
+        <>
+          {message.requestType === 'confirm' && (
+            <Space>
+              <Button type="primary" size="small" onClick={() => respond(true)}>Approve</Button>
+              <Button size="small" onClick={() => respond(false)}>Decline</Button>
+            </Space>
+          )}
+
+          {message.requestType === 'input' && (
+            <Space.Compact className="w-full">
+              <Input
+                size="small"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onPressEnter={() => respond(input)}
+                className="!bg-main-view !border-border-message !text-text-01-dark"
+              />
+              <Button type="primary" size="small" onClick={() => respond(input)}>Send</Button>
+            </Space.Compact>
+          )}
+
+          {message.requestType === 'select' && (
+            <div className="space-y-2">
+              {message.multiple ? (
+                <Checkbox.Group
+                  options={message.options || []}
+                  value={selected}
+                  onChange={(values) => setSelected(values as string[])}
+                />
+              ) : (
+                <Radio.Group
+                  options={message.options || []}
+                  value={selected[0]}
+                  onChange={(e) => setSelected([e.target.value])}
+                />
+              )}
+              <div>
+                <Button type="primary" size="small" disabled={selected.length === 0} onClick={() => respond(selected)}>
+                  Confirm selection
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {message.requestType === 'help' && (
+            <Space>
+              <Button type="primary" size="small" onClick={() => respond(true)}>
+                {message.helpType === 'request_login' ? "I've logged in, continue" : 'Done, continue'}
+              </Button>
+              <Button size="small" onClick={() => respond(false)}>Stop task</Button>
+            </Space>
+          )}
+        </>
+      ) : message.status !== 'pending' && (
+        <div className="text-xs text-text-12-dark">
+          {HUMAN_STATUS_TEXT[message.status]}{message.status !== 'cancelled' && `: ${formatHumanAnswer(message)}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Message content component
-const MessageContent = ({ message, onToolClick }: { message: DisplayMessage, onToolClick }) => {
+const MessageContent = ({ message, onToolClick, onHumanResponse }: { message: DisplayMessage, onToolClick, onHumanResponse?: HumanResponseHandler }) => {
   // User message
   if (message.type === 'user') {
     return (
@@ -176,6 +303,10 @@ const MessageContent = ({ message, onToolClick }: { message: DisplayMessage, onT
     return <AgentGroupDisplay agentMessage={message} onToolClick={onToolClick} />
   }
 
+  if (message.type === 'human_request') {
+    return <HumanRequestDisplay message={message} onHumanResponse={onHumanResponse} />;
+  }
+
   return null;
 };
 
@@ -203,11 +334,11 @@ const AgentMessageContent = ({ message, onToolClick }: { message: AgentMessage,
 
 
 // Single message component
-const MessageItem = ({ message, onToolClick }: MessageDisplayProps) => {
+const MessageItem = ({ message, onToolClick, onHumanResponse }: MessageDisplayProps) => {
   const isUser = message.type === 'user';
 
   // Get message content
-  const messageContent = <MessageContent message={message} onToolClick={onToolClick} />;
+  const messageContent = <MessageContent message={message} onToolClick={onToolClick} onHumanResponse={onHumanResponse} />;
 
   // If message content is empty, don't display the entire message item
   if (!messageContent) {
@@ -256,6 +387,11 @@ const AgentGroupDisplay = ({
           <span className="font-semibold">
             {agentMessage.agentNode?.task || agentMessage.agentName}
           </span>
+          {agentMessage.llm && (
+            <Tag color={agentMessage.llm.fallback ? 'orange' : 'default'} className="!mr-0" title={agentMessage.llm.provider}>
+              {agentMessage.llm.fallback ? 'Fallback: ' : ''}{agentMessage.llm.model}
+            </Tag>
+          )}
         </div>
         <Button
           type="text"
@@ -285,15 +421,17 @@ const AgentGroupDisplay = ({
 // Message list component
 const MessageListComponent = ({
   messages,
-  onToolClick
+  onToolClick,
+  onHumanResponse
 }: {
   messages: DisplayMessage[];
   onToolClick?: (message: ToolAction) => void;
+  onHumanResponse?: HumanResponseHandler;
 }) => {
 
   return (
     <div className="message-list space-y-2">
-      {messages.map((message) => <MessageItem message={message} key={message.id} onToolClick={onToolClick} />)}
+      {messages.map((message) => <MessageItem message={message} key={message.id} onToolClick={onToolClick} onHumanResponse={onHumanResponse} />)}
     </div>
   );
 };
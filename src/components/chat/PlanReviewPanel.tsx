@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Input, Select, Space } from 'antd';
+import { ArrowUpOutlined, ArrowDownOutlined, DeleteOutlined } from '@ant-design/icons';
+import { PlanAgentNode } from '@/models';
+
+interface PlanReviewPanelProps {
+  agents: PlanAgentNode[];      // Generated agent nodes
+  agentNames: string[];         // Agents available to nodes
+  onRun: (agents: PlanAgentNode[]) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Review of a generated plan before execution
+ * Agent nodes can be reordered, deleted, reassigned and their task text edited; nodes run top to bottom
+ */
+export const PlanReviewPanel: React.FC<PlanReviewPanelProps> = ({ agents, agentNames, onRun, onDiscard }) => {
+  const [nodes, setNodes] = useState<PlanAgentNode[]>(agents);
+
+  useEffect(() => {
+    setNodes(agents);
+  }, [agents]);
+
+  const updateNode = (index: number, changes: Partial<PlanAgentNode>) => {
+    setNodes(nodes.map((node, i) => (i === index ? { ...node, ...changes } : node)));
+  };
+
+  const moveNode = (index: number, toIndex: number) => {
+    const next = [...nodes];
+    const [node] = next.splice(index, 1);
+    next.splice(toIndex, 0, node);
+    setNodes(next);
+  };
+
+  const canRun = nodes.length > 0 && nodes.every((node) => node.task.trim());
+
+  return (
+    <div className="px-4 py-3 rounded-lg bg-tool-call border border-border-message">
+      <div className="font-semibold mb-1">Review plan</div>
+      <div className="text-xs text-text-12-dark mb-3">Steps run top to bottom. Edit them before starting the task.</div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {nodes.map((node, index) => (
+          <div key={node.id} className="flex items-start gap-2">
+            <span className="text-xs text-text-12-dark leading-8 w-4 shrink-0">{index + 1}</span>
+            <Select
+              size="small"
+              value={node.name}
+              onChange={(name) => updateNode(index, { name })}
+              options={agentNames.map((name) => ({ value: name, label: name }))}
+              className="!w-28 shrink-0 mt-1"
+            />
+            <Input.TextArea
+              value={node.task}
+              autoSize={{ minRows: 1, maxRows: 4 }}
+              onChange={(e) => updateNode(index, { task: e.target.value })}
+              status={node.task.trim() ? undefined : 'error'}
+              className="!bg-main-view !border-border-message !text-text-01-dark"
+            />
+            <Space.Compact className="shrink-0 mt-1">
+              <Button size="small" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => moveNode(index, index - 1)} />
+              <Button size="small" icon={<ArrowDownOutlined />} disabled={index === nodes.length - 1} onClick={() => moveNode(index, index + 1)} />
+              <Button
+                size="small"
+                danger
+                icon={<DeleteOutlined />}
+                disabled={nodes.length === 1}
+                onClick={() => setNodes(nodes.filter((_, i) => i !== index))}
+              />
+            </Space.Compact>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-3">
+        <Button size="small" onClick={onDiscard}>Discard</Button>
+        <Button size="small" type="primary" disabled={!canRun} onClick={() => onRun(nodes)}>Run plan</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { App, Button, Tag } from 'antd';
+import { TaskRunStatus } from '@/models';
+import { ACTIVE_RUN_STATUSES, useTaskStatusStore } from '@/stores/taskStatusStore';
+
+export const RUN_STATUS_TAGS: Record<TaskRunStatus, { color: string; text: string }> = {
+  planning: { color: 'purple', text: 'Planning' },
+  plan_review: { color: 'purple', text: 'Reviewing plan' },
+  running: { color: 'blue', text: 'Running' },
+  waiting_human: { color: 'orange', text: 'Waiting for you' },
+  paused: { color: 'gold', text: 'Paused' },
+  done: { color: 'green', text: 'Completed' },
+  error: { color: 'red', text: 'Error' },
+  aborted: { color: 'red', text: 'Aborted' },
+};
+
+// Format milliseconds as 1h 2m 3s
+export const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+// Statuses a task started before a config reload can be restarted in
+const RESTARTABLE_RUN_STATUSES: TaskRunStatus[] = ['running', 'waiting_human', 'paused'];
+
+/**
+ * Live status of the current task: status, current agent node, elapsed time, last tool call and configuration
+ * Hidden when the task is not active
+ */
+export const TaskStatusBar: React.FC<{ taskId?: string }> = ({ taskId }) => {
+  const { message } = App.useApp();
+  const status = useTaskStatusStore((state) => (taskId ? state.statuses[taskId] : undefined));
+  const isActive = !!status && ACTIVE_RUN_STATUSES.includes(status.status);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick elapsed time while active
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  if (!status || !isActive) {
+    return null;
+  }
+
+  const handleRestart = async () => {
+    try {
+      const result = await window.api.ekoRestartWithNewConfig(status.taskId);
+      if (!result.success) {
+        message.warning(result.message || 'Failed to restart task');
+      }
+    } catch (error: any) {
+      console.error('Failed to restart task:', error);
+      message.error(error?.message || 'Failed to restart task');
+    }
+  };
+
+  const tag = RUN_STATUS_TAGS[status.status];
+  return (
+    <div className="flex items-center gap-2 text-xs text-text-12-dark min-w-0">
+      <Tag color={tag.color} className="!mr-0">{tag.text}</Tag>
+      <span>{formatElapsed(now - new Date(status.startTime).getTime())}</span>
+      {status.agentName && (
+        <span className="truncate" title={status.currentNode}>
+          {status.agentName}{status.currentNode ? `: ${status.currentNode}` : ''}
+        </span>
+      )}
+      {status.lastToolCall && (
+        <span className="shrink-0">Last tool: {status.lastToolCall.toolName}</span>
+      )}
+      {status.llm?.fallback && (
+        <Tag color="orange" className="!mr-0 shrink-0">Fallback: {status.llm.provider}/{status.llm.model}</Tag>
+      )}
+      {status.config?.outdated && (
+        <>
+          <Tag color="gold" className="!mr-0 shrink-0" title="The configuration was changed after this task started">
+            Previous config: {status.config.provider}/{status.config.model}
+          </Tag>
+          {RESTARTABLE_RUN_STATUSES.includes(status.status) && (
+            <Button size="small" type="link" className="!px-0 shrink-0" onClick={handleRestart}>
+              Restart with new config
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
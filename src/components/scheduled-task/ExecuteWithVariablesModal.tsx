@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { Modal, Form, Input, InputNumber } from 'antd';
+import { ScheduledTask } from '@/models';
+
+interface ExecuteWithVariablesModalProps {
+  task: ScheduledTask | null;
+  onCancel: () => void;
+  onExecute: (variables: Record<string, string>) => void;
+}
+
+/**
+ * Ask for variable values before executing a task immediately
+ */
+export const ExecuteWithVariablesModal: React.FC<ExecuteWithVariablesModalProps> = ({ task, onCancel, onExecute }) => {
+  const [form] = Form.useForm();
+
+  // Populate default values (fan-out variable is left empty, so all its values run)
+  useEffect(() => {
+    if (task) {
+      form.resetFields();
+      form.setFieldsValue(
+        Object.fromEntries((task.variables || [])
+          .filter((variable) => variable.name !== task.fanOut?.variable)
+          .map((variable) => [variable.name, variable.defaultValue]))
+      );
+    }
+  }, [task, form]);
+
+  const handleOk = async () => {
+    const values = await form.validateFields();
+    const variables: Record<string, string> = {};
+    Object.entries(values).forEach(([name, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        variables[name] = String(value);
+      }
+    });
+    onExecute(variables);
+  };
+
+  return (
+    <Modal
+      open={!!task}
+      onCancel={onCancel}
+      onOk={handleOk}
+      title={`Execute "${task?.name || ''}"`}
+      okText="Execute"
+      cancelText="Cancel"
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        {(task?.variables || []).map((variable) => (
+          <Form.Item
+            key={variable.name}
+            name={variable.name}
+            label={`{{${variable.name}}}`}
+            extra={
+              task?.fanOut?.variable === variable.name
+                ? `Leave empty to run once per value: ${task.fanOut.values.join(', ')}`
+                : variable.description
+            }
+            rules={variable.type === 'date' ? [{ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'Use YYYY-MM-DD format' }] : undefined}
+          >
+            {variable.type === 'number' ? (
+              <InputNumber className="!w-full" />
+            ) : (
+              <Input
+                placeholder={variable.type === 'date' ? 'YYYY-MM-DD' : undefined}
+                className="!bg-main-view !border-border-message !text-text-01-dark"
+              />
+            )}
+          </Form.Item>
+        ))}
+      </Form>
+    </Modal>
+  );
+};
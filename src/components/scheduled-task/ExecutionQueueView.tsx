@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Empty, InputNumber, List, Tag, App } from 'antd';
+import { ArrowUpOutlined, ArrowDownOutlined, CloseOutlined } from '@ant-design/icons';
+import { QueuedExecution, SchedulerSettings, TaskPriority } from '@/models';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+
+// Queue refresh interval while the view is open
+const REFRESH_INTERVAL = 2000;
+
+const PRIORITY_TAGS: Record<TaskPriority, { color: string; text: string }> = {
+  high: { color: 'red', text: 'High' },
+  normal: { color: 'default', text: 'Normal' },
+  low: { color: 'blue', text: 'Low' },
+};
+
+/**
+ * Scheduler queue view
+ * Shows executions waiting for a free slot, allows reordering and cancelling them,
+ * and edits concurrency and queue age limits
+ */
+export const ExecutionQueueView: React.FC = () => {
+  const { message } = App.useApp();
+  const [queue, setQueue] = useState<QueuedExecution[]>([]);
+  const [runningCount, setRunningCount] = useState(0);
+  const [settings, setSettings] = useState<SchedulerSettings | null>(null);
+
+  const loadQueue = async () => {
+    if (typeof window === 'undefined' || !(window as any).api) {
+      return;
+    }
+    try {
+      const [items, status] = await Promise.all([
+        (window as any).api.invoke('scheduler:get-queue'),
+        (window as any).api.invoke('scheduler:get-status'),
+      ]);
+      setQueue(items || []);
+      setRunningCount(status?.runningCount || 0);
+    } catch (error) {
+      console.error('Failed to load scheduler queue:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && (window as any).api) {
+      (window as any).api.invoke('scheduler:get-settings').then(setSettings).catch((error: any) => {
+        console.error('Failed to load scheduler settings:', error);
+      });
+    }
+
+    loadQueue();
+    const timer = setInterval(loadQueue, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Save changed setting
+  const handleSettingChange = async (updates: Partial<SchedulerSettings>) => {
+    const result = await (window as any).api.invoke('scheduler:update-settings', updates);
+    if (result.success) {
+      setSettings(result.settings);
+      loadQueue();
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  // Move queued execution up or down
+  const handleMove = async (queueId: string, toIndex: number) => {
+    const result = await (window as any).api.invoke('scheduler:move-queued-task', queueId, toIndex);
+    if (!result.success) {
+      message.error(result.message);
+    }
+    loadQueue();
+  };
+
+  // Remove execution from queue
+  const handleCancel = async (queueId: string) => {
+    const result = await (window as any).api.invoke('scheduler:cancel-queued-task', queueId);
+    if (result.success) {
+      message.success('Removed from queue');
+    } else {
+      message.error(result.message);
+    }
+    loadQueue();
+  };
+
+  return (
+    <div className="execution-queue-view">
+      {/* Settings */}
+      {settings && (
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-text-12-dark">
+          <span>
+            Concurrent executions{' '}
+            <InputNumber
+              size="small"
+              min={1}
+              max={10}
+              precision={0}
+              value={settings.maxConcurrentTasks}
+              onChange={(value) => value && handleSettingChange({ maxConcurrentTasks: value })}
+              className="!w-16"
+            />
+          </span>
+          <span>
+            Max wait (minutes){' '}
+            <InputNumber
+              size="small"
+              min={0}
+              precision={0}
+              value={settings.maxQueueAgeMinutes || null}
+              placeholder="No limit"
+              onChange={(value) => handleSettingChange({ maxQueueAgeMinutes: value || 0 })}
+              className="!w-24"
+            />
+          </span>
+        </div>
+      )}
+
+      <div className="text-sm text-text-12-dark mb-2">
+        Running: {runningCount}{settings ? ` / ${settings.maxConcurrentTasks}` : ''}, queued: {queue.length}
+      </div>
+
+      {queue.length === 0 ? (
+        <Empty description="Queue is empty" image={Empty.PRESENTED_IMAGE_SIMPLE} />
+      ) : (
+        <List
+          dataSource={queue}
+          renderItem={(item, index) => (
+            <List.Item
+              className="!bg-tool-call !border !border-border-message rounded-lg px-4 mb-2"
+              key={item.queueId}
+            >
+              <div className="w-full px-2 flex items-center justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-text-01-dark font-semibold truncate">{item.taskName}</span>
+                    <Tag color={PRIORITY_TAGS[item.priority].color}>{PRIORITY_TAGS[item.priority].text}</Tag>
+                    {item.attempt > 1 && <Tag>Attempt {item.attempt}</Tag>}
+                  </div>
+                  <div className="text-xs text-text-12-dark">
+                    Queued {formatDistanceToNow(new Date(item.queuedAt), { addSuffix: true, locale: zhCN })}
+                    {item.variables && Object.keys(item.variables).length > 0 && (
+                      <span className="ml-2">
+                        {Object.entries(item.variables).map(([name, value]) => `${name}=${value}`).join(', ')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  size="small"
+                  icon={<ArrowUpOutlined />}
+                  disabled={index === 0}
+                  onClick={() => handleMove(item.queueId, index - 1)}
+                />
+                <Button
+                  size="small"
+                  icon={<ArrowDownOutlined />}
+                  disabled={index === queue.length - 1}
+                  onClick={() => handleMove(item.queueId, index + 1)}
+                />
+                <Button
+                  size="small"
+                  danger
+                  icon={<CloseOutlined />}
+                  onClick={() => handleCancel(item.queueId)}
+                />
+              </div>
+            </List.Item>
+          )}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,38 +1,117 @@
 import React from 'react';
-import { Form, Radio, InputNumber, Select, Space } from 'antd';
-import { ScheduleConfig } from '@/models';
+import { Form, Radio, InputNumber, Select, Space, Input, Checkbox, TimePicker, DatePicker, Button } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { ActiveWindow, RunConditions, ScheduleConfig } from '@/models';
 
 interface ScheduleConfigEditorProps {
   value?: ScheduleConfig;
   onChange?: (value: ScheduleConfig) => void;
 }
 
+// Number of upcoming execution times shown in preview
+const PREVIEW_COUNT = 5;
+
+const DAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const TIME_FORMAT = 'HH:mm';
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Get selectable IANA timezones
+ */
+const getTimezoneOptions = (): string[] => {
+  try {
+    return (Intl as any).supportedValuesOf('timeZone');
+  } catch {
+    return [];
+  }
+};
+
 /**
  * Schedule configuration editor
- * Supports interval time and Cron expression two methods
+ * Supports interval time and Cron expression two methods, or no time schedule (only run by triggers)
+ * Timed schedules can be limited to active hours, skip excluded dates and wait for run conditions
  */
 export const ScheduleConfigEditor: React.FC<ScheduleConfigEditorProps> = ({ value, onChange }) => {
-  const [scheduleType, setScheduleType] = React.useState<'interval' | 'cron'>(value?.type || 'interval');
+  const [scheduleType, setScheduleType] = React.useState<ScheduleConfig['type']>(value?.type || 'interval');
   const [intervalUnit, setIntervalUnit] = React.useState<'minute' | 'hour' | 'day'>(
     value?.intervalUnit || 'minute'
   );
   const [intervalValue, setIntervalValue] = React.useState<number>(value?.intervalValue || 1);
   const [cronExpression, setCronExpression] = React.useState<string>(value?.cronExpression || '');
+  const [timezone, setTimezone] = React.useState<string | undefined>(value?.timezone);
+  const [activeWindows, setActiveWindows] = React.useState<ActiveWindow[]>(value?.activeWindows || []);
+  const [excludedDates, setExcludedDates] = React.useState<string[]>(value?.excludedDates || []);
+  const [conditions, setConditions] = React.useState<RunConditions>(value?.conditions || {});
+  const [previewTimes, setPreviewTimes] = React.useState<Date[]>([]);
+  const [previewError, setPreviewError] = React.useState<string>('');
 
-  const handleChange = () => {
-    const config: ScheduleConfig = {
+  const timezoneOptions = React.useMemo(() => getTimezoneOptions(), []);
+
+  const buildConfig = (): ScheduleConfig => {
+    if (scheduleType === 'none') {
+      return { type: 'none' };
+    }
+    return {
       type: scheduleType,
       ...(scheduleType === 'interval'
         ? { intervalUnit, intervalValue }
-        : { cronExpression }),
+        : { cronExpression, timezone }),
+      ...(activeWindows.length > 0 ? { activeWindows } : {}),
+      ...(excludedDates.length > 0 ? { excludedDates } : {}),
+      ...(conditions.onAcPower || conditions.idleMinutes ? { conditions } : {}),
     };
+  };
+
+  // Update active window
+  const updateWindow = (index: number, updates: Partial<ActiveWindow>) => {
+    setActiveWindows(activeWindows.map((activeWindow, i) => (i === index ? { ...activeWindow, ...updates } : activeWindow)));
+  };
 
-    onChange?.(config);
+  const handleChange = () => {
+    onChange?.(buildConfig());
   };
 
   React.useEffect(() => {
     handleChange();
-  }, [scheduleType, intervalUnit, intervalValue, cronExpression]);
+  }, [scheduleType, intervalUnit, intervalValue, cronExpression, timezone, activeWindows, excludedDates, conditions]);
+
+  // Preview upcoming execution times (debounced while typing)
+  React.useEffect(() => {
+    if (scheduleType === 'none' || (scheduleType === 'cron' && !cronExpression.trim())) {
+      setPreviewTimes([]);
+      setPreviewError('');
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        if (typeof window === 'undefined' || !(window as any).api) return;
+
+        const result = await (window as any).api.invoke('scheduler:preview-schedule', buildConfig(), PREVIEW_COUNT);
+        if (result.success) {
+          setPreviewTimes(result.times.map((time: string | Date) => new Date(time)));
+          setPreviewError('');
+        } else {
+          setPreviewTimes([]);
+          setPreviewError(result.message);
+        }
+      } catch (error) {
+        console.error('Failed to preview schedule:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [scheduleType, intervalUnit, intervalValue, cronExpression, timezone, activeWindows, excludedDates]);
 
   const getIntervalText = () => {
     const unitText = {
@@ -43,6 +122,10 @@ export const ScheduleConfigEditor: React.FC<ScheduleConfigEditorProps> = ({ valu
     return `Execute every ${intervalValue} ${unitText[intervalUnit]}`;
   };
 
+  const formatPreviewTime = (time: Date) => {
+    return time.toLocaleString(undefined, scheduleType === 'cron' && timezone ? { timeZone: timezone } : undefined);
+  };
+
   return (
     <div className="schedule-config-editor">
       <Form.Item label="Schedule type">
@@ -51,9 +134,8 @@ export const ScheduleConfigEditor: React.FC<ScheduleConfigEditorProps> = ({ valu
           onChange={(e) => setScheduleType(e.target.value)}
         >
           <Radio value="interval">Interval time</Radio>
-          <Radio value="cron" disabled>
-            Cron expression (not supported yet)
-          </Radio>
+          <Radio value="cron">Cron expression</Radio>
+          <Radio value="none">Only when triggered</Radio>
         </Radio.Group>
       </Form.Item>
 
@@ -83,26 +165,139 @@ export const ScheduleConfigEditor: React.FC<ScheduleConfigEditorProps> = ({ valu
       )}
 
       {scheduleType === 'cron' && (
-        <Form.Item label="Cron expression">
-          <input
-            type="text"
-            value={cronExpression}
-            onChange={(e) => setCronExpression(e.target.value)}
-            placeholder="Example: 0 0 * * * (every day at 0:00)"
-            className="ant-input"
-            disabled
-          />
-          <div className="mt-2 text-sm text-gray-400">
-            Cron expression not supported yet, stay tuned
-          </div>
-        </Form.Item>
+        <>
+          <Form.Item
+            label="Cron expression"
+            validateStatus={previewError ? 'error' : undefined}
+            help={previewError || undefined}
+          >
+            <Input
+              value={cronExpression}
+              onChange={(e) => setCronExpression(e.target.value)}
+              placeholder="Example: 0 9 * * MON-FRI (weekdays at 9:00)"
+              className="!bg-main-view !border-border-message !text-text-01-dark font-mono"
+            />
+            <div className="mt-2 text-sm text-gray-400">
+              Format: [second] minute hour day month weekday. Supports ranges (1-5), steps (*/15), lists (1,15),
+              names (MON, JAN) and shortcuts (@hourly, @daily, @weekly, @monthly, @yearly)
+            </div>
+          </Form.Item>
+
+          <Form.Item label="Timezone">
+            <Select
+              showSearch
+              allowClear
+              value={timezone}
+              onChange={(val) => setTimezone(val || undefined)}
+              placeholder="Local time"
+              className="!w-64"
+              options={timezoneOptions.map((tz) => ({ value: tz, label: tz }))}
+            />
+          </Form.Item>
+        </>
+      )}
+
+      {scheduleType !== 'none' && (
+        <>
+          <Form.Item
+            label="Active hours"
+            tooltip="Executions only start inside these windows, e.g. 09:00-18:00 on weekdays. An end before the start continues into the next day"
+          >
+            {activeWindows.map((activeWindow, index) => (
+              <div key={index} className="flex items-center gap-2 mb-2">
+                <Checkbox.Group
+                  options={DAY_OPTIONS}
+                  value={activeWindow.days}
+                  onChange={(days) => updateWindow(index, { days: days as number[] })}
+                />
+                <TimePicker.RangePicker
+                  format={TIME_FORMAT}
+                  order={false}
+                  allowClear={false}
+                  value={[dayjs(activeWindow.start, TIME_FORMAT), dayjs(activeWindow.end, TIME_FORMAT)]}
+                  onChange={(range) => range?.[0] && range[1] && updateWindow(index, {
+                    start: range[0].format(TIME_FORMAT),
+                    end: range[1].format(TIME_FORMAT),
+                  })}
+                  className="!w-40"
+                />
+                <Button
+                  size="small"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => setActiveWindows(activeWindows.filter((_, i) => i !== index))}
+                />
+              </div>
+            ))}
+            <Button
+              icon={<PlusOutlined />}
+              onClick={() => setActiveWindows([...activeWindows, { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }])}
+            >
+              Add active window
+            </Button>
+            {activeWindows.length === 0 && (
+              <div className="mt-2 text-sm text-gray-400">No limit, executions may start at any time</div>
+            )}
+          </Form.Item>
+
+          <Form.Item label="Excluded dates" tooltip="No executions on these dates, e.g. holidays">
+            <DatePicker
+              multiple
+              format={DATE_FORMAT}
+              value={excludedDates.map((date) => dayjs(date, DATE_FORMAT))}
+              onChange={(dates) => setExcludedDates(
+                ((dates || []) as dayjs.Dayjs[]).map((date) => date.format(DATE_FORMAT)).sort()
+              )}
+              placeholder="None"
+              className="!w-full"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label="Run conditions"
+            tooltip="Due executions wait until conditions are met, while inside active hours"
+          >
+            <Space wrap size="large">
+              <Checkbox
+                checked={!!conditions.onAcPower}
+                onChange={(e) => setConditions({ ...conditions, onAcPower: e.target.checked || undefined })}
+              >
+                Only on AC power
+              </Checkbox>
+              <Space>
+                <span>Only when idle for</span>
+                <InputNumber
+                  min={1}
+                  precision={0}
+                  value={conditions.idleMinutes}
+                  onChange={(val) => setConditions({ ...conditions, idleMinutes: val || undefined })}
+                  placeholder="Any"
+                  className="!w-20"
+                />
+                <span>minutes</span>
+              </Space>
+            </Space>
+          </Form.Item>
+        </>
       )}
 
       <div className="mt-4 p-3 bg-tool-call rounded border border-border-message">
         <div className="text-sm text-text-12-dark">
           <strong>Execution rule:</strong>
-          {scheduleType === 'interval' ? getIntervalText() : 'Execute based on Cron expression'}
+          {scheduleType === 'interval' && getIntervalText()}
+          {scheduleType === 'cron' && `Execute based on Cron expression ${cronExpression}`}
+          {scheduleType === 'none' && 'Execute only when triggered by other tasks or manually'}
         </div>
+        {previewTimes.length > 0 && (
+          <div className="mt-2 text-sm text-text-12-dark">
+            <strong>Next {previewTimes.length} executions:</strong>
+            <ul className="mt-1 mb-0 pl-5 list-disc">
+              {previewTimes.map((time) => (
+                <li key={time.getTime()}>{formatPreviewTime(time)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
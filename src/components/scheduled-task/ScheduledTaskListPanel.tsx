@@ -1,8 +1,11 @@
-import React, { useEffect } from 'react';
-import { Drawer, List, Button, Switch, Popconfirm, Tag, Empty, App } from 'antd';
+import React, { useEffect, useState } from 'react';
+import { Drawer, List, Button, Switch, Popconfirm, Tag, Empty, Segmented, App } from 'antd';
 import { PlusOutlined, EditOutlined, DeleteOutlined, PlayCircleOutlined, ClockCircleOutlined } from '@ant-design/icons';
 import { useScheduledTaskStore } from '@/stores/scheduled-task-store';
 import { ScheduledTask } from '@/models';
+import { ExecuteWithVariablesModal } from './ExecuteWithVariablesModal';
+import { TaskGraphView } from './TaskGraphView';
+import { ExecutionQueueView } from './ExecutionQueueView';
 import { formatDistanceToNow } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 
@@ -24,6 +27,10 @@ export const ScheduledTaskListPanel: React.FC = () => {
     executeTaskNow,
   } = useScheduledTaskStore();
 
+  // Task waiting for variable values before executing
+  const [variablesTask, setVariablesTask] = useState<ScheduledTask | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'graph' | 'queue'>('list');
+
   useEffect(() => {
     if (showListPanel) {
       loadScheduledTasks();
@@ -47,11 +54,21 @@ export const ScheduledTaskListPanel: React.FC = () => {
     }
   };
 
-  // Execute immediately
-  const handleExecuteNow = async (task: ScheduledTask) => {
+  // Execute immediately (ask for variable values first if task has variables)
+  const handleExecuteNow = async (task: ScheduledTask, variables?: Record<string, string>) => {
+    if (!variables && task.variables && task.variables.length > 0) {
+      setVariablesTask(task);
+      return;
+    }
+
+    setVariablesTask(null);
     try {
-      await executeTaskNow(task);
-      message.success('Task has started executing');
+      const result = await executeTaskNow(task, variables);
+      if (result && !result.success) {
+        message.warning(result.message);
+      } else {
+        message.success('Task has started executing');
+      }
     } catch (error) {
       message.error('Execution failed');
     }
@@ -84,7 +101,18 @@ export const ScheduledTaskListPanel: React.FC = () => {
       };
       return `Every ${schedule.intervalValue} ${unitText[schedule.intervalUnit!]}`;
     }
-    return 'Cron';
+    if (schedule.type === 'none') {
+      return 'Only when triggered';
+    }
+    return `Cron: ${schedule.cronExpression}${schedule.timezone ? ` (${schedule.timezone})` : ''}`;
+  };
+
+  // Get trigger description
+  const getTriggerText = (task: ScheduledTask) => {
+    return (task.triggers || []).map((trigger) => {
+      const source = scheduledTasks.find((t) => t.id === trigger.taskId);
+      return `${source ? source.name : '(deleted task)'} ${trigger.on === 'success' ? 'succeeds' : 'fails'}`;
+    }).join(', ');
   };
 
   // Get last execution time description
@@ -109,6 +137,16 @@ export const ScheduledTaskListPanel: React.FC = () => {
         title={
           <div className="flex items-center justify-between">
             <span>Scheduled task list</span>
+            <Segmented
+              size="small"
+              value={viewMode}
+              onChange={(value) => setViewMode(value as 'list' | 'graph' | 'queue')}
+              options={[
+                { value: 'list', label: 'List' },
+                { value: 'graph', label: 'Graph' },
+                { value: 'queue', label: 'Queue' },
+              ]}
+            />
             <Button
               type="primary"
               icon={<PlusOutlined />}
@@ -141,7 +179,9 @@ export const ScheduledTaskListPanel: React.FC = () => {
         }
       }}
       >
-        {scheduledTasks.length === 0 ? (
+        {viewMode === 'queue' ? (
+          <ExecutionQueueView />
+        ) : scheduledTasks.length === 0 ? (
           <Empty
             description="No scheduled tasks yet"
             image={Empty.PRESENTED_IMAGE_SIMPLE}
@@ -157,6 +197,8 @@ export const ScheduledTaskListPanel: React.FC = () => {
               Create first task
             </Button>
           </Empty>
+        ) : viewMode === 'graph' ? (
+          <TaskGraphView tasks={scheduledTasks} onSelectTask={handleEdit} />
         ) : (
           <List
             dataSource={scheduledTasks}
@@ -201,6 +243,15 @@ export const ScheduledTaskListPanel: React.FC = () => {
                     </span>
                     <span>Last executed: {getLastExecutedText(task)}</span>
                     <span>Steps: {task.steps.length}</span>
+                    {(task.schedule.activeWindows?.length || task.schedule.excludedDates?.length || task.schedule.conditions) && (
+                      <span>With run restrictions</span>
+                    )}
+                    {task.triggers && task.triggers.length > 0 && (
+                      <span>After: {getTriggerText(task)}</span>
+                    )}
+                    {task.fanOut && task.fanOut.values.length > 0 && (
+                      <span>Runs per {task.fanOut.variable}: {task.fanOut.values.length}</span>
+                    )}
                   </div>
 
                   {/* Action buttons */}
@@ -249,6 +300,12 @@ export const ScheduledTaskListPanel: React.FC = () => {
           />
         )}
       </Drawer>
+
+      <ExecuteWithVariablesModal
+        task={variablesTask}
+        onCancel={() => setVariablesTask(null)}
+        onExecute={(variables) => variablesTask && handleExecuteNow(variablesTask, variables)}
+      />
     </>
   );
 };
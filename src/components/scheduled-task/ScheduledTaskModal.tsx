@@ -1,9 +1,17 @@
-import React, { useEffect } from 'react';
-import { Modal, Form, Input, Switch, App } from 'antd';
+import React, { useEffect, useState } from 'react';
+import { Modal, Form, Input, InputNumber, Switch, Select, Space, Radio, Checkbox, Button, App } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
 import { TaskStepEditor } from './TaskStepEditor';
 import { ScheduleConfigEditor } from './ScheduleConfigEditor';
+import { TaskVariableEditor } from './TaskVariableEditor';
 import { useScheduledTaskStore } from '@/stores/scheduled-task-store';
-import { TaskStep, ScheduleConfig } from '@/models';
+import { TaskStep, TaskVariable, TaskTrigger, ScheduleConfig, HumanPolicy } from '@/models';
+import { findTriggerCycle } from '@/utils/taskGraph';
+import { getModelOptions, parseModelValue, toModelValue } from '@/config/modelOptions';
+import type { CustomProviderConfig, DiscoveredModel, ProviderType } from '@/type';
+
+// Matches the main process default for tasks saved without a policy
+const DEFAULT_HUMAN_POLICY: HumanPolicy = { timeoutSeconds: 300, defaultAnswer: 'reject' };
 
 /**
  * Scheduled task create/edit modal
@@ -11,6 +19,8 @@ import { TaskStep, ScheduleConfig } from '@/models';
 export const ScheduledTaskModal: React.FC = () => {
   const { message } = App.useApp();
   const [form] = Form.useForm();
+  const [customProviders, setCustomProviders] = useState<CustomProviderConfig[]>([]);
+  const [discoveredModels, setDiscoveredModels] = useState<Record<string, DiscoveredModel[]>>({});
 
   const {
     showCreateModal,
@@ -19,8 +29,28 @@ export const ScheduledTaskModal: React.FC = () => {
     selectedTask,
     createTask,
     updateTask,
+    scheduledTasks,
   } = useScheduledTaskStore();
 
+  // Tasks that can trigger the edited task
+  const triggerSourceOptions = scheduledTasks
+    .filter((task) => !(isEditMode && task.id === selectedTask?.id))
+    .map((task) => ({ value: task.id, label: task.name }));
+
+  // Custom providers and fetched models for the model options
+  useEffect(() => {
+    if (showCreateModal) {
+      Promise.all([window.api.getUserModelConfigs(), window.api.getDiscoveredModels()])
+        .then(([configs, discovered]) => {
+          setCustomProviders(configs.customProviders || []);
+          setDiscoveredModels(discovered);
+        })
+        .catch((error) => {
+          console.error('Failed to load model configs:', error);
+        });
+    }
+  }, [showCreateModal]);
+
   // Initialize form
   useEffect(() => {
     if (showCreateModal) {
@@ -31,6 +61,20 @@ export const ScheduledTaskModal: React.FC = () => {
           description: selectedTask.description,
           steps: selectedTask.steps,
           schedule: selectedTask.schedule,
+          misfirePolicy: selectedTask.misfirePolicy || 'run-once',
+          priority: selectedTask.priority || 'normal',
+          retry: selectedTask.retry,
+          executionMode: selectedTask.executionMode || 'combined',
+          passPreviousResult: selectedTask.passPreviousResult,
+          variables: selectedTask.variables || [],
+          fanOut: selectedTask.fanOut,
+          triggers: selectedTask.triggers || [],
+          notifyOn: selectedTask.notifyOn || 'all',
+          resultSinks: selectedTask.resultSinks || [],
+          humanPolicy: selectedTask.humanPolicy || DEFAULT_HUMAN_POLICY,
+          model: selectedTask.model
+            ? toModelValue({ ...selectedTask.model, provider: selectedTask.model.provider as ProviderType }, customProviders)
+            : undefined,
           enabled: selectedTask.enabled,
         });
       } else {
@@ -43,6 +87,14 @@ export const ScheduledTaskModal: React.FC = () => {
             intervalUnit: 'minute',
             intervalValue: 1,
           },
+          misfirePolicy: 'run-once',
+          priority: 'normal',
+          executionMode: 'combined',
+          variables: [],
+          triggers: [],
+          notifyOn: 'all',
+          resultSinks: [],
+          humanPolicy: DEFAULT_HUMAN_POLICY,
           steps: [],
         });
       }
@@ -77,6 +129,18 @@ export const ScheduledTaskModal: React.FC = () => {
           description: values.description,
           steps: values.steps,
           schedule: values.schedule,
+          misfirePolicy: values.misfirePolicy,
+          priority: values.priority,
+          retry: values.retry,
+          executionMode: values.executionMode,
+          passPreviousResult: values.passPreviousResult,
+          variables: values.variables,
+          fanOut: values.fanOut?.variable && values.fanOut.values?.length ? values.fanOut : undefined,
+          triggers: (values.triggers || []).filter((trigger: TaskTrigger) => trigger?.taskId),
+          notifyOn: values.notifyOn,
+          resultSinks: values.resultSinks || [],
+          humanPolicy: values.humanPolicy,
+          model: values.model ? parseModelValue(values.model) : undefined,
           enabled: values.enabled,
           source: 'manual', // Manually created task
         });
@@ -89,6 +153,18 @@ export const ScheduledTaskModal: React.FC = () => {
           description: values.description,
           steps: values.steps,
           schedule: values.schedule,
+          misfirePolicy: values.misfirePolicy,
+          priority: values.priority,
+          retry: values.retry,
+          executionMode: values.executionMode,
+          passPreviousResult: values.passPreviousResult,
+          variables: values.variables,
+          fanOut: values.fanOut?.variable && values.fanOut.values?.length ? values.fanOut : undefined,
+          triggers: (values.triggers || []).filter((trigger: TaskTrigger) => trigger?.taskId),
+          notifyOn: values.notifyOn,
+          resultSinks: values.resultSinks || [],
+          humanPolicy: values.humanPolicy,
+          model: values.model ? parseModelValue(values.model) : undefined,
           enabled: values.enabled,
           source: 'manual',
         });
@@ -166,15 +242,325 @@ export const ScheduledTaskModal: React.FC = () => {
           <TaskStepEditor />
         </Form.Item>
 
+        {/* Variables */}
+        <Form.Item noStyle dependencies={['steps']}>
+          {({ getFieldValue }) => (
+            <Form.Item
+              name="variables"
+              label="Variables"
+              rules={[
+                {
+                  validator: async (_, value: TaskVariable[]) => {
+                    const names = (value || []).map((variable) => variable.name);
+                    if (names.some((name) => !/^[A-Za-z_]\w*$/.test(name))) {
+                      throw new Error('Variable names may only contain letters, digits and underscores');
+                    }
+                    if (new Set(names).size !== names.length) {
+                      throw new Error('Variable names must be unique');
+                    }
+                  },
+                },
+              ]}
+            >
+              <TaskVariableEditor steps={getFieldValue('steps')} />
+            </Form.Item>
+          )}
+        </Form.Item>
+
+        {/* Fan-out */}
+        <Form.Item noStyle dependencies={['variables']}>
+          {({ getFieldValue }) => {
+            const variables: TaskVariable[] = getFieldValue('variables') || [];
+            if (variables.length === 0) return null;
+
+            return (
+              <Form.Item
+                label="Run once per value"
+                tooltip="Each value runs as its own execution"
+              >
+                <Space wrap>
+                  <Form.Item name={['fanOut', 'variable']} noStyle>
+                    <Select
+                      allowClear
+                      placeholder="Variable"
+                      className="!w-40"
+                      options={variables.filter((variable) => variable.name).map((variable) => ({ value: variable.name, label: variable.name }))}
+                    />
+                  </Form.Item>
+                  <Form.Item name={['fanOut', 'values']} noStyle>
+                    <Select
+                      mode="tags"
+                      placeholder="Values, e.g. AAPL, MSFT"
+                      className="!min-w-[280px]"
+                      tokenSeparators={[',']}
+                      open={false}
+                    />
+                  </Form.Item>
+                </Space>
+              </Form.Item>
+            );
+          }}
+        </Form.Item>
+
+        {/* Execution mode */}
+        <Form.Item
+          name="executionMode"
+          label="Execution mode"
+          tooltip="Step by step runs each step separately, shows per-step results and can resume from a failed step"
+        >
+          <Radio.Group>
+            <Radio value="combined">All steps at once</Radio>
+            <Radio value="step-by-step">Step by step</Radio>
+          </Radio.Group>
+        </Form.Item>
+
+        <Form.Item noStyle dependencies={['executionMode']}>
+          {({ getFieldValue }) =>
+            getFieldValue('executionMode') === 'step-by-step' && (
+              <Form.Item name="passPreviousResult" valuePropName="checked">
+                <Checkbox>Pass the result of each step to the next step</Checkbox>
+              </Form.Item>
+            )
+          }
+        </Form.Item>
+
         {/* Schedule configuration */}
         <Form.Item
           name="schedule"
           label="Schedule configuration"
-          rules={[{ required: true, message: 'Please configure execution interval' }]}
+          rules={[
+            { required: true, message: 'Please configure execution interval' },
+            {
+              validator: async (_, value: ScheduleConfig) => {
+                if (value?.type !== 'cron') return;
+                if (!value.cronExpression?.trim()) {
+                  throw new Error('Please enter cron expression');
+                }
+                if (typeof window !== 'undefined' && (window as any).api) {
+                  const result = await (window as any).api.invoke('scheduler:preview-schedule', value, 1);
+                  if (!result.success) {
+                    throw new Error(result.message);
+                  }
+                }
+              },
+            },
+          ]}
         >
           <ScheduleConfigEditor />
         </Form.Item>
 
+        {/* Missed execution handling */}
+        <Form.Item
+          name="misfirePolicy"
+          label="Missed executions (app closed or computer asleep)"
+        >
+          <Select className="!w-64">
+            <Select.Option value="run-once">Run once</Select.Option>
+            <Select.Option value="run-all">Run all missed</Select.Option>
+            <Select.Option value="skip">Skip</Select.Option>
+          </Select>
+        </Form.Item>
+
+        {/* Queue priority */}
+        <Form.Item
+          name="priority"
+          label="Priority"
+          tooltip="When the concurrency limit is reached, higher priority executions leave the queue first"
+        >
+          <Select className="!w-64">
+            <Select.Option value="high">High</Select.Option>
+            <Select.Option value="normal">Normal</Select.Option>
+            <Select.Option value="low">Low</Select.Option>
+          </Select>
+        </Form.Item>
+
+        {/* Failure handling */}
+        <Form.Item label="Failure handling" className="!mb-0">
+          <Space wrap size="large">
+            <Form.Item name={['retry', 'timeoutMinutes']} label="Timeout (minutes)">
+              <InputNumber min={1} placeholder="No limit" className="!w-32" />
+            </Form.Item>
+            <Form.Item name={['retry', 'maxRetries']} label="Retries">
+              <InputNumber min={0} max={10} placeholder="0" className="!w-32" />
+            </Form.Item>
+            <Form.Item name={['retry', 'retryDelaySeconds']} label="Retry delay (seconds)" tooltip="Doubled after each failed attempt">
+              <InputNumber min={1} placeholder="60" className="!w-32" />
+            </Form.Item>
+            <Form.Item name={['retry', 'disableAfterFailures']} label="Disable after failures" tooltip="Consecutive failed executions, after all retries">
+              <InputNumber min={1} placeholder="Never" className="!w-32" />
+            </Form.Item>
+          </Space>
+        </Form.Item>
+
+        {/* Triggers */}
+        <Form.Item
+          label="Also run when"
+          tooltip="Run this task after other scheduled tasks finish (after their retries)"
+        >
+          <Form.List
+            name="triggers"
+            rules={[
+              {
+                validator: async (_, value: TaskTrigger[]) => {
+                  const triggers = (value || []).filter((trigger) => trigger?.taskId);
+                  const taskId = isEditMode && selectedTask ? selectedTask.id : '__new__';
+                  const cycle = findTriggerCycle(scheduledTasks, taskId, triggers);
+                  if (cycle) {
+                    const names = cycle.map((id) =>
+                      id === taskId ? (form.getFieldValue('name') || 'This task') : scheduledTasks.find((task) => task.id === id)?.name || id
+                    );
+                    throw new Error(`Triggers form a cycle: ${names.join(' → ')}`);
+                  }
+                },
+              },
+            ]}
+          >
+            {(fields, { add, remove }, { errors }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} className="mb-2">
+                    <Form.Item name={[field.name, 'taskId']} noStyle>
+                      <Select placeholder="Task" className="!w-56" options={triggerSourceOptions} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'on']} noStyle>
+                      <Select
+                        className="!w-32"
+                        options={[
+                          { value: 'success', label: 'succeeds' },
+                          { value: 'failure', label: 'fails' },
+                        ]}
+                      />
+                    </Form.Item>
+                    <Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button
+                  icon={<PlusOutlined />}
+                  onClick={() => add({ on: 'success' })}
+                  disabled={triggerSourceOptions.length === 0}
+                >
+                  Add trigger
+                </Button>
+                <Form.ErrorList errors={errors} />
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+
+        {/* Notifications */}
+        <Form.Item name="notifyOn" label="Desktop notification">
+          <Select className="!w-64">
+            <Select.Option value="all">On completion and failure</Select.Option>
+            <Select.Option value="failure">Only on failure</Select.Option>
+            <Select.Option value="none">Never</Select.Option>
+          </Select>
+        </Form.Item>
+
+        {/* Result delivery */}
+        <Form.Item label="Deliver results" tooltip="Result of each successful execution is delivered to these destinations">
+          <Form.List name="resultSinks">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} className="mb-2 w-full" align="start">
+                    <Form.Item name={[field.name, 'type']} noStyle>
+                      <Select
+                        className="!w-44"
+                        options={[
+                          { value: 'file', label: 'Write to file' },
+                          { value: 'webhook', label: 'POST to webhook' },
+                          { value: 'digest', label: 'Daily digest' },
+                        ]}
+                      />
+                    </Form.Item>
+                    <Form.Item noStyle dependencies={[['resultSinks', field.name, 'type']]}>
+                      {() => {
+                        const type = form.getFieldValue(['resultSinks', field.name, 'type']);
+                        if (type === 'file') {
+                          return (
+                            <Form.Item name={[field.name, 'fileName']} className="!mb-0">
+                              <Input
+                                placeholder="Task name and time, e.g. report-{{today}}.md"
+                                className="!w-72 !bg-main-view !border-border-message !text-text-01-dark"
+                              />
+                            </Form.Item>
+                          );
+                        }
+                        if (type === 'webhook') {
+                          return (
+                            <Form.Item
+                              name={[field.name, 'url']}
+                              className="!mb-0"
+                              rules={[
+                                { required: true, message: 'Please enter webhook URL' },
+                                { pattern: /^https?:\/\/\S+$/, message: 'Use an http(s) URL' },
+                              ]}
+                            >
+                              <Input
+                                placeholder="http://localhost:8080/hook"
+                                className="!w-72 !bg-main-view !border-border-message !text-text-01-dark"
+                              />
+                            </Form.Item>
+                          );
+                        }
+                        return <span className="leading-8 text-sm text-gray-400">Appended to digests/digest-YYYY-MM-DD.md</span>;
+                      }}
+                    </Form.Item>
+                    <Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} className="mt-1" />
+                  </Space>
+                ))}
+                <Button icon={<PlusOutlined />} onClick={() => add({ type: 'file' })}>
+                  Add destination
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+
+        {/* Unattended answers to agent requests */}
+        <Form.Item
+          label="Unattended approvals"
+          tooltip="When the agent asks for confirmation or input and nobody answers in the task window, this answer is applied"
+        >
+          <Space wrap>
+            <span className="text-sm text-gray-400">After</span>
+            <Form.Item name={['humanPolicy', 'timeoutSeconds']} noStyle>
+              <InputNumber min={0} precision={0} className="!w-24" />
+            </Form.Item>
+            <span className="text-sm text-gray-400">seconds</span>
+            <Form.Item name={['humanPolicy', 'defaultAnswer']} noStyle>
+              <Select
+                className="!w-32"
+                options={[
+                  { value: 'reject', label: 'Decline' },
+                  { value: 'approve', label: 'Approve' },
+                ]}
+              />
+            </Form.Item>
+            <Form.Item name={['humanPolicy', 'defaultInput']} noStyle>
+              <Input
+                placeholder="Default text input"
+                className="!w-48 !bg-main-view !border-border-message !text-text-01-dark"
+              />
+            </Form.Item>
+          </Space>
+        </Form.Item>
+
+        {/* Model override of the task's runs */}
+        <Form.Item
+          name="model"
+          label="Model"
+          tooltip="Runs of this task use this model for planning and all agents, e.g. a cheap model for routine scrapes"
+        >
+          <Select
+            allowClear
+            showSearch
+            placeholder="Configured provider and routing"
+            options={getModelOptions(customProviders, undefined, discoveredModels)}
+            className="!w-80"
+          />
+        </Form.Item>
+
         {/* Whether to enable */}
         <Form.Item
           name="enabled"
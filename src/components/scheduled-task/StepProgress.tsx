@@ -0,0 +1,79 @@
+import React from 'react';
+import { Button, Image, Tag, Typography } from 'antd';
+import { RedoOutlined } from '@ant-design/icons';
+import { StepResult, StepStatus } from '@/models';
+
+interface StepProgressProps {
+  steps: StepResult[];
+  canResume?: boolean;
+  onResume?: (stepId: string) => void;
+}
+
+const statusTags: Record<StepStatus, { color: string; text: string }> = {
+  pending: { color: 'default', text: 'Pending' },
+  running: { color: 'processing', text: 'Running' },
+  done: { color: 'success', text: 'Completed' },
+  error: { color: 'error', text: 'Failed' },
+  abort: { color: 'warning', text: 'Aborted' },
+  skipped: { color: 'default', text: 'Skipped' },
+};
+
+/**
+ * Step progress of a step-by-step scheduled execution
+ * Shows status, output and screenshot of each step, and allows resuming from the failed step
+ */
+export const StepProgress: React.FC<StepProgressProps> = ({ steps, canResume = false, onResume }) => {
+  return (
+    <div className="p-3 bg-tool-call rounded border border-border-message">
+      <div className="text-sm font-medium mb-2">Steps</div>
+      <div className="flex flex-col gap-2 max-h-[240px] overflow-y-auto">
+        {steps.map((step, index) => {
+          const tag = statusTags[step.status];
+          const failed = step.status === 'error' || step.status === 'abort';
+
+          return (
+            <div key={step.stepId} className="flex gap-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-text-12-dark">{index + 1}.</span>
+                  <span className="truncate">{step.name}</span>
+                  <Tag color={tag.color} className="!mr-0">{tag.text}</Tag>
+                  {failed && canResume && onResume && (
+                    <Button
+                      type="link"
+                      size="small"
+                      icon={<RedoOutlined />}
+                      onClick={() => onResume(step.stepId)}
+                    >
+                      Resume from this step
+                    </Button>
+                  )}
+                </div>
+                {step.error && (
+                  <div className="text-xs text-red-500 mt-1">{step.error}</div>
+                )}
+                {step.result && (
+                  <Typography.Paragraph
+                    className="!text-xs !text-text-12-dark !mt-1 !mb-0"
+                    ellipsis={{ rows: 2, expandable: true, symbol: 'more' }}
+                  >
+                    {step.result}
+                  </Typography.Paragraph>
+                )}
+              </div>
+              {step.screenshot && (
+                <Image
+                  src={step.screenshot}
+                  width={64}
+                  height={48}
+                  className="object-cover rounded"
+                  alt={step.name}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
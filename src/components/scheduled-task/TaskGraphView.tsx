@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { Empty } from 'antd';
+import { ScheduledTask } from '@/models';
+import { computeTaskLevels } from '@/utils/taskGraph';
+
+interface TaskGraphViewProps {
+  tasks: ScheduledTask[];
+  onSelectTask?: (task: ScheduledTask) => void;
+}
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 40;
+const GAP_X = 24;
+const GAP_Y = 56;
+const PADDING = 16;
+
+const EDGE_COLORS = {
+  success: '#52c41a',
+  failure: '#ff4d4f',
+};
+
+/**
+ * Dependency graph of scheduled tasks
+ * Tasks are laid out top to bottom by trigger level, edges point from upstream task to triggered task
+ */
+export const TaskGraphView: React.FC<TaskGraphViewProps> = ({ tasks, onSelectTask }) => {
+  const layout = useMemo(() => {
+    const levels = computeTaskLevels(tasks);
+    const rows: ScheduledTask[][] = [];
+    tasks.forEach((task) => {
+      const level = levels.get(task.id) || 0;
+      (rows[level] = rows[level] || []).push(task);
+    });
+
+    const positions = new Map<string, { x: number; y: number }>();
+    rows.forEach((row, level) => {
+      row.forEach((task, index) => {
+        positions.set(task.id, {
+          x: PADDING + index * (NODE_WIDTH + GAP_X),
+          y: PADDING + level * (NODE_HEIGHT + GAP_Y),
+        });
+      });
+    });
+
+    const maxColumns = Math.max(0, ...rows.map((row) => (row ? row.length : 0)));
+    return {
+      positions,
+      width: PADDING * 2 + maxColumns * NODE_WIDTH + Math.max(0, maxColumns - 1) * GAP_X,
+      height: PADDING * 2 + rows.length * NODE_HEIGHT + Math.max(0, rows.length - 1) * GAP_Y,
+    };
+  }, [tasks]);
+
+  if (tasks.length === 0) {
+    return <Empty description="No scheduled tasks yet" image={Empty.PRESENTED_IMAGE_SIMPLE} />;
+  }
+
+  return (
+    <div className="overflow-auto">
+      <svg width={layout.width} height={layout.height}>
+        <defs>
+          {Object.entries(EDGE_COLORS).map(([on, color]) => (
+            <marker
+              key={on}
+              id={`task-graph-arrow-${on}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
+        {/* Edges */}
+        {tasks.map((task) =>
+          (task.triggers || []).map((trigger) => {
+            const from = layout.positions.get(trigger.taskId);
+            const to = layout.positions.get(task.id);
+            if (!from || !to) return null;
+
+            const x1 = from.x + NODE_WIDTH / 2;
+            const y1 = from.y + NODE_HEIGHT;
+            const x2 = to.x + NODE_WIDTH / 2;
+            const y2 = to.y;
+            const midY = (y1 + y2) / 2;
+
+            return (
+              <path
+                key={`${trigger.taskId}-${task.id}-${trigger.on}`}
+                d={`M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`}
+                fill="none"
+                stroke={EDGE_COLORS[trigger.on]}
+                strokeWidth={1.5}
+                strokeDasharray={trigger.on === 'failure' ? '4 3' : undefined}
+                markerEnd={`url(#task-graph-arrow-${trigger.on})`}
+              />
+            );
+          })
+        )}
+
+        {/* Nodes */}
+        {tasks.map((task) => {
+          const position = layout.positions.get(task.id);
+          if (!position) return null;
+
+          return (
+            <g
+              key={task.id}
+              transform={`translate(${position.x}, ${position.y})`}
+              className="cursor-pointer"
+              onClick={() => onSelectTask?.(task)}
+            >
+              <title>{task.name}</title>
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={6}
+                fill="rgba(255, 255, 255, 0.04)"
+                stroke={task.enabled ? 'rgba(94, 49, 216, 0.8)' : 'rgba(255, 255, 255, 0.2)'}
+              />
+              <text
+                x={NODE_WIDTH / 2}
+                y={NODE_HEIGHT / 2}
+                dominantBaseline="middle"
+                textAnchor="middle"
+                fontSize={12}
+                fill={task.enabled ? '#fff' : 'rgba(255, 255, 255, 0.45)'}
+              >
+                {task.name.length > 20 ? `${task.name.slice(0, 19)}…` : task.name}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex gap-4 text-xs text-text-12-dark mt-2">
+        <span style={{ color: EDGE_COLORS.success }}>── on success</span>
+        <span style={{ color: EDGE_COLORS.failure }}>- - on failure</span>
+      </div>
+    </div>
+  );
+};
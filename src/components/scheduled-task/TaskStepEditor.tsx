@@ -157,7 +157,7 @@ export const TaskStepEditor: React.FC<TaskStepEditorProps> = ({ value = [], onCh
                     className="!bg-main-view !border-border-message !text-text-01-dark"
                   />
                   <Input.TextArea
-                    placeholder="Step description (will be part of the prompt)"
+                    placeholder="Step description (will be part of the prompt, use {{name}} for variables)"
                     value={step.content}
                     onChange={(e) =>
                       handleUpdateStep(step.id, { content: e.target.value })
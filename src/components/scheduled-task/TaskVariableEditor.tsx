@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Input, Select } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { TaskStep, TaskVariable } from '@/models';
+import { BUILTIN_VARIABLES, extractPlaceholders } from '@/utils/taskVariables';
+
+interface TaskVariableEditorProps {
+  value?: TaskVariable[];
+  onChange?: (variables: TaskVariable[]) => void;
+  steps?: TaskStep[];
+}
+
+/**
+ * Task variable editor
+ * Defines {{name}} placeholders used in step content, with type and default value
+ */
+export const TaskVariableEditor: React.FC<TaskVariableEditorProps> = ({ value = [], onChange, steps = [] }) => {
+  const [variables, setVariables] = useState<TaskVariable[]>(value);
+
+  useEffect(() => {
+    setVariables(value);
+  }, [value]);
+
+  const update = (newVariables: TaskVariable[]) => {
+    setVariables(newVariables);
+    onChange?.(newVariables);
+  };
+
+  // Placeholders used in steps but not defined yet
+  const undefinedPlaceholders = extractPlaceholders(steps).filter(
+    (name) => !BUILTIN_VARIABLES.includes(name) && !variables.some((variable) => variable.name === name)
+  );
+
+  // Add new variable
+  const handleAdd = (name: string = '') => {
+    update([...variables, { name, type: 'string', defaultValue: '' }]);
+  };
+
+  // Add all placeholders used in steps
+  const handleAddUndefined = () => {
+    update([
+      ...variables,
+      ...undefinedPlaceholders.map((name) => ({ name, type: 'string' as const, defaultValue: '' })),
+    ]);
+  };
+
+  // Update variable
+  const handleUpdate = (index: number, updates: Partial<TaskVariable>) => {
+    update(variables.map((variable, i) => (i === index ? { ...variable, ...updates } : variable)));
+  };
+
+  // Delete variable
+  const handleRemove = (index: number) => {
+    update(variables.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="task-variable-editor">
+      {variables.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {variables.map((variable, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                placeholder="Name"
+                value={variable.name}
+                onChange={(e) => handleUpdate(index, { name: e.target.value.trim() })}
+                addonBefore="{{"
+                addonAfter="}}"
+                className="!w-56"
+              />
+              <Select
+                value={variable.type}
+                onChange={(type) => handleUpdate(index, { type })}
+                className="!w-28"
+                options={[
+                  { value: 'string', label: 'Text' },
+                  { value: 'number', label: 'Number' },
+                  { value: 'date', label: 'Date' },
+                ]}
+              />
+              <Input
+                placeholder="Default value"
+                value={variable.defaultValue}
+                onChange={(e) => handleUpdate(index, { defaultValue: e.target.value })}
+                className="flex-1 !bg-main-view !border-border-message !text-text-01-dark"
+              />
+              <Button
+                size="small"
+                danger
+                icon={<DeleteOutlined />}
+                onClick={() => handleRemove(index)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button icon={<PlusOutlined />} onClick={() => handleAdd()}>
+          Add variable
+        </Button>
+        {undefinedPlaceholders.length > 0 && (
+          <Button type="dashed" onClick={handleAddUndefined}>
+            Add from steps: {undefinedPlaceholders.join(', ')}
+          </Button>
+        )}
+      </div>
+      <div className="mt-2 text-sm text-gray-400">
+        Use {'{{name}}'} in step content. Built-in: {BUILTIN_VARIABLES.map((name) => `{{${name}}}`).join(', ')}
+      </div>
+    </div>
+  );
+};
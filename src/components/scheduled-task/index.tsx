@@ -5,3 +5,8 @@ export { ScheduledTaskModal } from './ScheduledTaskModal';
 export { ScheduledTaskListPanel } from './ScheduledTaskListPanel';
 export { TaskStepEditor } from './TaskStepEditor';
 export { ScheduleConfigEditor } from './ScheduleConfigEditor';
+export { StepProgress } from './StepProgress';
+export { TaskVariableEditor } from './TaskVariableEditor';
+export { ExecuteWithVariablesModal } from './ExecuteWithVariablesModal';
+export { TaskGraphView } from './TaskGraphView';
+export { ExecutionQueueView } from './ExecutionQueueView';
@@ -0,0 +1,91 @@
+// config/modelOptions.ts - Provider and model options shared by model settings and scheduled tasks
+import type { BuiltinProviderType, CustomProviderConfig, DiscoveredModel, FallbackModel, ProviderType } from '@/type';
+
+// Provider options
+export const PROVIDERS: { value: BuiltinProviderType; label: string; getKeyUrl: string }[] = [
+  { value: 'deepseek', label: 'Deepseek', getKeyUrl: 'https://platform.deepseek.com/api_keys' },
+  { value: 'qwen', label: 'Qwen (Alibaba)', getKeyUrl: 'https://bailian.console.aliyun.com/' },
+  { value: 'google', label: 'Google Gemini', getKeyUrl: 'https://aistudio.google.com/app/apikey' },
+  { value: 'anthropic', label: 'Anthropic', getKeyUrl: 'https://console.anthropic.com/settings/keys' },
+  { value: 'openrouter', label: 'OpenRouter', getKeyUrl: 'https://openrouter.ai/keys' },
+];
+
+// Model options for each provider
+export const MODELS: Record<string, string[]> = {
+  deepseek: [
+    'deepseek-chat',
+    'deepseek-reasoner',
+  ],
+  google: [
+    'gemini-1.5-flash-latest',
+    'gemini-2.0-flash-thinking-exp-01-21',
+    'gemini-2.0-flash-exp',
+    'gemini-1.5-flash-002',
+    'gemini-1.5-flash-8b',
+    'gemini-1.5-pro-latest',
+    'gemini-1.5-pro-002',
+    'gemini-exp-1206',
+  ],
+  openrouter: [
+    'anthropic/claude-3.5-sonnet',
+    'anthropic/claude-3-haiku',
+    'deepseek/deepseek-coder',
+    'google/gemini-flash-1.5',
+    'google/gemini-pro-1.5',
+    'x-ai/grok-beta',
+    'mistralai/mistral-nemo',
+    'qwen/qwen-110b-chat',
+    'cohere/command',
+  ],
+  anthropic: [
+    'claude-3-7-sonnet-20250219',
+    'claude-3-5-sonnet-latest',
+    'claude-3-5-sonnet-20240620',
+    'claude-3-5-haiku-latest',
+    'claude-3-opus-latest',
+    'claude-3-sonnet-20240229',
+    'claude-3-haiku-20240307',
+  ],
+  qwen: [
+    'qwen-max',
+    'qwen-plus',
+    'qwen-vl-max',
+  ],
+};
+
+// Models of a built-in or custom provider, followed by the ones fetched from the provider
+export const getProviderModels = (
+  provider: ProviderType,
+  customProviders: CustomProviderConfig[] = [],
+  discovered: Record<string, DiscoveredModel[]> = {}
+): string[] => {
+  const models = customProviders.find((custom) => `custom:${custom.id}` === provider)?.models || MODELS[provider] || [];
+  const fetched = (discovered[provider] || []).map((model) => model.id).filter((id) => !models.includes(id));
+  return [...models, ...fetched];
+};
+
+// Select value of a model, format: provider/model (provider's first model if not set)
+export const toModelValue = (model: FallbackModel, customProviders: CustomProviderConfig[] = []) =>
+  `${model.provider}/${model.model || getProviderModels(model.provider, customProviders)[0]}`;
+
+// Parse select value, model names may contain '/' themselves (OpenRouter)
+export const parseModelValue = (value: string): FallbackModel => {
+  const [provider, ...model] = value.split('/');
+  return { provider: provider as ProviderType, model: model.join('/') };
+};
+
+// Model select options of all providers, grouped by provider
+export const getModelOptions = (
+  customProviders: CustomProviderConfig[] = [],
+  exclude?: string,
+  discovered: Record<string, DiscoveredModel[]> = {}
+) =>
+  [
+    ...PROVIDERS.map((provider) => ({ value: provider.value as ProviderType, label: provider.label })),
+    ...customProviders.map((custom) => ({ value: `custom:${custom.id}` as ProviderType, label: custom.name })),
+  ].map((provider) => ({
+    label: provider.label,
+    options: getProviderModels(provider.value, customProviders, discovered)
+      .map((model) => ({ value: `${provider.value}/${model}`, label: `${provider.label}: ${model}` }))
+      .filter((option) => option.value !== exclude),
+  }));
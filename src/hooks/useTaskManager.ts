@@ -20,6 +20,7 @@ interface UseTaskManagerReturn {
   // History mode
   enterHistoryMode: (task: Task) => void;
   exitHistoryMode: () => void;
+  continueTask: (task: Task) => void;
 
   // Reset
   reset: () => void;
@@ -172,6 +173,15 @@ export const useTaskManager = (): UseTaskManagerReturn => {
     setTasks([]);
   }, []);
 
+  // Continue a stored task as the current running task (e.g. resume from checkpoint)
+  const continueTask = useCallback((task: Task) => {
+    const runningTask: Task = { ...task, status: 'running', updatedAt: new Date() };
+    setIsHistoryMode(false);
+    setCurrentTaskId(task.id);
+    setTasks([runningTask]);
+    saveTask(runningTask);
+  }, [saveTask]);
+
   // Reset all state
   const reset = useCallback(() => {
     setTasks([]);
@@ -195,6 +205,7 @@ export const useTaskManager = (): UseTaskManagerReturn => {
 
     enterHistoryMode,
     exitHistoryMode,
+    continueTask,
 
     reset
   };
@@ -0,0 +1,122 @@
+import mcpToolManager from './mcpTools';
+
+interface McpListToolParam {
+  taskId: string;
+  nodeId: string;
+  environment: string;
+  agent_name: string;
+  prompt: string;
+  browser_url?: string;
+  params: Record<string, any>;
+}
+
+interface McpCallToolParam {
+  name: string;
+  arguments: Record<string, any>;
+  extInfo?: Record<string, any>;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+// Protocol versions the built-in server speaks, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC error codes
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INTERNAL_ERROR = -32603;
+
+const MCP_METHODS = ['initialize', 'tools/list', 'tools/call', 'ping'];
+
+/**
+ * Pick the protocol version of a session: the client's when supported, otherwise the newest
+ */
+export function negotiateProtocolVersion(requested?: string) {
+  return requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+/**
+ * Handle an MCP method of the built-in tool server, shared by the SSE and streamable HTTP transports
+ */
+export async function handleMcpMethod(method: string, params: any): Promise<any> {
+  switch (method) {
+    case 'initialize':
+      return {
+        protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+        capabilities: {
+          tools: {
+            listChanged: true,
+          },
+          sampling: {},
+        },
+        serverInfo: {
+          name: 'EkoMcpServer',
+          version: '1.0.0',
+        },
+      };
+
+    case 'tools/list':
+      return handleListTools(params);
+
+    case 'tools/call':
+      return handleCallTool(params);
+
+    case 'ping':
+      return {};
+
+    default:
+      throw new Error(`Unknown method: ${method}`);
+  }
+}
+
+/**
+ * Handle a JSON-RPC request, failures are returned as JSON-RPC errors
+ */
+export async function handleMcpRequest(message: JsonRpcMessage): Promise<JsonRpcMessage> {
+  const id = message.id ?? null;
+  if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+    return { jsonrpc: '2.0', id, error: { code: INVALID_REQUEST, message: 'Invalid JSON-RPC request' } };
+  }
+  if (!MCP_METHODS.includes(message.method)) {
+    return { jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: `Unknown method: ${message.method}` } };
+  }
+
+  try {
+    return { jsonrpc: '2.0', id, result: await handleMcpMethod(message.method, message.params) };
+  } catch (error) {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : 'Internal error' }
+    };
+  }
+}
+
+async function handleListTools(params: McpListToolParam): Promise<{ tools: any[] }> {
+  console.log('Listing tools for:', params);
+
+  const tools = mcpToolManager.getTools();
+  return { tools };
+}
+
+async function handleCallTool(params: McpCallToolParam): Promise<any> {
+  const { name, arguments: args, extInfo } = params;
+  console.log(`Calling tool: ${name}`, { args, extInfo });
+
+  try {
+    const result = await mcpToolManager.callTool(name, args, extInfo);
+    return result;
+  } catch (error) {
+    console.error(`Error executing tool ${name}:`, error);
+    throw error;
+  }
+}
+
+export type { JsonRpcMessage };
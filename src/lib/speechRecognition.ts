@@ -5,10 +5,12 @@ import { SpeechRecognitionXunfei } from "@/models/speech-recognition/speech-reco
 
 
 let speechRecognition: SpeechRecognitionBase | null = null;
+let recognizedCallback: ((text: string) => void) | undefined;
 
 // New initialization function, supports multiple providers
 export function initSpeechRecognitionWithProvider(config: SpeechRecognitionConfig, onRecognized?: (text: string) => void) {
   const {provider} = config;
+  recognizedCallback = onRecognized;
   switch (provider) {
     case 'microsoft':
       speechRecognition = new SpeechRecognitionMicrosoft(config, onRecognized);
@@ -24,6 +26,13 @@ export function initSpeechRecognitionWithProvider(config: SpeechRecognitionConfi
   }
 }
 
+// Re-initialize speech recognition in use with new configuration, e.g. after a configuration profile switch
+export async function reconfigureSpeechRecognition(config?: SpeechRecognitionConfig) {
+  if (!speechRecognition || !config) return;
+  await speechRecognition.cleanup();
+  initSpeechRecognitionWithProvider(config, recognizedCallback);
+}
+
 // Start speech recognition
 export async function startSpeechRecognition() {
   if (speechRecognition?.isRecognizing) {
@@ -250,6 +250,24 @@ export class TaskStorage {
     });
   }
 
+  /**
+   * Mark tasks left in running state by a previous app session as interrupted
+   * @param activeTaskIds Tasks actually running in main process
+   * @param before Start of the current session, tasks updated later belong to it
+   * @returns Number of tasks marked
+   */
+  async markInterruptedTasks(activeTaskIds: string[], before: Date): Promise<number> {
+    const tasks = await this.getAllTasks();
+    const orphaned = tasks.filter(task =>
+      task.status === 'running' &&
+      !activeTaskIds.includes(task.id) &&
+      new Date(task.updatedAt).getTime() < before.getTime()
+    );
+
+    await Promise.all(orphaned.map(task => this.saveTask({ ...task, status: 'interrupted' })));
+    return orphaned.length;
+  }
+
   /**
    * Batch delete tasks
    */
@@ -18,6 +18,13 @@ export function initTTS(config: TTSConfig) {
   }
 }
 
+// Re-initialize TTS in use with new configuration, e.g. after a configuration profile switch
+export function reconfigureTTS(config?: TTSConfig) {
+  if (!ttsPlayer || !config) return;
+  ttsPlayer.stop();
+  initTTS(config);
+}
+
 // Add error handling to main function
 export async function queueSpeakTextOptimized(part: string, isDirect: boolean) {
   if (!ttsPlayer) return;
@@ -1,3 +1,4 @@
 export * from './message';
 export * from './task';
-export * from './scheduled-task';
\ No newline at end of file
+export * from './scheduled-task';
+export * from './usage';
@@ -1,4 +1,5 @@
 import { WorkflowAgent } from "@jarvis-agent/core";
+import { LLMInfo } from "./task";
 
 // Tool execution action
 export interface ToolAction {
@@ -44,6 +45,7 @@ export interface AgentGroupMessage {
   messages: AgentMessage[];  // Tool execution sequence
   result?: string;
   status: 'running' | 'completed' | 'error';
+  llm?: LLMInfo; // Model that answered the agent's last LLM request
   timestamp: Date;
 }
 
@@ -55,5 +57,25 @@ export interface UserMessage {
   timestamp: Date;
 }
 
+// Human request status: waiting, answered by user, default applied (timeout or unattended policy), or task aborted
+export type HumanRequestStatus = 'pending' | 'answered' | 'timeout' | 'default' | 'cancelled';
+
+// Agent request for human confirmation, input, selection or help
+export interface HumanRequestMessage {
+  id: string;
+  type: 'human_request';
+  taskId: string;
+  requestId: string;
+  requestType: 'confirm' | 'input' | 'select' | 'help';
+  prompt: string;
+  options?: string[];        // Select: available options
+  multiple?: boolean;        // Select: allow multiple options
+  helpType?: 'request_login' | 'request_assistance';
+  deadline?: string;         // ISO time the default answer is applied (unattended runs)
+  status: HumanRequestStatus;
+  answer?: boolean | string | string[];
+  timestamp: Date;
+}
+
 // Display layer message union type
-export type DisplayMessage = WorkflowMessage | AgentGroupMessage | UserMessage;
\ No newline at end of file
+export type DisplayMessage = WorkflowMessage | AgentGroupMessage | UserMessage | HumanRequestMessage;
\ No newline at end of file
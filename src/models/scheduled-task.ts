@@ -12,12 +12,147 @@ export interface TaskStep {
  * Schedule configuration
  */
 export interface ScheduleConfig {
-  type: 'interval' | 'cron';                    // Schedule type: interval or cron expression
+  type: 'interval' | 'cron' | 'none';           // Schedule type: interval, cron expression or none (only run by triggers or manually)
   intervalUnit?: 'minute' | 'hour' | 'day';     // Interval unit
   intervalValue?: number;                       // Interval value
-  cronExpression?: string;                      // Cron expression
+  cronExpression?: string;                      // Cron expression (5 or 6 fields, or @daily style shortcut)
+  timezone?: string;                            // IANA timezone for cron expression and active hours, local timezone if not set
+  activeWindows?: ActiveWindow[];               // Executions only start inside these windows, any time if empty
+  excludedDates?: string[];                     // Dates without executions, e.g. holidays (YYYY-MM-DD)
+  conditions?: RunConditions;                   // Planned executions wait until these are met
 }
 
+/**
+ * Weekly time window in which planned executions may start
+ * An end time not after the start time means the window ends on the next day (e.g. 22:00-06:00)
+ */
+export interface ActiveWindow {
+  days: number[];                               // Days of week the window starts on, 0 = Sunday
+  start: string;                                // HH:mm
+  end: string;                                  // HH:mm, exclusive
+}
+
+/**
+ * Conditions checked when a planned execution is due
+ * Unmet conditions are checked again every minute while inside active hours
+ */
+export interface RunConditions {
+  onAcPower?: boolean;                          // Only run when not on battery power
+  idleMinutes?: number;                         // Only run when computer has been idle this long
+}
+
+/**
+ * Task variable
+ * Step content can reference variables as {{name}} placeholders
+ * Built-in variables: {{today}}, {{now}}, {{lastRunAt}}
+ */
+export interface TaskVariable {
+  name: string;                           // Placeholder name
+  type: 'string' | 'number' | 'date';     // Value type (used for input when executing)
+  defaultValue?: string;                  // Value used by scheduled executions
+  description?: string;                   // Description shown when asking for value
+}
+
+/**
+ * Fan-out configuration: run once per value of a variable, each as its own execution
+ */
+export interface FanOutConfig {
+  variable: string;                       // Variable name
+  values: string[];                       // Values to run with
+}
+
+/**
+ * Trigger: run a task when another scheduled task finishes
+ */
+export interface TaskTrigger {
+  taskId: string;                         // Upstream scheduled task ID
+  on: 'success' | 'failure';              // Final outcome of upstream execution (after retries)
+}
+
+/**
+ * Retry and failure handling configuration
+ */
+export interface RetryConfig {
+  timeoutMinutes?: number;       // Maximum duration of a single attempt, no limit if not set
+  maxRetries?: number;           // Retries after a failed attempt (default 0)
+  retryDelaySeconds?: number;    // Delay before first retry, doubled for every following attempt (default 60)
+  disableAfterFailures?: number; // Disable task after this many consecutive failed executions, never if not set
+}
+
+/**
+ * Misfire policy: how executions missed while the app was closed or the machine asleep are handled
+ * - run-once: run a single catch-up execution
+ * - run-all: replay every missed execution (capped)
+ * - skip: ignore missed executions and wait for the next planned time
+ */
+export type MisfirePolicy = 'run-once' | 'run-all' | 'skip';
+
+/**
+ * Destination of the final result of successful executions
+ * - file: write result to a file in the FileAgent folder (file name supports {{name}} placeholders)
+ * - webhook: POST result as JSON to a URL
+ * - digest: append result to the daily digest markdown file in the FileAgent folder
+ */
+export type ResultSink =
+  | { type: 'file'; fileName?: string }
+  | { type: 'webhook'; url: string }
+  | { type: 'digest' };
+
+/**
+ * Native notification on finished executions: all, failures only, or none
+ */
+export type NotifyOn = 'all' | 'failure' | 'none';
+
+/**
+ * How agent requests for human confirmation/input are answered while nobody is watching
+ */
+export interface HumanPolicy {
+  timeoutSeconds: number;   // Wait for an answer in the task window, 0 = apply default immediately
+  defaultAnswer: 'approve' | 'reject'; // Applied to confirmations and help requests on timeout
+  defaultInput?: string;    // Applied to input requests on timeout
+}
+
+/**
+ * Model used by a task's runs instead of the configured provider and routing
+ */
+export interface TaskModelOverride {
+  provider: string;         // Built-in provider or 'custom:<id>'
+  model?: string;           // Provider's configured model if not set
+}
+
+/**
+ * Queue priority: when the concurrency limit is reached, higher priority executions start first
+ */
+export type TaskPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Execution waiting in the scheduler queue
+ */
+export interface QueuedExecution {
+  queueId: string;          // Queue item ID
+  taskId: string;           // Scheduled task ID
+  taskName: string;
+  priority: TaskPriority;
+  attempt: number;          // Attempt number (retries are queued too)
+  variables?: Record<string, string>; // User variable values of the execution
+  queuedAt: Date;
+}
+
+/**
+ * Scheduler settings (stored in main process)
+ */
+export interface SchedulerSettings {
+  maxConcurrentTasks: number;   // Executions running at the same time (1-10)
+  maxQueueAgeMinutes: number;   // Queued executions waiting longer are dropped, 0 = no limit
+}
+
+/**
+ * Execution mode
+ * - combined: all steps are combined into one prompt and run as a single task
+ * - step-by-step: each step runs as its own task, can be resumed from a failed step
+ */
+export type ExecutionMode = 'combined' | 'step-by-step';
+
 /**
  * Scheduled task
  */
@@ -27,6 +162,18 @@ export interface ScheduledTask {
   description?: string;     // Task description
   steps: TaskStep[];        // Task steps list
   schedule: ScheduleConfig; // Schedule configuration
+  misfirePolicy?: MisfirePolicy; // Missed execution handling, defaults to 'run-once'
+  priority?: TaskPriority;  // Queue priority, defaults to 'normal'
+  retry?: RetryConfig;      // Timeout, retry and failure handling
+  executionMode?: ExecutionMode; // Defaults to 'combined'
+  passPreviousResult?: boolean; // Step-by-step mode: include previous step's result in next step's prompt
+  variables?: TaskVariable[]; // Variables referenced by step content
+  fanOut?: FanOutConfig;    // Run once per value of a variable
+  triggers?: TaskTrigger[]; // Run when other tasks succeed or fail
+  notifyOn?: NotifyOn;      // Native notification on finished executions, defaults to 'all'
+  resultSinks?: ResultSink[]; // Where results of successful executions are delivered
+  humanPolicy?: HumanPolicy; // Unattended answers to agent requests, defaults to rejecting after 5 minutes
+  model?: TaskModelOverride; // Model of its runs, defaults to the configured provider and routing
   enabled: boolean;         // Whether enabled
   source: 'manual' | 'api'; // Step source: manual input or API import
   templateId?: string;      // If from API, record template ID
@@ -1,11 +1,76 @@
 import { DisplayMessage } from './message';
+import { UsageTotals } from './usage';
 
-// Task status enum - consistent with eko-core
-export type TaskStatus = 'running' | 'done' | 'error' | 'abort';
+// Task status enum - consistent with eko-core, plus 'interrupted' for tasks still running when the app quit
+export type TaskStatus = 'running' | 'done' | 'error' | 'abort' | 'interrupted';
+
+// Live run status of a task reported by main process
+export type TaskRunStatus = 'planning' | 'plan_review' | 'running' | 'waiting_human' | 'paused' | 'done' | 'error' | 'aborted';
+
+// Model answering LLM requests of a task, fallback when the selected provider failed
+export interface LLMInfo {
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+// Configuration a running task uses, outdated when the configuration was reloaded since it started
+export interface TaskConfigInfo {
+  provider: string;
+  model: string;
+  outdated: boolean;
+}
+
+// Live status snapshot of a task (pushed by main process as 'eko-task-status')
+export interface TaskRuntimeStatus {
+  taskId: string;
+  taskName?: string;
+  status: TaskRunStatus;
+  agentName?: string; // Agent currently (or last) executing
+  currentNode?: string; // Task of the current agent node
+  lastToolCall?: { toolName: string; time: string };
+  llm?: LLMInfo; // Model that answered the last LLM request
+  config?: TaskConfigInfo; // Configuration the task runs with
+  error?: string;
+  startTime: string;
+  endTime?: string;
+  elapsedMs: number;
+}
+
+// Agent node of a generated plan under review, in execution order
+export interface PlanAgentNode {
+  id: string;
+  name: string; // Agent executing the node
+  task: string;
+}
+
+// Checkpoint of an interrupted task kept by main process, used to resume it
+export interface TaskCheckpointSummary {
+  taskId: string;
+  taskName: string;
+  completedAgents: number; // Agent nodes completed before the interruption
+  totalAgents: number;
+  updatedAt: string;
+}
 
 // Task type enum
 export type TaskType = 'normal' | 'scheduled';
 
+// Step status in step-by-step execution mode
+export type StepStatus = 'pending' | 'running' | 'done' | 'error' | 'abort' | 'skipped';
+
+// Result of a single step in step-by-step execution mode
+export interface StepResult {
+  stepId: string; // Scheduled task step ID
+  name: string; // Step name
+  status: StepStatus;
+  result?: string; // Step output
+  error?: string; // Error message
+  screenshot?: string; // Detail view screenshot after the step (data URL)
+  startTime?: Date;
+  endTime?: Date;
+}
+
 // Task object (unified for normal tasks and scheduled task execution history)
 export interface Task {
   id: string;
@@ -34,12 +99,18 @@ export interface Task {
 
   // === Scheduled task execution history related fields ===
   scheduledTaskId?: string; // Associated scheduled task configuration ID (only used when taskType=scheduled)
+  attempt?: number; // Attempt number of the scheduled execution, starting at 1 (retries are separate records)
+  stepResults?: StepResult[]; // Per-step status (only in step-by-step execution mode)
+  variables?: Record<string, string>; // Variable values of the scheduled execution
   startTime?: Date; // Execution start time
   endTime?: Date; // Execution end time
   duration?: number; // Execution duration (milliseconds)
   error?: string; // Error message
   windowId?: string; // Execution window ID
 
+  // Token usage and cost of the task (whole execution for scheduled tasks)
+  usage?: UsageTotals;
+
   // Whether it's a historical task (read-only)
   isHistorical?: boolean;
 }
\ No newline at end of file
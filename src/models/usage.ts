@@ -0,0 +1,33 @@
+// Token usage totals (cost in USD, from the price table at request time)
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  requests: number; // LLM requests
+}
+
+// Price of a model per million tokens (USD), model '*' applies to all models of the provider
+export interface ModelPrice {
+  provider: string;
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Spend limits (USD), 0 = no limit
+export interface UsageBudget {
+  dailyLimit: number;
+  monthlyLimit: number;
+}
+
+// Usage summary kept by main process
+export interface UsageSummary {
+  days: Array<{ day: string } & UsageTotals>; // YYYY-MM-DD, oldest first
+  providers: Array<{ provider: string; model: string } & UsageTotals>;
+  scheduledTasks: Array<{ scheduledTaskId: string; scheduledTaskName: string } & UsageTotals>;
+  agents: Array<{ agentName: string } & UsageTotals>; // Agent or 'Planner' making the requests
+  today: UsageTotals;
+  month: UsageTotals;
+  budget: UsageBudget;
+}
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import mcpToolManager from '../../../lib/mcpTools';
 import { getClientCount } from './sse';
+import { getStreamableSessionCount } from './index';
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -13,6 +14,7 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
     status: 'ok',
     tools: tools.map(t => t.name),
     connectedClients: getClientCount(),
+    streamableSessions: getStreamableSessionCount(),
     timestamp: new Date().toISOString(),
     serverInfo: {
       name: 'EkoMcpServer (Next.js)',
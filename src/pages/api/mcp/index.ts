@@ -0,0 +1,311 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'node:crypto';
+import { handleMcpRequest, negotiateProtocolVersion, SUPPORTED_PROTOCOL_VERSIONS, INVALID_REQUEST, type JsonRpcMessage } from '../../../lib/mcpServer';
+
+/**
+ * MCP streamable HTTP transport
+ * POST a JSON-RPC message (or batch): notifications get 202, requests are answered inline as JSON,
+ * or as an SSE stream when the client accepts one and a tool is called.
+ * GET opens an SSE stream, resuming a disconnected stream after its Last-Event-ID. DELETE ends the session.
+ * The legacy SSE + POST pair (sse.ts, message.ts) stays available for existing clients.
+ */
+
+// SSE event of a response stream, replayed when the client resumes after a disconnect
+interface StreamEvent {
+  id: string;
+  data: string;
+}
+
+interface ResponseStream {
+  id: string;
+  events: StreamEvent[];
+  done: boolean;                  // All responses written
+  connection?: NextApiResponse;   // Open connection, unset while the client is disconnected
+  finishedAt?: number;
+}
+
+interface StreamableSession {
+  id: string;
+  protocolVersion: string;
+  streams: Map<string, ResponseStream>;
+  nextStreamId: number;
+  standalone?: NextApiResponse;   // Stream opened by GET without Last-Event-ID
+  lastActivity: number;
+}
+
+// Streamable sessions by Mcp-Session-Id - use global variable to avoid hot reload reset
+declare global {
+  var __mcpStreamableSessions: Map<string, StreamableSession> | undefined;
+}
+
+const sessions = globalThis.__mcpStreamableSessions ?? (globalThis.__mcpStreamableSessions = new Map<string, StreamableSession>());
+
+// Sessions without connections are dropped after this idle time
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Finished streams stay resumable this long
+const STREAM_RETENTION_MS = 5 * 60 * 1000;
+const KEEP_ALIVE_INTERVAL_MS = 15 * 1000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  setCorsHeaders(req, res);
+  if (req.method === 'OPTIONS') {
+    return res.status(204).end();
+  }
+
+  // Browsers may only reach the local server from local pages (DNS rebinding protection)
+  if (!isAllowedOrigin(req.headers.origin)) {
+    return sendError(res, 403, 'Origin not allowed');
+  }
+
+  pruneSessions();
+
+  switch (req.method) {
+    case 'POST':
+      return handlePost(req, res);
+    case 'GET':
+      return handleGet(req, res);
+    case 'DELETE':
+      return handleDelete(req, res);
+    default:
+      res.setHeader('Allow', 'GET, POST, DELETE, OPTIONS');
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+async function handlePost(req: NextApiRequest, res: NextApiResponse) {
+  const body = req.body;
+  const isBatch = Array.isArray(body);
+  const messages: JsonRpcMessage[] = isBatch ? body : [body];
+  if (messages.length === 0 || messages.some((message) => !message || typeof message !== 'object')) {
+    return sendError(res, 400, 'Body must be a JSON-RPC message or batch');
+  }
+
+  const initialize = messages.find((message) => message.method === 'initialize');
+  let session: StreamableSession | undefined;
+  if (initialize) {
+    if (messages.length > 1) {
+      return sendError(res, 400, 'Initialize must not be sent in a batch');
+    }
+    session = {
+      id: randomUUID(),
+      protocolVersion: negotiateProtocolVersion(initialize.params?.protocolVersion),
+      streams: new Map(),
+      nextStreamId: 1,
+      lastActivity: Date.now(),
+    };
+    sessions.set(session.id, session);
+    res.setHeader('Mcp-Session-Id', session.id);
+    console.log(`MCP streamable session ${session.id} created, protocol ${session.protocolVersion}, total sessions: ${sessions.size}`);
+  } else {
+    session = getSession(req, res);
+    if (!session) return;
+  }
+
+  // Notifications and responses are only acknowledged
+  const requests = messages.filter((message) => typeof message.method === 'string' && message.id !== undefined && message.id !== null);
+  if (requests.length === 0) {
+    return res.status(202).end();
+  }
+
+  console.log(`MCP streamable session ${session.id}: ${requests.map((message) => message.method).join(', ')}`);
+
+  // Tool calls may take long, stream them so the client can resume after a disconnect
+  const acceptsStream = String(req.headers.accept || '').includes('text/event-stream');
+  if (!acceptsStream || !requests.some((message) => message.method === 'tools/call')) {
+    const responses = await Promise.all(requests.map((message) => handleMcpRequest(message)));
+    session.lastActivity = Date.now();
+    return res.status(200).json(isBatch ? responses : responses[0]);
+  }
+
+  const stream: ResponseStream = { id: String(session.nextStreamId++), events: [], done: false };
+  session.streams.set(stream.id, stream);
+  openStream(res, stream);
+
+  await Promise.all(requests.map(async (message) => {
+    const response = await handleMcpRequest(message);
+    writeEvent(stream, response);
+  }));
+
+  stream.done = true;
+  stream.finishedAt = Date.now();
+  session.lastActivity = Date.now();
+  closeStream(stream);
+}
+
+async function handleGet(req: NextApiRequest, res: NextApiResponse) {
+  if (!String(req.headers.accept || '').includes('text/event-stream')) {
+    res.setHeader('Allow', 'POST, DELETE, OPTIONS');
+    return sendError(res, 405, 'GET requires Accept: text/event-stream');
+  }
+
+  const session = getSession(req, res);
+  if (!session) return;
+
+  // Resume a response stream after the last event the client received
+  const lastEventId = req.headers['last-event-id'];
+  if (typeof lastEventId === 'string' && lastEventId) {
+    const [streamId, index] = lastEventId.split(':');
+    const stream = session.streams.get(streamId);
+    if (!stream) {
+      return sendError(res, 404, `Stream of event ${lastEventId} not found`);
+    }
+
+    console.log(`MCP streamable session ${session.id} resuming stream ${streamId} after event ${lastEventId}`);
+    stream.connection?.end();
+    openStream(res, stream);
+    stream.events.slice(Number(index) + 1).forEach((event) => res.write(formatEvent(event)));
+    if (stream.done) {
+      closeStream(stream);
+    }
+    return;
+  }
+
+  // Standalone stream for server messages, this server does not send any but keeps it open for clients expecting one
+  if (session.standalone && !session.standalone.destroyed) {
+    return sendError(res, 409, 'Session already has an open stream');
+  }
+  writeStreamHeaders(res);
+  session.standalone = res;
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    if (session.standalone === res) {
+      session.standalone = undefined;
+    }
+    session.lastActivity = Date.now();
+  });
+}
+
+function handleDelete(req: NextApiRequest, res: NextApiResponse) {
+  const session = getSession(req, res);
+  if (!session) return;
+
+  session.standalone?.end();
+  session.streams.forEach((stream) => stream.connection?.end());
+  sessions.delete(session.id);
+  console.log(`MCP streamable session ${session.id} terminated, remaining sessions: ${sessions.size}`);
+  res.status(200).end();
+}
+
+/**
+ * Get the session of a request, an error is sent when the header is missing, unknown or has an unsupported protocol version
+ */
+function getSession(req: NextApiRequest, res: NextApiResponse): StreamableSession | undefined {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId !== 'string' || !sessionId) {
+    sendError(res, 400, 'Missing Mcp-Session-Id header');
+    return undefined;
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session) {
+    sendError(res, 404, `Session not found: ${sessionId}`);
+    return undefined;
+  }
+
+  const protocolVersion = req.headers['mcp-protocol-version'];
+  if (typeof protocolVersion === 'string' && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    sendError(res, 400, `Unsupported protocol version: ${protocolVersion}`);
+    return undefined;
+  }
+
+  session.lastActivity = Date.now();
+  return session;
+}
+
+function writeStreamHeaders(res: NextApiResponse) {
+  res.setHeader('Content-Type', 'text/event-stream;charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.status(200);
+  res.flushHeaders();
+}
+
+/**
+ * Attach a connection to a response stream, responses written while it is gone are kept for resuming
+ */
+function openStream(res: NextApiResponse, stream: ResponseStream) {
+  writeStreamHeaders(res);
+  stream.connection = res;
+  res.on('close', () => {
+    if (stream.connection === res) {
+      stream.connection = undefined;
+    }
+  });
+}
+
+function closeStream(stream: ResponseStream) {
+  stream.connection?.end();
+  stream.connection = undefined;
+}
+
+function writeEvent(stream: ResponseStream, message: JsonRpcMessage) {
+  const event = { id: `${stream.id}:${stream.events.length}`, data: JSON.stringify(message) };
+  stream.events.push(event);
+
+  const connection = stream.connection;
+  if (connection && connection.writable && !connection.destroyed) {
+    connection.write(formatEvent(event));
+  }
+}
+
+function formatEvent(event: StreamEvent) {
+  return `id: ${event.id}\nevent: message\ndata: ${event.data}\n\n`;
+}
+
+function sendError(res: NextApiResponse, status: number, message: string) {
+  res.status(status).json({ jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message } });
+}
+
+/**
+ * Drop idle sessions and finished streams past their retention
+ */
+function pruneSessions() {
+  const now = Date.now();
+  sessions.forEach((session, sessionId) => {
+    session.streams.forEach((stream, streamId) => {
+      if (stream.done && !stream.connection && now - (stream.finishedAt || now) > STREAM_RETENTION_MS) {
+        session.streams.delete(streamId);
+      }
+    });
+
+    const connected = !!session.standalone || Array.from(session.streams.values()).some((stream) => stream.connection || !stream.done);
+    if (!connected && now - session.lastActivity > SESSION_IDLE_TIMEOUT_MS) {
+      sessions.delete(sessionId);
+      console.log(`MCP streamable session ${sessionId} expired`);
+    }
+  });
+}
+
+function isAllowedOrigin(origin?: string) {
+  if (!origin) {
+    return true;
+  }
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function setCorsHeaders(req: NextApiRequest, res: NextApiResponse) {
+  if (req.headers.origin && isAllowedOrigin(req.headers.origin)) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+}
+
+// Export session count for health check use
+export function getStreamableSessionCount() {
+  return sessions.size;
+}
+
+// Standalone streams stay open after the handler returns
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -1,81 +1,44 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import mcpToolManager from '../../../lib/mcpTools';
-import { sendSseMessage, getClientCount } from './sse';
-
-interface McpListToolParam {
-  taskId: string;
-  nodeId: string;
-  environment: string;
-  agent_name: string;
-  prompt: string;
-  browser_url?: string;
-  params: Record<string, any>;
-}
-
-interface McpCallToolParam {
-  name: string;
-  arguments: Record<string, any>;
-  extInfo?: Record<string, any>;
-}
+import { handleMcpMethod } from '../../../lib/mcpServer';
+import { sendSseMessage, hasSession } from './sse';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Responses go to the SSE connection of the session given in the endpoint URL
+  const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+  if (!sessionId || !hasSession(sessionId)) {
+    return res.status(sessionId ? 404 : 400).json({
+      jsonrpc: '2.0',
+      id: req.body?.id ?? null,
+      error: {
+        code: -32001,
+        message: sessionId ? `Session not found: ${sessionId}` : 'Missing sessionId'
+      }
+    });
+  }
+
   try {
     const { jsonrpc, id, method, params } = req.body;
     
-    console.log(`Received ${method} request:`, { id, params });
-
-    let result: any;
-    
-    switch (method) {
-      case 'initialize':
-        result = {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: {
-              listChanged: true,
-            },
-            sampling: {},
-          },
-          serverInfo: {
-            name: 'EkoMcpServer',
-            version: '1.0.0',
-          },
-        };
-        break;
-
-      case 'tools/list':
-        result = await handleListTools(params);
-        break;
+    console.log(`Received ${method} request of session ${sessionId}:`, { id, params });
 
-      case 'tools/call':
-        result = await handleCallTool(params);
-        break;
-
-      case 'ping':
-        result = {};
-        break;
-
-      default:
-        throw new Error(`Unknown method: ${method}`);
+    // Notifications get no response: an empty 202, as a body of 'Accepted' makes clients wait for an SSE result
+    if (typeof method === 'string' && method.startsWith('notifications/')) {
+      return res.status(202).end();
     }
 
+    const result = await handleMcpMethod(method, params);
+
     // Send response
     res.status(200).send('Accepted');
 
-    // Check if there are active SSE connections
-    if (getClientCount() === 0) {
-      console.warn(`No SSE clients connected for message ${id}`);
-      return;
-    }
-
     // Send result via SSE, add brief delay to ensure SSE connection is ready
     setTimeout(() => {
       try {
-        sendSseMessage(id, { jsonrpc, id, result });
+        sendSseMessage(sessionId, { jsonrpc, id, result });
       } catch (error) {
         console.error(`Failed to send SSE message for ${id}:`, error);
       }
@@ -93,23 +56,3 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
-
-async function handleListTools(params: McpListToolParam): Promise<{ tools: any[] }> {
-  console.log('Listing tools for:', params);
-  
-  const tools = mcpToolManager.getTools();
-  return { tools };
-}
-
-async function handleCallTool(params: McpCallToolParam): Promise<any> {
-  const { name, arguments: args, extInfo } = params;
-  console.log(`Calling tool: ${name}`, { args, extInfo });
-
-  try {
-    const result = await mcpToolManager.callTool(name, args, extInfo);
-    return result;
-  } catch (error) {
-    console.error(`Error executing tool ${name}:`, error);
-    throw error;
-  }
-} 
\ No newline at end of file
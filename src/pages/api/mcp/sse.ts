@@ -1,11 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'node:crypto';
 
-// Store all SSE connected clients - use global variable to avoid hot reload reset
+// SSE connection of each MCP session by session ID - use global variable to avoid hot reload reset
 declare global {
-  var __sseClients: Set<NextApiResponse> | undefined;
+  var __sseSessions: Map<string, NextApiResponse> | undefined;
 }
 
-const clients = globalThis.__sseClients ?? (globalThis.__sseClients = new Set<NextApiResponse>());
+const sessions = globalThis.__sseSessions ?? (globalThis.__sseSessions = new Map<string, NextApiResponse>());
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -24,71 +25,71 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
   res.write('data: connected\n\n');
   res.status(200);
 
-  // Add to client list
-  clients.add(res);
+  // Each connection is its own MCP session, responses to its requests are only written to it
+  const sessionId = randomUUID();
+  sessions.set(sessionId, res);
 
-  console.log(`SSE client connected, total clients: ${clients.size}, sending endpoint info...`);
+  console.log(`SSE client connected, session ${sessionId}, total sessions: ${sessions.size}, sending endpoint info...`);
 
   // Ensure connection is stable before sending endpoint info
   setTimeout(() => {
     try {
-      res.write(`event: endpoint\ndata: /api/mcp/message\n\n`);
-      console.log('Sent endpoint info to client');
+      res.write(`event: endpoint\ndata: /api/mcp/message?sessionId=${sessionId}\n\n`);
+      console.log(`Sent endpoint info to session ${sessionId}`);
     } catch (error) {
       console.error('Error sending endpoint info:', error);
-      clients.delete(res);
+      sessions.delete(sessionId);
     }
   }, 100);
 
   // Handle client disconnection
   req.on('close', () => {
-    clients.delete(res);
-    console.log(`Client disconnected from SSE, remaining clients: ${clients.size}`);
+    sessions.delete(sessionId);
+    console.log(`Session ${sessionId} disconnected from SSE, remaining sessions: ${sessions.size}`);
   });
 
   // Handle connection errors
   req.on('error', (error) => {
-    console.error('SSE connection error:', error);
-    clients.delete(res);
-    console.log(`Client error, remaining clients: ${clients.size}`);
+    console.error(`SSE connection error of session ${sessionId}:`, error);
+    sessions.delete(sessionId);
+    console.log(`Session error, remaining sessions: ${sessions.size}`);
   });
 }
 
-// Export a function for other APIs to use, for sending messages to all clients
-export function sendSseMessage(id: string, data: any) {
-  console.log(`sendSseMessage ${id}, active clients: ${clients.size}`, data);
-  const message = `event: message\ndata: ${JSON.stringify(data)}\n\n`;
+// Check if a session is connected
+export function hasSession(sessionId: string) {
+  return sessions.has(sessionId);
+}
+
+// Export a function for other APIs to use, for sending a message to the client of a session
+export function sendSseMessage(sessionId: string, data: any) {
+  console.log(`sendSseMessage to session ${sessionId}`, data);
+  const client = sessions.get(sessionId);
 
-  if (clients.size === 0) {
-    console.warn(`No SSE clients available for message ${id}`);
-    return;
+  if (!client) {
+    console.warn(`Session ${sessionId} is no longer connected, dropping message ${data?.id}`);
+    return false;
   }
 
-  // Send message to all connected clients
-  const failedClients: NextApiResponse[] = [];
-  clients.forEach(client => {
-    try {
-      // Check if connection is still valid
-      if (client.writable && !client.destroyed) {
-        client.write(message);
-        console.log('Successfully sent SSE message to client');
-      } else {
-        console.warn('Client connection is not writable, removing from clients');
-        failedClients.push(client);
-      }
-    } catch (error) {
-      console.error('Error sending SSE message to client:', error);
-      failedClients.push(client);
+  try {
+    // Check if connection is still valid
+    if (client.writable && !client.destroyed) {
+      client.write(`event: message\ndata: ${JSON.stringify(data)}\n\n`);
+      return true;
     }
-  });
+    console.warn(`Session ${sessionId} connection is not writable, removing it`);
+  } catch (error) {
+    console.error(`Error sending SSE message to session ${sessionId}:`, error);
+  }
 
-  // Clean up invalid client connections
-  failedClients.forEach(client => clients.delete(client));
+  // Clean up invalid connection
+  sessions.delete(sessionId);
+  return false;
 }
 
-// Export client count for health check use
+// Export session count for health check use
 export function getClientCount() {
-  return clients.size;
+  return sessions.size;
 }
 
 // Next.js API configuration
@@ -12,12 +12,12 @@ export default function Home() {
     const [query, setQuery] = useState('')
     const router = useRouter()
 
-    // Initialize scheduled task scheduler
-    // Note: Use main process state flag to prevent duplicate initialization due to route switching
+    // Import scheduled tasks into the main process schedule store
+    // Note: Main process persists the flag, so tasks are only imported once (later changes are synced by the store)
     useEffect(() => {
         const initScheduler = async () => {
             try {
-                // Check if main process is already initialized
+                // Check if tasks were already imported
                 if (typeof window !== 'undefined' && (window as any).api) {
                     const isInitialized = await (window as any).api.invoke('scheduler:is-initialized')
 
@@ -1,21 +1,27 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react'
 import { useRouter } from 'next/router'
 import Header from '@/components/Header'
-import { Input, Slider, Button, message as antdMessage } from 'antd'
+import { Input, Slider, Button, Tooltip, Checkbox, message as antdMessage } from 'antd'
+import { PauseOutlined, CaretRightOutlined } from '@ant-design/icons'
 import { EkoResult, StreamCallbackMessage } from '@jarvis-agent/core/dist/types';
 import { MessageList } from '@/components/chat/MessageComponents';
+import { TaskStatusBar } from '@/components/chat/TaskStatusBar';
+import { PlanReviewPanel } from '@/components/chat/PlanReviewPanel';
 import { uuidv4 } from '@/common/utils';
 import { StepUpDown, SendMessage, CancleTask } from '@/icons/deepfundai-icons';
-import { Task, ToolAction } from '@/models';
+import { DisplayMessage, PlanAgentNode, StepResult, Task, TaskRuntimeStatus, ToolAction } from '@/models';
 import { MessageProcessor } from '@/utils/messageTransform';
 import { useTaskManager } from '@/hooks/useTaskManager';
 import { useHistoryStore } from '@/stores/historyStore';
+import { ACTIVE_RUN_STATUSES, subscribeTaskStatus, useTaskStatusStore } from '@/stores/taskStatusStore';
+import { taskStorage } from '@/lib/taskStorage';
 import { scheduledTaskStorage } from '@/lib/scheduled-task-storage';
+import { StepProgress } from '@/components/scheduled-task';
 
 
-export default function main() {
+export default function Main() {
     const router = useRouter();
-    const { taskId: urlTaskId, executionId: urlExecutionId } = router.query;
+    const { taskId: urlTaskId, executionId: urlExecutionId, attempt: urlAttempt } = router.query;
 
     // Check if in task detail mode (opened from scheduled task window)
     const isTaskDetailMode = !!urlTaskId && !!urlExecutionId;
@@ -23,6 +29,9 @@ export default function main() {
     // Scheduled task's scheduledTaskId (from URL)
     const scheduledTaskIdFromUrl = typeof urlTaskId === 'string' ? urlTaskId : undefined;
 
+    // Attempt number of this scheduled execution (from URL, retries reload the window)
+    const attemptFromUrl = typeof urlAttempt === 'string' ? Number(urlAttempt) || 1 : 1;
+
     // Use task management Hook
     const {
         tasks,
@@ -36,10 +45,11 @@ export default function main() {
         addToolHistory,
         replaceTaskId,
         enterHistoryMode,
+        continueTask,
     } = useTaskManager();
 
     // Use Zustand history state management
-    const { selectedHistoryTask, clearSelectedHistoryTask, setTerminateCurrentTaskFn } = useHistoryStore();
+    const { selectedHistoryTask, clearSelectedHistoryTask, taskToResume, clearTaskToResume, setTerminateCurrentTaskFn } = useHistoryStore();
 
     const [showDetail, setShowDetail] = useState(false);
     const [query, setQuery] = useState('');
@@ -58,6 +68,14 @@ export default function main() {
     const showDetailAgents = ['Browser', 'File'];
 
     const [ekoRequest, setEkoRequest] = useState<Promise<any> | null>(null)
+    // Plan review mode: stop after planning so the plan can be edited before execution
+    const [reviewPlan, setReviewPlan] = useState(false);
+    const [pendingPlan, setPendingPlan] = useState<{ taskId: string; agents: PlanAgentNode[] } | null>(null);
+    const [agentNames, setAgentNames] = useState<string[]>([]);
+
+    // Step status of a step-by-step scheduled execution (may arrive before the execution record exists)
+    const [stepResults, setStepResults] = useState<StepResult[]>([]);
+    const stepResultsRef = useRef<StepResult[]>([]);
 
     // Check if current task is running
     const isCurrentTaskRunning = useMemo(() => {
@@ -67,12 +85,20 @@ export default function main() {
         return currentTask?.status === 'running';
     }, [currentTaskId, isHistoryMode, tasks]);
 
+    // Live status of current task, pausing is possible once agents execute
+    const currentRunStatus = useTaskStatusStore((state) => (currentTaskId ? state.statuses[currentTaskId]?.status : undefined));
+    const isCurrentTaskPaused = currentRunStatus === 'paused';
+    const canPauseCurrentTask = currentRunStatus === 'running' || currentRunStatus === 'waiting_human' || isCurrentTaskPaused;
+
     // Task ID reference
     const taskIdRef = useRef<string>(currentTaskId);
     // Message processor
     const messageProcessorRef = useRef(new MessageProcessor());
     // Execution ID reference, generate new unique identifier for each task execution
     const executionIdRef = useRef<string>('');
+    // Latest updateTask, for updates after awaiting across a history mode change
+    const updateTaskRef = useRef(updateTask);
+    updateTaskRef.current = updateTask;
     // Scroll related state and references
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const [isAtBottom, setIsAtBottom] = useState(true);
@@ -164,6 +190,31 @@ export default function main() {
         }
     }, [selectedHistoryTask]);
 
+    // Monitor resume requests for interrupted tasks from history panel
+    useEffect(() => {
+        if (taskToResume) {
+            handleResumeFromCheckpoint(taskToResume);
+            clearTaskToResume();
+        }
+    }, [taskToResume]);
+
+    // Tasks left running by a previous app session were interrupted, mark them once on main window startup
+    useEffect(() => {
+        if (isTaskDetailMode || !window.api) return;
+
+        (window.api as any).invoke('eko:get-task-statuses').then(async (statuses: TaskRuntimeStatus[]) => {
+            const activeTaskIds = statuses
+                .filter(status => ACTIVE_RUN_STATUSES.includes(status.status))
+                .map(status => status.taskId);
+            const count = await taskStorage.markInterruptedTasks(activeTaskIds, new Date(performance.timeOrigin));
+            if (count > 0) {
+                console.log(`[Main] Marked ${count} orphaned tasks as interrupted`);
+            }
+        }).catch((error: any) => {
+            console.error('[Main] Failed to mark interrupted tasks:', error);
+        });
+    }, [isTaskDetailMode]);
+
     // Monitor open history panel event (click "Execution History" from scheduled task list)
     useEffect(() => {
         if (!isTaskDetailMode || !window.api) return;
@@ -188,6 +239,31 @@ export default function main() {
         };
     }, [isTaskDetailMode]);
 
+    // Monitor step status of step-by-step scheduled execution, save to execution record
+    useEffect(() => {
+        if (!isTaskDetailMode || !window.api) return;
+
+        const handleTaskStepUpdate = (event: any) => {
+            const steps: StepResult[] = event.steps || [];
+            stepResultsRef.current = steps;
+            setStepResults(steps);
+
+            if (taskIdRef.current) {
+                updateTask(taskIdRef.current, { stepResults: steps });
+            }
+        };
+
+        if ((window.api as any).onTaskStepUpdate) {
+            (window.api as any).onTaskStepUpdate(handleTaskStepUpdate);
+        }
+
+        return () => {
+            if (window.api && (window.api as any).removeAllListeners) {
+                (window.api as any).removeAllListeners('task-step-update');
+            }
+        };
+    }, [isTaskDetailMode, updateTask]);
+
     // Monitor task aborted by system event, update task status to IndexedDB
     useEffect(() => {
         if (!window.api) return;
@@ -222,12 +298,88 @@ export default function main() {
         };
     }, [updateTask]);
 
+    // Load agents available to plan nodes
+    useEffect(() => {
+        if (!window.api) return;
+        (window.api as any).invoke('eko:get-agent-names').then(setAgentNames).catch((error: any) => {
+            console.error('[Main] Failed to load agent names:', error);
+        });
+    }, []);
+
+    // Keep live task statuses (shared by status bar and history panel) in sync with main process
+    useEffect(() => subscribeTaskStatus(), []);
+
+    // Monitor token usage of tasks, save totals to the task record
+    useEffect(() => {
+        if (!window.api || isHistoryMode) return;
+
+        window.api.onEkoTaskUsage((event: any) => {
+            if (!isTaskDetailMode) {
+                updateTask(event.taskId, { usage: event.usage });
+                return;
+            }
+
+            // Step-by-step executions run one Eko task per step, the execution record keeps the execution totals
+            if (event.executionId === urlExecutionId && event.executionUsage && taskIdRef.current) {
+                updateTask(taskIdRef.current, { usage: event.executionUsage });
+            }
+        });
+
+        return () => {
+            if (window.api && (window.api as any).removeAllListeners) {
+                (window.api as any).removeAllListeners('eko-task-usage');
+            }
+        };
+    }, [isHistoryMode, isTaskDetailMode, urlExecutionId, updateTask]);
+
+    // Monitor agent requests for human confirmation/input and their resolution
+    useEffect(() => {
+        if (!window.api || isHistoryMode) return;
+
+        const applyToTask = (updatedMessages: DisplayMessage[], taskId?: string) => {
+            const taskIdToUpdate = (isTaskDetailMode && taskIdRef.current) || taskId || taskIdRef.current;
+            if (taskIdToUpdate) {
+                updateTask(taskIdToUpdate, { messages: updatedMessages });
+            }
+        };
+
+        window.api.onEkoHumanRequest((request: any) => {
+            console.log('[Main] Human request received:', request);
+            applyToTask(messageProcessorRef.current.addHumanRequest(request), request.taskId);
+        });
+
+        window.api.onEkoHumanResolved((event: any) => {
+            const { requestId, status, answer } = event;
+            applyToTask(messageProcessorRef.current.resolveHumanRequest(requestId, status, answer));
+        });
+
+        return () => {
+            if (window.api && (window.api as any).removeAllListeners) {
+                (window.api as any).removeAllListeners('eko-human-request');
+                (window.api as any).removeAllListeners('eko-human-resolved');
+            }
+        };
+    }, [isHistoryMode, isTaskDetailMode, updateTask]);
+
+    // Answer agent request for human confirmation/input
+    const handleHumanResponse = async (requestId: string, answer: boolean | string | string[]) => {
+        const result = await (window.api as any).invoke('eko:human-response', requestId, answer);
+        if (!result?.success) {
+            // Request already resolved in main process (e.g. task stopped), stop offering an answer
+            const updatedMessages = messageProcessorRef.current.resolveHumanRequest(requestId, 'cancelled');
+            if (taskIdRef.current) {
+                updateTask(taskIdRef.current, { messages: updatedMessages });
+            }
+            antdMessage.warning(result?.message || 'Failed to send answer');
+        }
+    };
+
     // Monitor scheduled task execution completion event, update task end time and scheduled task configuration
     useEffect(() => {
         if (!isTaskDetailMode || !window.api) return;
 
         const handleTaskExecutionComplete = async (event: any) => {
-            const { taskId, executionId, status, endTime } = event;
+            const { taskId, status, error, variables, willRetry, disabled, endTime } = event;
 
             try {
                 const endTimeDate = endTime ? new Date(endTime) : new Date();
@@ -241,19 +393,30 @@ export default function main() {
                         endTime: endTimeDate,
                         duration: startTime ? endTimeDate.getTime() - startTime.getTime() : undefined,
                         status: status as any,
+                        error,
+                        variables,
                     });
                 }
 
-                // Update scheduled task configuration's lastExecutedAt field
+                // Update scheduled task configuration's lastExecutedAt field (disabled after too many failures)
                 const scheduledTaskId = scheduledTaskIdFromUrl || taskId;
                 if (scheduledTaskId) {
                     await scheduledTaskStorage.updateScheduledTask(scheduledTaskId, {
-                        lastExecutedAt: endTimeDate
+                        lastExecutedAt: endTimeDate,
+                        ...(disabled ? { enabled: false } : {})
                     });
                     console.log(`[Main] Scheduled task configuration updated lastExecutedAt: ${scheduledTaskId}`);
                 }
 
-                antdMessage.success('Task execution completed');
+                if (status === 'done') {
+                    antdMessage.success('Task execution completed');
+                } else if (disabled) {
+                    antdMessage.error('Task failed too many times in a row and has been disabled');
+                } else if (willRetry) {
+                    antdMessage.warning(`Task execution failed, will retry: ${error}`);
+                } else if (status === 'error') {
+                    antdMessage.error(`Task execution failed: ${error}`);
+                }
             } catch (error) {
                 console.error('[Main] Failed to update task completion status:', error);
                 antdMessage.error('Failed to update task status');
@@ -350,6 +513,21 @@ export default function main() {
             const updatedMessages = messageProcessorRef.current.processStreamMessage(message);
             console.log('Updated message list:', updatedMessages);
 
+            // Scheduled execution started by main process, create its execution record on first message
+            if (isTaskDetailMode && !taskIdRef.current && message.taskId) {
+                taskIdRef.current = message.taskId;
+                setCurrentTaskId(message.taskId);
+                createTask(message.taskId, {
+                    status: 'running',
+                    taskType: 'scheduled',
+                    scheduledTaskId: scheduledTaskIdFromUrl,
+                    executionId: typeof urlExecutionId === 'string' ? urlExecutionId : undefined,
+                    attempt: attemptFromUrl,
+                    stepResults: stepResultsRef.current.length > 0 ? stepResultsRef.current : undefined,
+                    startTime: new Date(),
+                });
+            }
+
             // Handle task ID replacement: temporary task -> real task
             const isCurrentTaskTemporary = taskIdRef.current?.startsWith('temp-');
             const hasRealTaskId = message.taskId && !message.taskId.startsWith('temp-');
@@ -385,8 +563,8 @@ export default function main() {
                 setCurrentTaskId(message.taskId);
             }
 
-            // Update or create task
-            const taskIdToUpdate = message.taskId || taskIdRef.current;
+            // Update or create task (step-by-step executions run one Eko task per step, all kept in one execution record)
+            const taskIdToUpdate = (isTaskDetailMode && taskIdRef.current) || message.taskId || taskIdRef.current;
             if (taskIdToUpdate) {
                 const updates: Partial<Task> = {
                     messages: updatedMessages
@@ -554,6 +732,36 @@ export default function main() {
         }
     };
 
+    // Resume interrupted task from its checkpoint, continuing its stored conversation
+    const handleResumeFromCheckpoint = async (task: Task) => {
+        if (currentTaskId && isCurrentTaskRunning) {
+            antdMessage.warning('Please wait for the running task to finish or stop it first');
+            return;
+        }
+
+        const newExecutionId = uuidv4();
+        executionIdRef.current = newExecutionId;
+        messageProcessorRef.current.setExecutionId(newExecutionId);
+        messageProcessorRef.current.loadMessages(task.messages || []);
+
+        continueTask(task);
+        taskIdRef.current = task.id;
+        setToolHistory(task.toolHistory || []);
+        antdMessage.info('Resuming task from checkpoint');
+
+        try {
+            const result: EkoResult | null = await (window.api as any).invoke('eko:resume-checkpoint', task.id);
+            updateTaskRef.current(task.id, {
+                status: result ? result.stopReason : 'error',
+                endTime: new Date(),
+            });
+        } catch (error: any) {
+            console.error('Failed to resume task:', error);
+            updateTaskRef.current(task.id, { status: 'interrupted' });
+            antdMessage.error(error?.message || 'Failed to resume task');
+        }
+    };
+
     // Handle history task selection
     const handleSelectHistoryTask = async (task: Task) => {
         try {
@@ -655,6 +863,22 @@ export default function main() {
             // Check if current task is temporary
             const isTemporaryTask = taskIdRef.current.startsWith('temp-');
 
+            if (reviewPlan) {
+                // Only generate the plan, it runs after review (handleRunPlan)
+                const req = (window.api as any).invoke('eko:plan', message.trim(), isTemporaryTask ? undefined : taskIdRef.current);
+                setEkoRequest(req);
+                const workflow = await req;
+                if (workflow) {
+                    setPendingPlan({
+                        taskId: workflow.taskId,
+                        agents: workflow.agents.map((agent: PlanAgentNode) => ({ id: agent.id, name: agent.name, task: agent.task })),
+                    });
+                } else if (taskIdRef.current) {
+                    updateTask(taskIdRef.current, { status: 'error' });
+                }
+                return;
+            }
+
             if (isTemporaryTask) {
                 // Use IPC to call main thread's EkoService to run new task
                 const req = window.api.ekoRun(message.trim());
@@ -686,6 +910,34 @@ export default function main() {
     }
 
 
+    // Execute reviewed plan
+    const handleRunPlan = async (agents: PlanAgentNode[]) => {
+        if (!pendingPlan) return;
+        const { taskId } = pendingPlan;
+        setPendingPlan(null);
+
+        try {
+            const req = (window.api as any).invoke('eko:execute-plan', taskId, agents);
+            setEkoRequest(req);
+            const result: EkoResult | null = await req;
+            if (taskIdRef.current) {
+                updateTask(taskIdRef.current, { status: result ? result.stopReason : 'error' });
+            }
+        } catch (error: any) {
+            if (taskIdRef.current) {
+                updateTask(taskIdRef.current, { status: 'error' });
+            }
+            console.error('Failed to execute plan:', error);
+            antdMessage.error(error?.message || 'Failed to execute plan');
+        }
+    };
+
+    // Discard plan under review, the task is aborted
+    const handleDiscardPlan = async () => {
+        setPendingPlan(null);
+        await terminateCurrentTask('Plan discarded');
+    };
+
     // Task termination handling (manual click cancel button)
     const handleCancelTask = async () => {
         if (!currentTaskId) {
@@ -701,6 +953,56 @@ export default function main() {
         }
     };
 
+    // Pause running task at the next tool boundary, or resume paused task
+    const handlePauseResume = async () => {
+        if (!currentTaskId) return;
+
+        try {
+            const result = isCurrentTaskPaused
+                ? await window.api.ekoResumeTask(currentTaskId)
+                : await window.api.ekoPauseTask(currentTaskId);
+            if (!result.success) {
+                antdMessage.warning(result.message || 'Operation failed');
+            }
+        } catch (error) {
+            console.error('Failed to pause/resume task:', error);
+            antdMessage.error(isCurrentTaskPaused ? 'Failed to resume task' : 'Failed to pause task');
+        }
+    };
+
+    // History mode shows the selected execution's steps, otherwise the live execution
+    const displayedStepResults = isHistoryMode
+        ? tasks.find(task => task.id === currentTaskId)?.stepResults
+        : stepResults;
+
+    // Resume step-by-step scheduled execution from a failed step
+    const handleResumeFromStep = async (stepId: string) => {
+        if (!scheduledTaskIdFromUrl || !window.api) return;
+
+        try {
+            const scheduledTask = await scheduledTaskStorage.getScheduledTask(scheduledTaskIdFromUrl);
+            if (!scheduledTask) {
+                antdMessage.error('Scheduled task not found');
+                return;
+            }
+
+            const steps = displayedStepResults || [];
+            const stepIndex = steps.findIndex(step => step.stepId === stepId);
+            const previousResult = stepIndex > 0 ? steps[stepIndex - 1].result : undefined;
+
+            // Resume with the variable values of the failed execution
+            const variables = tasks.find(task => task.id === currentTaskId)?.variables;
+
+            const result = await (window.api as any).invoke('scheduler:resume-from-step', scheduledTask, stepId, previousResult, variables);
+            if (!result.success) {
+                antdMessage.error(result.message || 'Failed to resume task');
+            }
+        } catch (error) {
+            console.error('Failed to resume task:', error);
+            antdMessage.error('Failed to resume task');
+        }
+    };
+
     return (
         <>
             <Header />
@@ -716,14 +1018,46 @@ export default function main() {
                                 )}
                             </div>
                         </div>
+                        {/* Step progress (step-by-step scheduled execution) */}
+                        {isTaskDetailMode && displayedStepResults && displayedStepResults.length > 0 && (
+                            <div className='px-4 pt-5'>
+                                <StepProgress
+                                    steps={displayedStepResults}
+                                    canResume={!isCurrentTaskRunning && !displayedStepResults.some(step => step.status === 'running')}
+                                    onResume={handleResumeFromStep}
+                                />
+                            </div>
+                        )}
                         {/* Message list */}
                         <div
                             ref={scrollContainerRef}
                             className='flex-1 h-full overflow-x-hidden overflow-y-auto px-4 pt-5'
                             onScroll={handleScroll}
                         >
-                            <MessageList messages={messages} onToolClick={handleToolClick} />
+                            <MessageList messages={messages} onToolClick={handleToolClick} onHumanResponse={handleHumanResponse} />
                         </div>
+                        {/* Plan waiting for review */}
+                        {!isHistoryMode && pendingPlan && currentRunStatus === 'plan_review' && (
+                            <PlanReviewPanel
+                                agents={pendingPlan.agents}
+                                agentNames={agentNames}
+                                onRun={handleRunPlan}
+                                onDiscard={handleDiscardPlan}
+                            />
+                        )}
+                        {/* Live status of running task and plan review switch */}
+                        {!isHistoryMode && (
+                            <div className='flex items-center gap-2'>
+                                <TaskStatusBar taskId={currentTaskId} />
+                                <Checkbox
+                                    checked={reviewPlan}
+                                    onChange={(e) => setReviewPlan(e.target.checked)}
+                                    className='!ml-auto !text-xs !text-text-12-dark shrink-0'
+                                >
+                                    Review plan before running
+                                </Checkbox>
+                            </div>
+                        )}
                         {/* Question input box */}
                         <div className='h-30 gradient-border relative'>
                             <Input.TextArea
@@ -737,13 +1071,24 @@ export default function main() {
 
                             {/* Send/Cancel button - only shown in non-history mode */}
                             {!isHistoryMode && (
-                                <div className="absolute right-3 bottom-3">
+                                <div className="absolute right-3 bottom-3 flex gap-2">
                                     {isCurrentTaskRunning ? (
-                                        <span 
-                                        className='bg-ask-status rounded-md flex justify-center items-center w-7 h-7 cursor-pointer'
-                                        onClick={handleCancelTask}>
-                                            <CancleTask className="w-5 h-5" />
-                                        </span>
+                                        <>
+                                            {canPauseCurrentTask && (
+                                                <Tooltip title={isCurrentTaskPaused ? 'Resume' : 'Pause'}>
+                                                    <span
+                                                    className='bg-ask-status rounded-md flex justify-center items-center w-7 h-7 cursor-pointer'
+                                                    onClick={handlePauseResume}>
+                                                        {isCurrentTaskPaused ? <CaretRightOutlined /> : <PauseOutlined />}
+                                                    </span>
+                                                </Tooltip>
+                                            )}
+                                            <span 
+                                            className='bg-ask-status rounded-md flex justify-center items-center w-7 h-7 cursor-pointer'
+                                            onClick={handleCancelTask}>
+                                                <CancleTask className="w-5 h-5" />
+                                            </span>
+                                        </>
                                     ) : (
                                         <span
                                         className={`bg-ask-status rounded-md flex justify-center items-center w-7 h-7 cursor-pointer ${
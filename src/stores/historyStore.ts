@@ -5,6 +5,8 @@ interface HistoryState {
   // State
   showHistoryPanel: boolean;
   selectedHistoryTask: Task | null;
+  // Interrupted task to resume from its checkpoint (handled by main.tsx)
+  taskToResume: Task | null;
 
   // Function to terminate current task (set by main.tsx)
   terminateCurrentTaskFn: ((reason: string) => Promise<boolean>) | null;
@@ -13,6 +15,8 @@ interface HistoryState {
   setShowHistoryPanel: (show: boolean) => void;
   selectHistoryTask: (task: Task) => void;
   clearSelectedHistoryTask: () => void;
+  resumeHistoryTask: (task: Task) => void;
+  clearTaskToResume: () => void;
   setTerminateCurrentTaskFn: (fn: (reason: string) => Promise<boolean>) => void;
 }
 
@@ -20,6 +24,7 @@ export const useHistoryStore = create<HistoryState>((set) => ({
   // Initial state
   showHistoryPanel: false,
   selectedHistoryTask: null,
+  taskToResume: null,
   terminateCurrentTaskFn: null,
 
   // Actions
@@ -32,5 +37,12 @@ export const useHistoryStore = create<HistoryState>((set) => ({
 
   clearSelectedHistoryTask: () => set({ selectedHistoryTask: null }),
 
+  resumeHistoryTask: (task) => set({
+    taskToResume: task,
+    showHistoryPanel: false
+  }),
+
+  clearTaskToResume: () => set({ taskToResume: null }),
+
   setTerminateCurrentTaskFn: (fn) => set({ terminateCurrentTaskFn: fn }),
 }));
\ No newline at end of file
@@ -58,7 +58,7 @@ interface ScheduledTaskState {
   setIsEditMode: (isEdit: boolean) => void;
 
   // Execute task immediately
-  executeTaskNow: (task: ScheduledTask) => Promise<void>;
+  executeTaskNow: (task: ScheduledTask, variables?: Record<string, string>) => Promise<{ success: boolean; message: string } | undefined>;
 
   // Initialize scheduler (load all enabled tasks)
   initializeScheduler: () => Promise<void>;
@@ -224,11 +224,12 @@ export const useScheduledTaskStore = create<ScheduledTaskState>((set, get) => ({
   /**
    * Execute task immediately
    */
-  executeTaskNow: async (task) => {
+  executeTaskNow: async (task, variables) => {
     try {
       if (typeof window !== 'undefined' && (window as any).api) {
-        const result = await (window as any).api.invoke('scheduler:execute-now', task);
+        const result = await (window as any).api.invoke('scheduler:execute-now', task, variables);
         console.log('Task execution result:', result);
+        return result;
       }
     } catch (error) {
       console.error('Failed to execute task:', error);
@@ -238,7 +239,7 @@ export const useScheduledTaskStore = create<ScheduledTaskState>((set, get) => ({
 
   /**
    * Initialize scheduler
-   * Called when App starts, loads all enabled scheduled tasks and registers them to the scheduler
+   * Called once to import all enabled scheduled tasks into the main process schedule store
    */
   initializeScheduler: async () => {
     try {
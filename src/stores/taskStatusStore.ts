@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { TaskRunStatus, TaskRuntimeStatus } from '@/models';
+
+// Statuses of tasks still in progress
+export const ACTIVE_RUN_STATUSES: TaskRunStatus[] = ['planning', 'plan_review', 'running', 'waiting_human', 'paused'];
+
+interface TaskStatusState {
+  // Live status by task ID (tasks of all windows)
+  statuses: Record<string, TaskRuntimeStatus>;
+
+  // Actions
+  setStatus: (status: TaskRuntimeStatus) => void;
+  setStatuses: (statuses: TaskRuntimeStatus[]) => void;
+}
+
+export const useTaskStatusStore = create<TaskStatusState>((set) => ({
+  statuses: {},
+
+  setStatus: (status) => set((state) => ({
+    statuses: { ...state.statuses, [status.taskId]: status }
+  })),
+
+  setStatuses: (statuses) => set({
+    statuses: statuses.reduce<Record<string, TaskRuntimeStatus>>((map, status) => {
+      map[status.taskId] = status;
+      return map;
+    }, {})
+  }),
+}));
+
+/**
+ * Subscribe store to status changes pushed by main process
+ * @returns Function removing the subscription
+ */
+export function subscribeTaskStatus(): () => void {
+  if (typeof window === 'undefined' || !window.api) {
+    return () => {};
+  }
+
+  const { setStatus, setStatuses } = useTaskStatusStore.getState();
+  (window.api as any).invoke('eko:get-task-statuses').then(setStatuses).catch((error: any) => {
+    console.error('Failed to load task statuses:', error);
+  });
+  window.api.onEkoTaskStatus(setStatus);
+
+  return () => {
+    if (window.api && (window.api as any).removeAllListeners) {
+      (window.api as any).removeAllListeners('eko-task-status');
+    }
+  };
+}
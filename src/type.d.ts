@@ -1,7 +1,13 @@
+import type { SpeechRecognitionConfig } from '@/models/speech-recognition/speech-recognition-base'
+import type { TTSConfig } from '@/models/tts-player/tts-player-base'
+
 // Supported providers
-export type ProviderType = 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter';
+export type BuiltinProviderType = 'deepseek' | 'qwen' | 'google' | 'anthropic' | 'openrouter';
+
+// User-defined providers are referenced as 'custom:<id>'
+export type ProviderType = BuiltinProviderType | `custom:${string}`;
 
-// Model configuration types
+// Model configuration types (API keys are returned masked, they are written with setApiKey)
 export interface UserModelConfigs {
   deepseek?: {
     apiKey?: string
@@ -25,6 +31,82 @@ export interface UserModelConfigs {
     model?: string
   }
   selectedProvider?: ProviderType
+  fallbackChain?: FallbackModel[]
+  customProviders?: CustomProviderConfig[]
+  llmSlots?: LLMSlot[]
+  modelRouting?: Record<string, string> // Route (agent name or 'Planner') -> slot name
+}
+
+// User-defined OpenAI-compatible provider (internal gateway or local server such as Ollama, vLLM, LM Studio)
+export interface CustomProviderConfig {
+  id: string
+  name: string
+  baseURL: string
+  apiKey?: string // Masked
+  headers?: Record<string, string>
+  models: string[]
+  model?: string // Selected model, first of the list if not set
+  maxTokens?: number // Output token limit of its models
+}
+
+// How stored API keys are protected (osProtected is false for the Linux fallback without keyring)
+export interface SecretStorageStatus {
+  encrypted: boolean
+  osProtected: boolean
+  backend: string
+}
+
+// Speech recognition and TTS provider settings
+export interface VoiceSettings {
+  speech?: SpeechRecognitionConfig
+  tts?: TTSConfig
+}
+
+// Proxy and extra CA certificates of outbound traffic (browser sessions, LLM requests, API routes)
+export interface NetworkSettings {
+  proxyMode: 'system' | 'direct' | 'manual' | 'pac'
+  proxyUrl?: string // manual: http://, https://, socks4:// or socks5:// host:port
+  pacUrl?: string
+  bypassList?: string[]
+  caCertificates?: string // PEM
+}
+
+// Named configuration profile, bundles model configs (secrets masked), voice settings and scheduler settings
+export interface ConfigProfile {
+  id: string
+  name: string
+  updatedAt: string
+  data: {
+    modelConfigs: UserModelConfigs
+    voiceSettings: VoiceSettings
+    schedulerSettings: { maxConcurrentTasks: number; maxQueueAgeMinutes: number }
+  }
+}
+
+// Model returned by a provider's model listing endpoint
+export interface DiscoveredModel {
+  id: string
+  maxTokens?: number
+}
+
+// Result of a provider connection test
+export interface ConnectionTestResult {
+  success: boolean
+  provider: ProviderType
+  model: string
+  latencyMs: number
+  message?: string
+}
+
+// Fallback LLM, used in order when the selected provider keeps failing (provider's configured model if not set)
+export interface FallbackModel {
+  provider: ProviderType
+  model?: string
+}
+
+// Named LLM that planning and agents can be routed to (e.g. planner, browser, file, vision)
+export interface LLMSlot extends FallbackModel {
+  name: string
 }
 
 declare global {
@@ -51,8 +133,15 @@ declare global {
       ekoModify: (taskId: string, prompt: string) => Promise<any>
       ekoExecute: (taskId: string) => Promise<any>
       onEkoStreamMessage: (callback: (message: any) => void) => void
+      onEkoHumanRequest: (callback: (request: any) => void) => void
+      onEkoHumanResolved: (callback: (event: any) => void) => void
+      onEkoTaskStatus: (callback: (status: any) => void) => void
+      onEkoTaskUsage: (callback: (event: any) => void) => void
       ekoGetTaskStatus: (taskId: string) => Promise<any>
       ekoCancelTask: (taskId: string) => Promise<any>
+      ekoPauseTask: (taskId: string) => Promise<{ success: boolean; message?: string }>
+      ekoResumeTask: (taskId: string) => Promise<{ success: boolean; message?: string }>
+      ekoRestartWithNewConfig: (taskId: string) => Promise<{ success: boolean; message?: string }>
 
       // Model configuration APIs
       getUserModelConfigs: () => Promise<UserModelConfigs>
@@ -61,6 +150,23 @@ declare global {
       getApiKeySource: (provider: ProviderType) => Promise<'user' | 'env' | 'none'>
       getSelectedProvider: () => Promise<ProviderType>
       setSelectedProvider: (provider: ProviderType) => Promise<{ success: boolean }>
+      setApiKey: (provider: ProviderType, apiKey: string) => Promise<{ success: boolean }>
+      getSecretStorageStatus: () => Promise<SecretStorageStatus>
+      testConnection: (provider: ProviderType) => Promise<ConnectionTestResult>
+      fetchModels: (provider: ProviderType) => Promise<{ success: boolean; models?: DiscoveredModel[]; message?: string }>
+      getDiscoveredModels: () => Promise<Record<string, DiscoveredModel[]>>
+      getVoiceSettings: () => Promise<VoiceSettings>
+      saveVoiceSettings: (settings: VoiceSettings) => Promise<{ success: boolean }>
+      getNetworkSettings: () => Promise<NetworkSettings>
+      saveNetworkSettings: (settings: NetworkSettings) => Promise<{ success: boolean; message?: string }>
+      getConfigProfiles: () => Promise<{ profiles: ConfigProfile[]; activeProfileId?: string }>
+      saveConfigProfile: (name: string, id?: string) => Promise<{ success: boolean; profileId?: string; message?: string }>
+      switchConfigProfile: (id: string) => Promise<{ success: boolean; message?: string }>
+      deleteConfigProfile: (id: string) => Promise<{ success: boolean }>
+      exportConfigProfile: (id: string, includeSecrets: boolean) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; message?: string }>
+      importConfigProfile: () => Promise<{ success: boolean; canceled?: boolean; profileId?: string; name?: string; message?: string }>
+      saveCustomProvider: (provider: Partial<CustomProviderConfig>) => Promise<{ success: boolean; provider?: ProviderType; message?: string }>
+      deleteCustomProvider: (id: string) => Promise<{ success: boolean }>
     }
     // PDF.js type declarations
     pdfjsLib?: {
@@ -1,3 +1,7 @@
+/**
+ * HTTP client of the API routes
+ * Uses the global fetch, which follows the proxy and CA settings of the Electron main process when the Next.js server runs in it (production)
+ */
 export class HttpClient {
   private headers: Record<string, string>;
   private timeout: number;
@@ -1,6 +1,6 @@
 import { StreamCallbackMessage } from '@jarvis-agent/core';
 import { uuidv4 } from '@/common/utils';
-import { DisplayMessage, WorkflowMessage, AgentGroupMessage, UserMessage, ToolAction } from '@/models';
+import { DisplayMessage, WorkflowMessage, AgentGroupMessage, UserMessage, ToolAction, HumanRequestMessage, HumanRequestStatus } from '@/models';
 
 // Message transformation and processing class
 export class MessageProcessor {
@@ -41,6 +41,9 @@ export class MessageProcessor {
       case 'agent_result':
         this.handleAgentResultMessage(message);
         break;
+      case 'finish':
+        this.handleFinishMessage(message);
+        break;
       case 'error':
         this.handleErrorMessage(message);
         break;
@@ -252,6 +255,36 @@ export class MessageProcessor {
     return [...this.messages];
   }
 
+  // Add agent request for human input
+  public addHumanRequest(request: Omit<HumanRequestMessage, 'id' | 'type' | 'status' | 'timestamp'>): DisplayMessage[] {
+    const humanMsg: HumanRequestMessage = {
+      ...request,
+      id: uuidv4(),
+      type: 'human_request',
+      status: 'pending',
+      timestamp: new Date()
+    };
+
+    this.messages.push(humanMsg);
+    return [...this.messages];
+  }
+
+  // Record how a human request was answered
+  public resolveHumanRequest(requestId: string, status: HumanRequestStatus, answer?: HumanRequestMessage['answer']): DisplayMessage[] {
+    this.messages = this.messages.map((msg) =>
+      msg.type === 'human_request' && msg.requestId === requestId ? { ...msg, status, answer } : msg
+    );
+    return [...this.messages];
+  }
+
+  // Handle end of an agent LLM request, records the model that answered
+  private handleFinishMessage(message: any) {
+    const agentGroup = this.agentGroups.get(`${message.taskId}-${message.nodeId}-${this.executionId}`);
+    if (agentGroup && message.llm) {
+      agentGroup.llm = message.llm;
+    }
+  }
+
   // Handle error message
   private handleErrorMessage(message: any) {
     console.error('Error message received:', message);
@@ -281,6 +314,12 @@ export class MessageProcessor {
     return [...this.messages];
   }
 
+  // Continue from stored messages (e.g. resuming an interrupted task)
+  public loadMessages(messages: DisplayMessage[]): void {
+    this.clearMessages();
+    this.messages = [...messages];
+  }
+
   // Clear messages
   public clearMessages(): void {
     this.messages = [];
@@ -0,0 +1,48 @@
+import { describe, expect, it } from '@jest/globals';
+import { ScheduledTask, TaskTrigger } from '@/models';
+import { computeTaskLevels, findTriggerCycle } from './taskGraph';
+
+/**
+ * Task triggered by the success of the given upstream tasks
+ */
+const task = (id: string, ...upstreamIds: string[]) => ({
+  id,
+  triggers: upstreamIds.map((taskId): TaskTrigger => ({ taskId, on: 'success' })),
+}) as ScheduledTask;
+
+const triggers = (...upstreamIds: string[]): TaskTrigger[] => upstreamIds.map((taskId) => ({ taskId, on: 'failure' }));
+
+describe('findTriggerCycle', () => {
+  // a -> b -> c
+  const chain = [task('a'), task('b', 'a'), task('c', 'b')];
+
+  it('returns null for acyclic triggers', () => {
+    expect(findTriggerCycle(chain, 'd', triggers('c'))).toBeNull();
+    expect(findTriggerCycle(chain, 'c', triggers('a', 'b'))).toBeNull();
+  });
+
+  it('finds a cycle through other tasks in trigger order', () => {
+    expect(findTriggerCycle(chain, 'a', triggers('c'))).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('finds a task triggering itself', () => {
+    expect(findTriggerCycle(chain, 'b', triggers('b'))).toEqual(['b', 'b']);
+  });
+
+  it('uses the new triggers instead of the stored ones', () => {
+    const cyclic = [task('a', 'b'), task('b', 'a')];
+    expect(findTriggerCycle(cyclic, 'a', [])).toBeNull();
+  });
+});
+
+describe('computeTaskLevels', () => {
+  it('places tasks one level below their deepest upstream task', () => {
+    const levels = computeTaskLevels([task('a'), task('b', 'a'), task('c', 'a', 'b'), task('d', 'missing')]);
+    expect(Object.fromEntries(levels)).toEqual({ a: 0, b: 1, c: 2, d: 0 });
+  });
+
+  it('terminates on stored cycles', () => {
+    const levels = computeTaskLevels([task('a', 'b'), task('b', 'a')]);
+    expect(levels.size).toBe(2);
+  });
+});
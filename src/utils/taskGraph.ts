@@ -0,0 +1,68 @@
+import { ScheduledTask, TaskTrigger } from '@/models';
+
+/**
+ * Find a trigger cycle that saving the given triggers would create
+ * @param tasks All scheduled tasks
+ * @param taskId ID of the task being saved
+ * @param triggers New triggers of the task being saved
+ * @returns Task IDs forming the cycle (starting and ending with taskId), null if none
+ */
+export function findTriggerCycle(tasks: ScheduledTask[], taskId: string, triggers: TaskTrigger[] = []): string[] | null {
+  // Upstream task IDs of every task, with the edited task's triggers replaced
+  const upstream = new Map<string, string[]>();
+  tasks.forEach((task) => {
+    upstream.set(task.id, (task.triggers || []).map((trigger) => trigger.taskId));
+  });
+  upstream.set(taskId, triggers.map((trigger) => trigger.taskId));
+
+  // Walk upstream from the edited task, a path back to it is a cycle
+  const visited = new Set<string>();
+  const walk = (currentId: string, path: string[]): string[] | null => {
+    for (const sourceId of upstream.get(currentId) || []) {
+      if (sourceId === taskId) {
+        return [taskId, ...path.slice().reverse(), taskId];
+      }
+      if (visited.has(sourceId)) continue;
+      visited.add(sourceId);
+
+      const cycle = walk(sourceId, [...path, sourceId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return walk(taskId, []);
+}
+
+/**
+ * Compute graph level of every task: 0 for tasks without (existing) upstream tasks,
+ * otherwise one more than the deepest upstream task
+ */
+export function computeTaskLevels(tasks: ScheduledTask[]): Map<string, number> {
+  const taskMap = new Map(tasks.map((task) => [task.id, task]));
+  const levels = new Map<string, number>();
+
+  const getLevel = (task: ScheduledTask, visiting: Set<string>): number => {
+    const cached = levels.get(task.id);
+    if (cached !== undefined) return cached;
+
+    // Guard against cycles in stored data
+    if (visiting.has(task.id)) return 0;
+    visiting.add(task.id);
+
+    let level = 0;
+    (task.triggers || []).forEach((trigger) => {
+      const source = taskMap.get(trigger.taskId);
+      if (source) {
+        level = Math.max(level, getLevel(source, visiting) + 1);
+      }
+    });
+
+    visiting.delete(task.id);
+    levels.set(task.id, level);
+    return level;
+  };
+
+  tasks.forEach((task) => getLevel(task, new Set()));
+  return levels;
+}
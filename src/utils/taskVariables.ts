@@ -0,0 +1,21 @@
+import { TaskStep } from '@/models';
+
+// Built-in variables, filled by the scheduler for every execution
+export const BUILTIN_VARIABLES = ['today', 'now', 'lastRunAt'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/;
+
+/**
+ * Get placeholder names referenced in step contents
+ */
+export function extractPlaceholders(steps: TaskStep[] = []): string[] {
+  const names = new Set<string>();
+  steps.forEach((step) => {
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(step.content || '')) !== null) {
+      names.add(match[1]);
+    }
+  });
+  return Array.from(names);
+}